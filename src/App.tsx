@@ -5,7 +5,7 @@ import { useEffect } from 'react';
 import { useUIStore } from '@/stores';
 
 // Relative imports
-import { NavBar, PlanetSelectionView, MapView, EvolutionView, TechnologyView, SettingsModal } from './components';
+import { NavBar, PlanetSelectionView, MapView, EvolutionView, TechnologyView, SettingsModal, GameActionProvider } from './components';
 
 // Type imports
 import type { ViewType } from '@/stores';
@@ -19,6 +19,7 @@ function App() {
   const setSettingsOpen = useUIStore((state) => state.setSettingsOpen);
   const toggleSettings = useUIStore((state) => state.toggleSettings);
   const navigateToMap = useUIStore((state) => state.navigateToMap);
+  const selectedPlanetId = useUIStore((state) => state.selectedPlanetId);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -54,24 +55,27 @@ function App() {
     }
   };
 
+  // Costs of generated assets are recorded under the planet being played
   return (
-    <div className="h-screen bg-gray-100 flex flex-col">
-      <NavBar
-        currentView={currentView}
-        onViewChange={handleViewChange}
-        onSettingsClick={() => setSettingsOpen(true)}
-        onReportBugClick={handleReportBug}
-      />
+    <GameActionProvider processorOptions={{ planetId: selectedPlanetId ?? undefined }}>
+      <div className="h-screen bg-gray-100 flex flex-col">
+        <NavBar
+          currentView={currentView}
+          onViewChange={handleViewChange}
+          onSettingsClick={() => setSettingsOpen(true)}
+          onReportBugClick={handleReportBug}
+        />
       
-      <div className="flex-1 overflow-hidden">
-        {renderCurrentView()}
-      </div>
+        <div className="flex-1 overflow-hidden">
+          {renderCurrentView()}
+        </div>
       
-      <SettingsModal
-        isOpen={isSettingsOpen}
-        onClose={() => setSettingsOpen(false)}
-      />
-    </div>
+        <SettingsModal
+          isOpen={isSettingsOpen}
+          onClose={() => setSettingsOpen(false)}
+        />
+      </div>
+    </GameActionProvider>
   );
 }
 
@@ -0,0 +1,43 @@
+import { createContext, useContext, useSyncExternalStore } from 'react';
+import type { GameActionDispatcher, Presentation } from '../../services/actions/GameActionDispatcher';
+import type { UseActionProcessorResult } from '../../hooks/useActionProcessor';
+
+export const GameActionContext = createContext<GameActionDispatcher | null>(null);
+
+export const GameActionProcessorContext = createContext<UseActionProcessorResult | null>(null);
+
+/**
+ * The dispatcher provided by the nearest GameActionProvider
+ *
+ * Use it to register handlers or dispatch actions directly; documents
+ * processed with useGameActionProcessor() already play through it.
+ */
+export function useGameActionDispatcher(): GameActionDispatcher {
+  const dispatcher = useContext(GameActionContext);
+  if (!dispatcher) {
+    throw new Error('useGameActionDispatcher must be used inside a GameActionProvider');
+  }
+  return dispatcher;
+}
+
+/**
+ * The processor owned by the nearest GameActionProvider
+ *
+ * Documents processed with it play their game actions through the
+ * provider's dispatcher.
+ */
+export function useGameActionProcessor(): UseActionProcessorResult {
+  const processor = useContext(GameActionProcessorContext);
+  if (!processor) {
+    throw new Error('useGameActionProcessor must be used inside a GameActionProvider');
+  }
+  return processor;
+}
+
+/** The presentation the dispatcher is waiting on, re-rendering whenever it changes */
+export function useActivePresentation(dispatcher: GameActionDispatcher): Presentation | null {
+  return useSyncExternalStore(
+    listener => dispatcher.subscribe(listener),
+    () => dispatcher.getActive()
+  );
+}
@@ -0,0 +1,65 @@
+import { render, screen, fireEvent, cleanup, act } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { GameActionLayer } from './GameActionLayer';
+import { GameActionDispatcher } from '../../services/actions/GameActionDispatcher';
+
+describe('GameActionLayer', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('renders nothing while no action is presented', () => {
+    const { container } = render(<GameActionLayer dispatcher={new GameActionDispatcher()} />);
+
+    expect(container.innerHTML).toBe('');
+  });
+
+  it('shows queued modals one at a time', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const { container } = render(<GameActionLayer dispatcher={dispatcher} assetUrl={id => `/assets/${id}.png`} />);
+
+    let first!: ReturnType<GameActionDispatcher['dispatch']>;
+    await act(async () => {
+      first = dispatcher.dispatch({ type: 'show_modal', title: 'Dawn', content: 'Life begins', image_id: 'sunrise', subtitle_id: null });
+      void dispatcher.dispatch({ type: 'show_modal', title: 'Dusk', content: 'Night falls', image_id: null, subtitle_id: null });
+    });
+
+    expect(screen.getByRole('dialog', { name: 'Dawn' })).toBeTruthy();
+    expect(container.querySelector('img')?.getAttribute('src')).toBe('/assets/sunrise.png');
+    expect(screen.queryByRole('dialog', { name: 'Dusk' })).toBeNull();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Continue'));
+    });
+
+    expect((await first).status).toBe('completed');
+    expect(screen.getByRole('dialog', { name: 'Dusk' })).toBeTruthy();
+  });
+
+  it('resolves a player choice with the clicked option', async () => {
+    const onChoice = vi.fn();
+    const dispatcher = new GameActionDispatcher({ onChoice });
+    render(<GameActionLayer dispatcher={dispatcher} />);
+
+    let result!: ReturnType<GameActionDispatcher['dispatch']>;
+    await act(async () => {
+      result = dispatcher.dispatch({
+        type: 'add_player_choice',
+        id: 'diet',
+        prompt: 'What should they eat?',
+        options: [
+          { label: 'Plants', description: 'Become herbivores', reactions: [] },
+          { label: 'Meat', description: 'Become carnivores', reactions: [] }
+        ]
+      }, 'diet');
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Meat'));
+    });
+
+    expect(await result).toMatchObject({ status: 'completed', value: 1 });
+    expect(onChoice).toHaveBeenCalledWith(expect.objectContaining({ optionIndex: 1 }));
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import type { FC } from 'react';
+import { CutscenePlayer } from '../CutscenePlayer';
+import { GameModal } from './GameModal';
+import { PlayerChoicePanel } from './PlayerChoicePanel';
+import { useActivePresentation } from './GameActionContext';
+import type { GameActionDispatcher } from '../../services/actions/GameActionDispatcher';
+
+interface GameActionLayerProps {
+  dispatcher: GameActionDispatcher;
+  /** Resolves asset IDs (e.g. a modal's image_id) to URLs; without it modals show no image */
+  assetUrl?: (assetId: string) => string;
+}
+
+/**
+ * Renders whatever the dispatcher is presenting and reports back when the
+ * player is done with it, which lets the dispatcher move on to the next action
+ */
+export const GameActionLayer: FC<GameActionLayerProps> = ({ dispatcher, assetUrl }) => {
+  const presentation = useActivePresentation(dispatcher);
+  if (!presentation) return null;
+
+  const { id, action } = presentation;
+  const done = (value?: unknown) => dispatcher.resolve(id, value);
+
+  switch (action.type) {
+    case 'show_modal':
+      return (
+        <GameModal
+          key={id}
+          action={action}
+          imageUrl={action.image_id && assetUrl ? assetUrl(action.image_id) : undefined}
+          onClose={() => done()}
+        />
+      );
+    case 'play_cutscene':
+      return (
+        <div key={id} className="fixed inset-0 bg-black flex items-center justify-center z-50">
+          <CutscenePlayer
+            cutsceneId={action.cutscene_id}
+            onComplete={() => done('completed')}
+            onSkip={() => done('skipped')}
+            autoplay
+            allowSkip
+          />
+        </div>
+      );
+    case 'add_player_choice':
+      return <PlayerChoicePanel key={id} action={action} onChoose={index => done(index)} />;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,43 @@
+import { render, screen, fireEvent, cleanup, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, afterEach } from 'vitest';
+import { GameActionProvider } from './GameActionProvider';
+import { useGameActionProcessor } from './GameActionContext';
+
+const document = {
+  actions: [
+    { type: 'show_modal', title: 'Dawn', content: 'Life begins', image_id: null, subtitle_id: null }
+  ]
+};
+
+const PlayButton = () => {
+  const { processActions } = useGameActionProcessor();
+  return <button onClick={() => void processActions(document)}>Play</button>;
+};
+
+describe('GameActionProvider', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('plays documents processed with its processor through its dispatcher', async () => {
+    render(
+      <GameActionProvider processorOptions={{ useMockExecutors: true }}>
+        <PlayButton />
+      </GameActionProvider>
+    );
+
+    // The processor is created once the mock executors are loaded
+    await waitFor(async () => {
+      await act(async () => {
+        fireEvent.click(screen.getByText('Play'));
+      });
+      expect(screen.getByRole('dialog', { name: 'Dawn' })).toBeTruthy();
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Continue'));
+    });
+
+    expect(screen.queryByRole('dialog')).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { type FC, type ReactNode, useState } from 'react';
+import { GameActionContext, GameActionProcessorContext } from './GameActionContext';
+import { GameActionLayer } from './GameActionLayer';
+import { GameActionDispatcher } from '../../services/actions/GameActionDispatcher';
+import { useActionProcessor, type UseActionProcessorOptions } from '../../hooks/useActionProcessor';
+
+interface GameActionProviderProps {
+  /** Dispatcher to expose; one is created for the provider's lifetime when omitted */
+  dispatcher?: GameActionDispatcher;
+  /** Options of the processor exposed by useGameActionProcessor(); it always uses the provider's dispatcher */
+  processorOptions?: Omit<UseActionProcessorOptions, 'dispatcher'>;
+  assetUrl?: (assetId: string) => string;
+  children: ReactNode;
+}
+
+/**
+ * Makes a GameActionDispatcher, and a processor that plays documents through
+ * it, available to the app and renders its presentations above the children
+ */
+export const GameActionProvider: FC<GameActionProviderProps> = ({ dispatcher, processorOptions, assetUrl, children }) => {
+  const [ownDispatcher] = useState(() => dispatcher || new GameActionDispatcher());
+  const active = dispatcher || ownDispatcher;
+  const processor = useActionProcessor({ ...processorOptions, dispatcher: active });
+
+  return (
+    <GameActionContext.Provider value={active}>
+      <GameActionProcessorContext.Provider value={processor}>
+        {children}
+        <GameActionLayer dispatcher={active} assetUrl={assetUrl} />
+      </GameActionProcessorContext.Provider>
+    </GameActionContext.Provider>
+  );
+};
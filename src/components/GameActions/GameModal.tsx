@@ -0,0 +1,29 @@
+import type { FC } from 'react';
+import type { ShowModalAction } from '../../services/actions/parser/types';
+
+interface GameModalProps {
+  action: ShowModalAction;
+  /** URL of the modal's image asset, when it has one */
+  imageUrl?: string;
+  onClose: () => void;
+}
+
+export const GameModal: FC<GameModalProps> = ({ action, imageUrl, onClose }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+    <div role="dialog" aria-label={action.title} className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+      {imageUrl && <img src={imageUrl} alt="" className="w-full rounded-t-lg" />}
+      <div className="p-6">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">{action.title}</h2>
+        <p className="text-gray-700 whitespace-pre-line">{action.content}</p>
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  </div>
+);
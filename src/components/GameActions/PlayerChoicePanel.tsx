@@ -0,0 +1,27 @@
+import type { FC } from 'react';
+import type { AddPlayerChoiceAction } from '../../services/actions/parser/types';
+
+interface PlayerChoicePanelProps {
+  action: AddPlayerChoiceAction;
+  onChoose: (optionIndex: number) => void;
+}
+
+export const PlayerChoicePanel: FC<PlayerChoicePanelProps> = ({ action, onChoose }) => (
+  <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+    <div role="dialog" aria-label={action.prompt} className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 p-6">
+      <h2 className="text-xl font-bold text-gray-800 mb-4">{action.prompt}</h2>
+      <div className="space-y-3">
+        {action.options.map((option, index) => (
+          <button
+            key={index}
+            onClick={() => onChoose(index)}
+            className="w-full text-left p-4 border border-gray-300 rounded hover:border-blue-600 hover:bg-blue-50 transition-colors"
+          >
+            <span className="block font-semibold text-gray-800">{option.label}</span>
+            <span className="block text-sm text-gray-600">{option.description}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,5 @@
+export { GameActionProvider } from './GameActionProvider';
+export { GameActionLayer } from './GameActionLayer';
+export { GameModal } from './GameModal';
+export { PlayerChoicePanel } from './PlayerChoicePanel';
+export { useGameActionDispatcher, useGameActionProcessor, useActivePresentation } from './GameActionContext';
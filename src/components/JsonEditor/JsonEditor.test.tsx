@@ -0,0 +1,43 @@
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { JsonEditor } from './JsonEditor';
+import { DSLParser } from '../../services/actions/parser';
+
+const json = JSON.stringify({
+  actions: [{ type: 'play_cutscene', cutscene_id: 'missing' }]
+}, null, 2);
+
+const diagnostics = new DSLParser().parse(json).errors!;
+
+describe('JsonEditor', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('underlines located diagnostics', () => {
+    render(<JsonEditor value={json} onChange={() => {}} diagnostics={diagnostics} />);
+
+    const underline = screen.getByTestId('json-editor-underline');
+    expect(underline.textContent).toBe('"missing"');
+    expect(underline.className).toContain('decoration-red-500');
+  });
+
+  it('lists diagnostics with their position and selects the span on click', () => {
+    render(<JsonEditor value={json} onChange={() => {}} diagnostics={diagnostics} />);
+
+    const { line, column, start, end } = diagnostics[0].location!;
+    fireEvent.click(screen.getByText(`${line}:${column} ${diagnostics[0].message}`));
+
+    const textarea = screen.getByRole('textbox') as HTMLTextAreaElement;
+    expect([textarea.selectionStart, textarea.selectionEnd]).toEqual([start, end]);
+  });
+
+  it('reports edits', () => {
+    const onChange = vi.fn();
+    render(<JsonEditor value="{}" onChange={onChange} />);
+
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: '{"actions": []}' } });
+    expect(onChange).toHaveBeenCalledWith('{"actions": []}');
+    expect(screen.queryByTestId('json-editor-underline')).toBeNull();
+  });
+});
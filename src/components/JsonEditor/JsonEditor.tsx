@@ -0,0 +1,112 @@
+import { type FC, type ReactNode, useRef } from 'react';
+import type { ValidationError } from '../../services/actions/parser';
+
+export interface JsonEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** Parser errors and warnings; those with a location are underlined */
+  diagnostics?: ValidationError[];
+  className?: string;
+}
+
+// Shared by the textarea and its backdrop so both lay text out identically
+const TEXT_LAYOUT = 'px-3 py-2 font-mono text-sm whitespace-pre-wrap break-words';
+
+/**
+ * Split the text into plain runs and underlined diagnostic spans
+ *
+ * Overlapping spans keep the first one; the rest are still listed below.
+ */
+function renderUnderlines(value: string, diagnostics: ValidationError[]): ReactNode[] {
+  const located = diagnostics
+    .filter(diagnostic => diagnostic.location)
+    .sort((a, b) => a.location!.start - b.location!.start);
+
+  const nodes: ReactNode[] = [];
+  let offset = 0;
+  located.forEach((diagnostic, i) => {
+    const { start, end } = diagnostic.location!;
+    if (start < offset || start >= value.length) return;
+    nodes.push(value.slice(offset, start));
+    nodes.push(
+      <mark
+        key={i}
+        data-testid="json-editor-underline"
+        title={diagnostic.message}
+        className={`bg-transparent text-transparent underline decoration-wavy ${
+          diagnostic.severity === 'error' ? 'decoration-red-500' : 'decoration-yellow-500'
+        }`}
+      >
+        {value.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  nodes.push(value.slice(offset));
+  return nodes;
+}
+
+/**
+ * Plain-text JSON editor that underlines parser diagnostics
+ *
+ * A transparent textarea sits on top of a backdrop that repeats the text with
+ * invisible glyphs, so only the underlines show through.
+ */
+export const JsonEditor: FC<JsonEditorProps> = ({ value, onChange, diagnostics = [], className = 'h-96' }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const located = diagnostics.filter(diagnostic => diagnostic.location);
+
+  const syncScroll = () => {
+    if (backdropRef.current && textareaRef.current) {
+      backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+    }
+  };
+
+  const select = (diagnostic: ValidationError) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !diagnostic.location) return;
+    textarea.focus();
+    textarea.setSelectionRange(diagnostic.location.start, diagnostic.location.end);
+  };
+
+  return (
+    <div>
+      <div className={`relative bg-gray-800 border border-gray-700 rounded-md ${className}`}>
+        <div
+          ref={backdropRef}
+          aria-hidden="true"
+          className={`absolute inset-0 overflow-hidden text-transparent pointer-events-none ${TEXT_LAYOUT}`}
+        >
+          {renderUnderlines(value, diagnostics)}
+          {/* Keeps the backdrop as tall as the textarea when the text ends in a newline */}
+          {'\n '}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={syncScroll}
+          className={`absolute inset-0 w-full h-full resize-none bg-transparent rounded-md ${TEXT_LAYOUT}`}
+          spellCheck={false}
+        />
+      </div>
+
+      {located.length > 0 && (
+        <ul className="mt-2 space-y-1 text-xs font-mono">
+          {located.map((diagnostic, i) => (
+            <li key={i}>
+              <button
+                type="button"
+                onClick={() => select(diagnostic)}
+                className={`text-left hover:underline ${diagnostic.severity === 'error' ? 'text-red-400' : 'text-yellow-400'}`}
+              >
+                {diagnostic.location!.line}:{diagnostic.location!.column} {diagnostic.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
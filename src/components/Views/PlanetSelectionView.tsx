@@ -1,4 +1,5 @@
 import { type FC, useState, useMemo } from 'react';
+import { useUIStore } from '@/stores';
 import { Galaxy3D } from '../PlanetSelectionView/Galaxy3D';
 import { PlanetPreview } from '../PlanetSelectionView/PlanetPreview';
 import type { Planet } from '../PlanetSelectionView/types';
@@ -100,15 +101,16 @@ export const PlanetSelectionView: FC<PlanetSelectionViewProps> = ({
   const [hoveredPlanetId, setHoveredPlanetId] = useState<string | null>(null);
   const [showMarkers, setShowMarkers] = useState(true);
   const [autoRotate, setAutoRotate] = useState(true);
+  const setSelectedPlanetId = useUIStore((state) => state.setSelectedPlanetId);
   
   const hoveredPlanet = hoveredPlanetId 
     ? planets.find(p => p.id === hoveredPlanetId) 
     : null;
   
   const handlePlanetSelect = (planetId: string) => {
-    // In real implementation, this would save the selected planet
-    // and navigate to the planet customization or game view
-    console.log('Selected planet:', planetId);
+    // In real implementation, this would navigate to the planet
+    // customization or game view
+    setSelectedPlanetId(planetId);
     onNavigateToMap();
   };
   
@@ -1,3 +1,4 @@
 export * from './Layout';
 export * from './Views';
-export * from './Modals';
\ No newline at end of file
+export * from './Modals';
+export * from './GameActions';
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { applyTimelineEvent, useActionProcessor } from './useActionProcessor';
+import type { ActionTimelineEntry } from './useActionProcessor';
+import type { ProcessorEvent } from '../services/actions/ActionProcessor';
+import { GameActionDispatcher } from '../services/actions/GameActionDispatcher';
+import { createAssetCache } from '../services/actions/cache/index.js';
+
+// Every asset counts as cached, so tests can tell which cache a processor got
+vi.mock('../services/actions/cache/index.js', async () => {
+  const { MockAssetCache } = await import('../services/actions/executors/mocks.js');
+  return {
+    createAssetCache: vi.fn(() => Object.assign(new MockAssetCache(), { has: async () => true }))
+  };
+});
+
+function fold(events: ProcessorEvent[]): ActionTimelineEntry[] {
+  return events.reduce(applyTimelineEvent, []);
+}
+
+describe('applyTimelineEvent', () => {
+  it('tracks an action from start to completion', () => {
+    const timeline = fold([
+      { type: 'action:start', actionId: 'img', actionType: 'asset_image', timestamp: 100 },
+      { type: 'action:retry', actionId: 'img', actionType: 'asset_image', retry: { attempt: 1, error: new Error('Timeout'), delay: 1000 }, timestamp: 150 },
+      { type: 'action:complete', outcome: { actionId: 'img', actionType: 'asset_image', status: 'cached' }, timestamp: 400 }
+    ]);
+
+    expect(timeline).toEqual([
+      { actionId: 'img', actionType: 'asset_image', status: 'cached', startedAt: 100, endedAt: 400, retries: 1, message: undefined }
+    ]);
+  });
+
+  it('records failures and skipped actions that never started', () => {
+    const timeline = fold([
+      { type: 'action:start', actionId: 'img', actionType: 'asset_image', timestamp: 100 },
+      { type: 'action:failed', outcome: { actionId: 'img', actionType: 'asset_image', status: 'failed', error: new Error('Flux is down') }, timestamp: 200 },
+      {
+        type: 'action:skipped',
+        outcome: {
+          actionId: 'scene',
+          actionType: 'asset_cutscene',
+          status: 'skipped',
+          reason: { type: 'dependency_failed', failedActionId: 'img', message: 'Skipped because asset img failed' }
+        },
+        timestamp: 200
+      },
+      { type: 'cost:update', actionId: 'img', cost: 0, runCost: 0, sessionCost: 0, timestamp: 200 }
+    ]);
+
+    expect(timeline.map(entry => [entry.actionId, entry.status, entry.message])).toEqual([
+      ['img', 'failed', 'Flux is down'],
+      ['scene', 'skipped', 'Skipped because asset img failed']
+    ]);
+    expect(timeline[1].startedAt).toBeUndefined();
+  });
+
+  it('starts over when a player choice starts its reaction run', () => {
+    const timeline = fold([
+      { type: 'action:start', actionId: 'path', actionType: 'add_player_choice', timestamp: 100 },
+      {
+        type: 'choice:made',
+        choiceId: 'path',
+        optionIndex: 0,
+        option: { label: 'Hunt', description: 'Become predators', reactions: [] },
+        timestamp: 200
+      },
+      { type: 'action:start', actionId: 'hunt_img', actionType: 'asset_image', timestamp: 300 }
+    ]);
+
+    expect(timeline.map(entry => entry.actionId)).toEqual(['hunt_img']);
+  });
+});
+
+describe('useActionProcessor', () => {
+  const choiceDocument = {
+    actions: [
+      {
+        type: 'add_player_choice',
+        id: 'path',
+        prompt: 'Which path?',
+        options: [
+          {
+            label: 'Hunt',
+            description: 'Become predators',
+            reactions: [{ type: 'asset_image', id: 'hunt_img', prompt: 'Predators', size: '1024x768', model: 'flux-schnell' }]
+          }
+        ]
+      }
+    ]
+  };
+
+  it('cancels the reaction run of a choice picked after its run finished', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const { result } = renderHook(() => useActionProcessor({ useMockExecutors: true, dispatcher }));
+
+    // The processor is created once the mock executors are loaded
+    await waitFor(async () => {
+      await act(() => result.current.processActions(choiceDocument));
+      expect(dispatcher.getActive()?.id).toBe('path');
+    });
+
+    act(() => dispatcher.resolve('path', 0));
+    await waitFor(() => expect(result.current.timeline.map(entry => entry.actionId)).toEqual(['hunt_img']));
+    act(() => result.current.cancel());
+
+    await waitFor(() => expect(result.current.lastResult?.outcomes.hunt_img).toBeDefined());
+    expect(result.current.lastResult).toMatchObject({
+      cancelled: true,
+      outcomes: { hunt_img: { status: 'skipped', reason: { type: 'cancelled' } } }
+    });
+  });
+
+  it('shares one persistent asset cache between processors by default', async () => {
+    const imageDocument = {
+      actions: [{ type: 'asset_image', id: 'img', prompt: 'A red planet', size: '1024x768', model: 'flux-schnell' }]
+    };
+    const first = renderHook(() => useActionProcessor());
+    const second = renderHook(() => useActionProcessor());
+
+    for (const { result } of [first, second]) {
+      await waitFor(async () => {
+        await act(() => result.current.plan(imageDocument));
+        expect(result.current.lastPlan?.cacheHits).toEqual(['img']);
+      });
+    }
+    expect(createAssetCache).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,26 +1,116 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { ActionProcessor } from '../services/actions/ActionProcessor.js';
-import type { ProcessResult, ProcessorStatus, ProcessorCostBreakdown } from '../services/actions/ActionProcessor.js';
+import type {
+  ActionOutcome,
+  ActionPlan,
+  ProcessResult,
+  ProcessorEvent,
+  ProcessorStatus,
+  ProcessorCostBreakdown
+} from '../services/actions/ActionProcessor.js';
+import type { ConditionalActionRegistry } from '../services/actions/ConditionalActionRegistry.js';
+import type { GameActionDispatcher } from '../services/actions/GameActionDispatcher.js';
+import type { Action } from '../services/actions/parser/types.js';
+import type { AssetCache } from '../services/actions/executors/types.js';
+import { createAssetCache } from '../services/actions/cache/index.js';
 import { toError } from '../utils/errors.js';
 
+/** What happened to one action during the latest run, built from processor events */
+export interface ActionTimelineEntry {
+  actionId: string;
+  actionType: Action['type'];
+  status: 'running' | ActionOutcome['status'];
+  /** Absent for actions that were skipped without starting */
+  startedAt?: number;
+  endedAt?: number;
+  retries: number;
+  /** Error message for failures, reason for skips */
+  message?: string;
+}
+
+let defaultCache: AssetCache | null = null;
+
+/** Created on first use, so importing the hook touches no storage */
+function getDefaultCache(): AssetCache {
+  defaultCache ??= createAssetCache();
+  return defaultCache;
+}
+
 export interface UseActionProcessorOptions {
   fluxApiKey?: string;
+  replicateApiKey?: string;
   openaiApiKey?: string;
+  googleCloudApiKey?: string;
   onComplete?: (result: ProcessResult) => void;
   onError?: (error: Error) => void;
   useMockExecutors?: boolean;
+  conditionalRegistry?: ConditionalActionRegistry;
+  /** Plays the game actions of processed documents (see useGameActionDispatcher) */
+  dispatcher?: GameActionDispatcher;
+  /** Generate every option's reaction assets as soon as a choice is reached */
+  speculativeChoices?: boolean;
+  /**
+   * Serves repeated assets without regenerating them. Defaults to a
+   * persistent cache shared by every processor (see createAssetCache)
+   */
+  cache?: AssetCache;
+  /** Planet the processed documents belong to; their costs are recorded under it */
+  planetId?: string;
 }
 
 export interface UseActionProcessorResult {
   processActions: (json: string | object) => Promise<void>;
+  /** Dry run: work out what processActions would do without generating anything */
+  plan: (json: string | object) => Promise<void>;
+  /** Stop the current run and the choice reactions it started; unmounting the component cancels them too */
+  cancel: () => void;
   status: ProcessorStatus;
   lastResult: ProcessResult | null;
+  lastPlan: ActionPlan | null;
+  /** Actions of the latest run in the order they started (or were skipped) */
+  timeline: ActionTimelineEntry[];
   error: Error | null;
   costBreakdown: ProcessorCostBreakdown;
   isProcessing: boolean;
   reset: () => void;
 }
 
+/**
+ * Fold one processor event into the timeline
+ */
+export function applyTimelineEvent(timeline: ActionTimelineEntry[], event: ProcessorEvent): ActionTimelineEntry[] {
+  const update = (actionId: string, changes: Partial<ActionTimelineEntry>) =>
+    timeline.map(entry => (entry.actionId === actionId ? { ...entry, ...changes } : entry));
+
+  switch (event.type) {
+    case 'action:start':
+      return [
+        ...timeline,
+        { actionId: event.actionId, actionType: event.actionType, status: 'running', startedAt: event.timestamp, retries: 0 }
+      ];
+    case 'action:retry': {
+      const entry = timeline.find(candidate => candidate.actionId === event.actionId);
+      return update(event.actionId, { retries: (entry?.retries || 0) + 1, message: event.retry.error.message });
+    }
+    case 'action:complete':
+      return update(event.outcome.actionId, { status: event.outcome.status, endedAt: event.timestamp, message: undefined });
+    case 'action:failed':
+      return update(event.outcome.actionId, { status: 'failed', endedAt: event.timestamp, message: event.outcome.error.message });
+    case 'action:skipped': {
+      const { outcome } = event;
+      const changes = { status: 'skipped' as const, endedAt: event.timestamp, message: outcome.reason.message };
+      return timeline.some(entry => entry.actionId === outcome.actionId)
+        ? update(outcome.actionId, changes)
+        : [...timeline, { actionId: outcome.actionId, actionType: outcome.actionType, retries: 0, ...changes }];
+    }
+    case 'choice:made':
+      // The picked option's reactions start a run of their own
+      return [];
+    default:
+      return timeline;
+  }
+}
+
 export function useActionProcessor(options: UseActionProcessorOptions = {}): UseActionProcessorResult {
   const [status, setStatus] = useState<ProcessorStatus>({
     isProcessing: false,
@@ -30,17 +120,30 @@ export function useActionProcessor(options: UseActionProcessorOptions = {}): Use
   });
   
   const [lastResult, setLastResult] = useState<ProcessResult | null>(null);
+  const [lastPlan, setLastPlan] = useState<ActionPlan | null>(null);
+  const [timeline, setTimeline] = useState<ActionTimelineEntry[]>([]);
   const [error, setError] = useState<Error | null>(null);
   const [costBreakdown, setCostBreakdown] = useState<ProcessorCostBreakdown>({
     images: { count: 0, cost: 0 },
     audio: { count: 0, cost: 0 },
+    cutscenes: { count: 0, cost: 0 },
     total: 0
   });
 
   const processorRef = useRef<ActionProcessor | null>(null);
-  const statusIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Executors must not keep running (and spending) after the page is left
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
 
   useEffect(() => {
+    let disposed = false;
+    let unsubscribe: (() => void) | null = null;
+
     const initProcessor = async () => {
       let executors = undefined;
       
@@ -55,23 +158,55 @@ export function useActionProcessor(options: UseActionProcessorOptions = {}): Use
         };
       }
 
-      processorRef.current = new ActionProcessor({
+      if (disposed) return;
+
+      const processor = new ActionProcessor({
         executors,
         apiKeys: {
           fluxApiKey: options.fluxApiKey || import.meta.env.VITE_FLUX_API_KEY,
-          openaiApiKey: options.openaiApiKey || import.meta.env.VITE_OPENAI_API_KEY
+          replicateApiKey: options.replicateApiKey || import.meta.env.VITE_REPLICATE_API_KEY,
+          openaiApiKey: options.openaiApiKey || import.meta.env.VITE_OPENAI_API_KEY,
+          googleCloudApiKey: options.googleCloudApiKey || import.meta.env.VITE_GOOGLE_CLOUD_API_KEY
+        },
+        conditionalRegistry: options.conditionalRegistry,
+        dispatcher: options.dispatcher,
+        speculativeChoices: options.speculativeChoices,
+        cache: options.cache ?? getDefaultCache()
+      });
+
+      // React state follows the processor's events rather than polling getStatus()
+      unsubscribe = processor.subscribe(event => {
+        setTimeline(current => applyTimelineEvent(current, event));
+        if (event.type === 'cost:update') {
+          setCostBreakdown(processor.getCostBreakdown());
+        } else if (event.type !== 'action:retry') {
+          setStatus(processor.getStatus());
+        }
+        // Runs started by the processor itself (choice reactions) report only here
+        if (event.type === 'run:complete') {
+          setLastResult(event.result);
         }
       });
+      processorRef.current = processor;
     };
 
     initProcessor();
 
     return () => {
-      if (statusIntervalRef.current) {
-        clearInterval(statusIntervalRef.current);
-      }
+      disposed = true;
+      unsubscribe?.();
     };
-  }, [options.fluxApiKey, options.openaiApiKey, options.useMockExecutors]);
+  }, [
+    options.fluxApiKey,
+    options.replicateApiKey,
+    options.openaiApiKey,
+    options.googleCloudApiKey,
+    options.useMockExecutors,
+    options.conditionalRegistry,
+    options.dispatcher,
+    options.speculativeChoices,
+    options.cache
+  ]);
 
   const processActions = useCallback(async (json: string | object) => {
     if (!processorRef.current) {
@@ -81,31 +216,31 @@ export function useActionProcessor(options: UseActionProcessorOptions = {}): Use
       return;
     }
 
+    // Only one run at a time: starting a new one cancels the previous run.
+    // The controller stays current once the run is done, because the choice
+    // reaction runs the processor starts later follow its signal too.
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     try {
       setError(null);
-      
-      // Start status polling
-      statusIntervalRef.current = setInterval(() => {
-        if (processorRef.current) {
-          const currentStatus = processorRef.current.getStatus();
-          setStatus(currentStatus);
-          
-          if (!currentStatus.isProcessing && statusIntervalRef.current) {
-            clearInterval(statusIntervalRef.current);
-            statusIntervalRef.current = null;
-          }
-        }
-      }, 100);
+      setTimeline([]);
+
+      const pending = processorRef.current.processActions(json, {
+        signal: abortController.signal,
+        planetId: options.planetId
+      });
+      setStatus(processorRef.current.getStatus());
+      const result = await pending;
 
-      const result = await processorRef.current.processActions(json);
-      
       setLastResult(result);
       setStatus(processorRef.current.getStatus());
       setCostBreakdown(processorRef.current.getCostBreakdown());
 
       if (result.success) {
         options.onComplete?.(result);
-      } else {
+      } else if (!result.cancelled) {
         const err = result.errors[0] || new Error('Processing failed');
         setError(err);
         options.onError?.(err);
@@ -114,13 +249,7 @@ export function useActionProcessor(options: UseActionProcessorOptions = {}): Use
       const error = toError(err, 'Action processing failed');
       setError(error);
       options.onError?.(error);
-      
-      // Stop status polling on error
-      if (statusIntervalRef.current) {
-        clearInterval(statusIntervalRef.current);
-        statusIntervalRef.current = null;
-      }
-      
+
       setStatus({
         isProcessing: false,
         currentAction: null,
@@ -130,6 +259,32 @@ export function useActionProcessor(options: UseActionProcessorOptions = {}): Use
     }
   }, [options]);
 
+  const plan = useCallback(async (json: string | object) => {
+    if (!processorRef.current) {
+      const err = new Error('ActionProcessor not initialized');
+      setError(err);
+      options.onError?.(err);
+      return;
+    }
+
+    try {
+      setError(null);
+      const result = await processorRef.current.plan(json);
+      setLastPlan(result);
+      if (!result.success) {
+        setError(result.errors[0] || new Error('Planning failed'));
+      }
+    } catch (err) {
+      const error = toError(err, 'Action planning failed');
+      setError(error);
+      options.onError?.(error);
+    }
+  }, [options]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const reset = useCallback(() => {
     setStatus({
       isProcessing: false,
@@ -138,23 +293,25 @@ export function useActionProcessor(options: UseActionProcessorOptions = {}): Use
       queueLength: 0
     });
     setLastResult(null);
+    setLastPlan(null);
+    setTimeline([]);
     setError(null);
     setCostBreakdown({
       images: { count: 0, cost: 0 },
       audio: { count: 0, cost: 0 },
+      cutscenes: { count: 0, cost: 0 },
       total: 0
     });
-    
-    if (statusIntervalRef.current) {
-      clearInterval(statusIntervalRef.current);
-      statusIntervalRef.current = null;
-    }
   }, []);
 
   return {
     processActions,
+    plan,
+    cancel,
     status,
     lastResult,
+    lastPlan,
+    timeline,
     error,
     costBreakdown,
     isProcessing: status.isProcessing,
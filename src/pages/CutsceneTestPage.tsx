@@ -1,6 +1,10 @@
-import { type FC, useState, useEffect } from 'react';
+import { type FC, useState, useEffect, useMemo } from 'react';
 import { useActionProcessor } from '../hooks/useActionProcessor.js';
-import { CutscenePlayer } from '../components/CutscenePlayer/index.js';
+import { GameActionLayer } from '../components/GameActions/index.js';
+import { JsonEditor } from '../components/JsonEditor/index.js';
+import { DSLParser } from '../services/actions/parser/index.js';
+import { ConditionalActionRegistry } from '../services/actions/ConditionalActionRegistry.js';
+import { GameActionDispatcher, isDispatchableAction } from '../services/actions/GameActionDispatcher.js';
 import type { AssetResult } from '../services/actions/executors/types.js';
 import planetCreationExample from '../services/actions/examples/planet-creation.json';
 import evolutionChoiceExample from '../services/actions/examples/evolution-choice.json';
@@ -12,52 +16,102 @@ const exampleScenarios = {
   'catastrophe': catastropheExample
 };
 
+const diagnosticsParser = new DSLParser();
+
 export const CutsceneTestPage: FC = () => {
   const [jsonInput, setJsonInput] = useState<string>(
     JSON.stringify(planetCreationExample, null, 2)
   );
   const [selectedExample, setSelectedExample] = useState<string>('planet-creation');
-  const [currentCutsceneId, setCurrentCutsceneId] = useState<string | null>(null);
   const [gameState, setGameState] = useState<Record<string, boolean>>({
     planet_just_created: false,
     catastrophe_triggered: false,
     species_has_underground_adaptation: false
   });
+  const [firedConditionals, setFiredConditionals] = useState<string[]>([]);
+  const [choicesMade, setChoicesMade] = useState<string[]>([]);
+  const [speculativeChoices, setSpeculativeChoices] = useState(false);
+
+  // Plays modals, cutscenes and choices in order as the document reaches them
+  const [dispatcher] = useState(() => new GameActionDispatcher({
+    onChoice: (event) => {
+      setChoicesMade(prev => [...prev, `${event.action.prompt} → ${event.option.label}`]);
+    },
+    onError: (err, action) => {
+      console.warn(`Game action ${action.type} not played:`, err.message);
+    }
+  }));
+
+  // Conditions in the document are evaluated against { game: gameState }
+  const [conditionalRegistry] = useState(() => new ConditionalActionRegistry({
+    onFire: (event) => {
+      setFiredConditionals(prev => [...prev, `${event.registrationId}: ${event.action.type}`]);
+      if (isDispatchableAction(event.action)) {
+        dispatcher.dispatch(event.action, event.registrationId);
+      }
+    }
+  }));
 
   const {
     processActions,
+    plan,
+    cancel,
     status,
     lastResult,
+    lastPlan,
+    timeline,
     error,
     costBreakdown,
     isProcessing,
     reset
   } = useActionProcessor({
     useMockExecutors: true,
+    conditionalRegistry,
+    dispatcher,
+    speculativeChoices,
     onComplete: (result) => {
       console.log('Processing complete:', result);
-      
-      // Find and play the first cutscene if any
-      const cutsceneAsset = result.assetsGenerated.find(
-        asset => 'type' in asset && (asset as AssetResult & { type: string }).type === 'cutscene'
-      );
-      if (cutsceneAsset && 'id' in cutsceneAsset) {
-        setCurrentCutsceneId(cutsceneAsset.id);
-      }
     },
     onError: (err) => {
       console.error('Processing error:', err);
     }
   });
 
+  // Validate as the author types so problems are underlined in place
+  const diagnostics = useMemo(() => {
+    const result = diagnosticsParser.parse(jsonInput);
+    return [...(result.errors || []), ...(result.warnings || [])];
+  }, [jsonInput]);
+
+  const skippedOutcomes = lastResult
+    ? Object.values(lastResult.outcomes).filter(outcome => outcome.status === 'skipped')
+    : [];
+
   useEffect(() => {
     setJsonInput(JSON.stringify(exampleScenarios[selectedExample as keyof typeof exampleScenarios], null, 2));
   }, [selectedExample]);
 
+  useEffect(() => {
+    conditionalRegistry.evaluate({ game: gameState });
+  }, [conditionalRegistry, gameState]);
+
   const handleProcess = async () => {
     try {
       const parsed = JSON.parse(jsonInput);
+      conditionalRegistry.clear();
+      dispatcher.clear();
+      setFiredConditionals([]);
+      setChoicesMade([]);
       await processActions(parsed);
+      conditionalRegistry.evaluate({ game: gameState });
+    } catch (err) {
+      console.error('Invalid JSON:', err);
+    }
+  };
+
+  const handlePlan = async () => {
+    try {
+      await plan(JSON.parse(jsonInput));
     } catch (err) {
       console.error('Invalid JSON:', err);
     }
@@ -66,7 +120,10 @@ export const CutsceneTestPage: FC = () => {
   const handleExampleChange = (example: string) => {
     setSelectedExample(example);
     reset();
-    setCurrentCutsceneId(null);
+    conditionalRegistry.clear();
+    dispatcher.clear();
+    setFiredConditionals([]);
+    setChoicesMade([]);
   };
 
   const toggleGameState = (key: string) => {
@@ -103,11 +160,10 @@ export const CutsceneTestPage: FC = () => {
               <label className="block text-sm font-medium mb-2">
                 JSON Input
               </label>
-              <textarea
+              <JsonEditor
                 value={jsonInput}
-                onChange={(e) => setJsonInput(e.target.value)}
-                className="w-full h-96 px-3 py-2 bg-gray-800 border border-gray-700 rounded-md font-mono text-sm"
-                spellCheck={false}
+                onChange={setJsonInput}
+                diagnostics={diagnostics}
               />
             </div>
 
@@ -128,8 +184,28 @@ export const CutsceneTestPage: FC = () => {
                   </label>
                 ))}
               </div>
+              {firedConditionals.length > 0 && (
+                <div className="mt-2 text-xs text-gray-400">
+                  <p className="font-medium">Fired conditionals:</p>
+                  <ul className="mt-1 space-y-1">
+                    {firedConditionals.map((entry, i) => (
+                      <li key={i}>{entry}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
 
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={speculativeChoices}
+                onChange={() => setSpeculativeChoices(current => !current)}
+                className="rounded"
+              />
+              <span className="text-sm">Pre-generate assets for every choice option</span>
+            </label>
+
             <button
               onClick={handleProcess}
               disabled={isProcessing}
@@ -138,6 +214,23 @@ export const CutsceneTestPage: FC = () => {
               {isProcessing ? 'Processing...' : 'Process Actions'}
             </button>
 
+            <button
+              onClick={handlePlan}
+              disabled={isProcessing}
+              className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:bg-gray-800 rounded-md font-medium transition-colors"
+            >
+              Plan (Dry Run)
+            </button>
+
+            {isProcessing && (
+              <button
+                onClick={cancel}
+                className="w-full px-4 py-2 bg-gray-700 hover:bg-gray-600 rounded-md font-medium transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+
             {error && (
               <div className="p-4 bg-red-900/50 border border-red-700 rounded-md">
                 <p className="font-medium">Error:</p>
@@ -170,24 +263,80 @@ export const CutsceneTestPage: FC = () => {
               )}
             </div>
 
+            {/* Timeline */}
+            {timeline.length > 0 && (
+              <div className="bg-gray-800 p-4 rounded-md">
+                <h3 className="font-medium mb-2">Timeline</h3>
+                <ul className="space-y-1 text-xs">
+                  {timeline.map(entry => (
+                    <li key={entry.actionId}>
+                      {entry.actionId} ({entry.actionType}): {entry.status}
+                      {entry.startedAt !== undefined && entry.endedAt !== undefined &&
+                        ` in ${entry.endedAt - entry.startedAt}ms`}
+                      {entry.retries > 0 && `, ${entry.retries} ${entry.retries === 1 ? 'retry' : 'retries'}`}
+                      {entry.message && <span className="text-gray-400"> – {entry.message}</span>}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             {/* Cost Breakdown */}
             <div className="bg-gray-800 p-4 rounded-md">
               <h3 className="font-medium mb-2">Cost Breakdown</h3>
               <div className="space-y-2 text-sm">
                 <div>Images: {costBreakdown.images.count} (${costBreakdown.images.cost.toFixed(3)})</div>
                 <div>Audio: {costBreakdown.audio.count} (${costBreakdown.audio.cost.toFixed(3)})</div>
+                <div>Cutscenes: {costBreakdown.cutscenes.count} (${costBreakdown.cutscenes.cost.toFixed(3)})</div>
                 <div className="font-medium pt-2 border-t border-gray-700">
                   Total: ${costBreakdown.total.toFixed(3)}
                 </div>
               </div>
             </div>
 
+            {/* Plan */}
+            {lastPlan?.success && (
+              <div className="bg-gray-800 p-4 rounded-md">
+                <h3 className="font-medium mb-2">Execution Plan</h3>
+                <div className="space-y-2 text-sm">
+                  <div>
+                    Estimated Cost: ${lastPlan.estimatedCost.min.toFixed(3)} – ${lastPlan.estimatedCost.max.toFixed(3)}
+                  </div>
+                  <div>Cache Hits: {lastPlan.cacheHits.length > 0 ? lastPlan.cacheHits.join(', ') : 'None'}</div>
+                  {lastPlan.budgetCheck && (
+                    <div className="p-2 bg-yellow-900/50 rounded">
+                      Over the {lastPlan.budgetCheck.scope} budget of ${lastPlan.budgetCheck.limit.toFixed(3)}
+                    </div>
+                  )}
+
+                  {lastPlan.waves.map((wave, i) => (
+                    <div key={i} className="mt-2">
+                      <p className="font-medium">Wave {i + 1}</p>
+                      <ul className="mt-1 space-y-1">
+                        {wave.map(actionId => {
+                          const action = lastPlan.actions[actionId];
+                          return (
+                            <li key={actionId} className="text-xs">
+                              {action.actionType}: {actionId}
+                              {action.estimate && ` ($${action.estimate.max.toFixed(3)})`}
+                              {action.cached && ' [cached]'}
+                              {action.duration !== undefined && ` ${action.duration}s`}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Results */}
             {lastResult && (
               <div className="bg-gray-800 p-4 rounded-md">
                 <h3 className="font-medium mb-2">Processing Results</h3>
                 <div className="space-y-2 text-sm">
-                  <div>Success: {lastResult.success ? '✅' : '❌'}</div>
+                  <div>Success: {lastResult.success ? '✅' : lastResult.cancelled ? 'Cancelled' : '❌'}</div>
                   <div>Assets Generated: {lastResult.assetsGenerated.length}</div>
                   <div>Actions Executed: {lastResult.actionsExecuted.length}</div>
                   <div>Execution Time: {lastResult.executionTime}ms</div>
@@ -201,6 +350,26 @@ export const CutsceneTestPage: FC = () => {
                     </div>
                   )}
 
+                  {skippedOutcomes.length > 0 && (
+                    <div className="mt-2 p-2 bg-gray-700 rounded">
+                      <p className="font-medium">Skipped:</p>
+                      {skippedOutcomes.map(outcome => (
+                        <p key={outcome.actionId} className="text-xs mt-1">
+                          {outcome.actionId}: {outcome.reason.message}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {lastResult.warnings.length > 0 && (
+                    <div className="mt-2 p-2 bg-yellow-900/50 rounded">
+                      <p className="font-medium">Warnings:</p>
+                      {lastResult.warnings.map((warning, i) => (
+                        <p key={i} className="text-xs mt-1">{warning.message}</p>
+                      ))}
+                    </div>
+                  )}
+
                   {lastResult.assetsGenerated.length > 0 && (
                     <div className="mt-2">
                       <p className="font-medium">Generated Assets:</p>
@@ -217,29 +386,23 @@ export const CutsceneTestPage: FC = () => {
               </div>
             )}
 
-            {/* Cutscene Player */}
-            {currentCutsceneId && (
+            {/* Player Choices */}
+            {choicesMade.length > 0 && (
               <div className="bg-gray-800 p-4 rounded-md">
-                <h3 className="font-medium mb-2">Cutscene Player</h3>
-                <CutscenePlayer
-                  cutsceneId={currentCutsceneId}
-                  onComplete={() => {
-                    console.log('Cutscene completed');
-                    setCurrentCutsceneId(null);
-                  }}
-                  onSkip={() => {
-                    console.log('Cutscene skipped');
-                    setCurrentCutsceneId(null);
-                  }}
-                  autoplay
-                  allowSkip
-                  allowReplay
-                />
+                <h3 className="font-medium mb-2">Choices Made</h3>
+                <ul className="space-y-1 text-xs">
+                  {choicesMade.map((choice, i) => (
+                    <li key={i}>{choice}</li>
+                  ))}
+                </ul>
               </div>
             )}
           </div>
         </div>
       </div>
+
+      {/* Modals, cutscenes and choices from the processed document */}
+      <GameActionLayer dispatcher={dispatcher} />
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { ActionBudget, describeBudgetCheck } from './ActionBudget.js';
+
+describe('ActionBudget', () => {
+  it('allows everything when no limit is set', () => {
+    const budget = new ActionBudget();
+
+    expect(budget.enforced).toBe(false);
+    expect(budget.check(100, { min: 0, max: 1000 })).toBeNull();
+  });
+
+  it('checks the maximum estimate against the run limit', () => {
+    const budget = new ActionBudget({ perRun: 0.05 });
+
+    expect(budget.check(0, { min: 0.01, max: 0.05 })).toBeNull();
+    expect(budget.check(0.01, { min: 0.01, max: 0.05 })).toEqual({
+      scope: 'run',
+      limit: 0.05,
+      spent: 0.01,
+      estimate: { min: 0.01, max: 0.05 }
+    });
+  });
+
+  it('tracks spend across runs for the session limit', () => {
+    const budget = new ActionBudget({ perSession: 0.1 });
+    budget.record(0.06);
+    budget.record(0.03);
+
+    expect(budget.spent).toBeCloseTo(0.09);
+    expect(budget.check(0, { min: 0, max: 0.02 })).toMatchObject({ scope: 'session', spent: budget.spent });
+
+    budget.resetSession();
+    expect(budget.check(0, { min: 0, max: 0.02 })).toBeNull();
+  });
+
+  it('reports spend over a limit once it has been crossed', () => {
+    const budget = new ActionBudget({ perRun: 0.02 });
+
+    expect(budget.check(0.02)).toBeNull();
+    expect(budget.check(0.021)).toMatchObject({ scope: 'run', estimate: { min: 0, max: 0 } });
+  });
+
+  it('describes estimated and actual overruns', () => {
+    const estimate = { min: 0.01, max: 0.04 };
+
+    expect(describeBudgetCheck({ scope: 'run', limit: 0.03, spent: 0, estimate }))
+      .toBe('Estimated cost of up to $0.040 exceeds the run budget of $0.030');
+    expect(describeBudgetCheck({ scope: 'session', limit: 0.03, spent: 0.035, estimate: { min: 0, max: 0 } }))
+      .toBe('Spent $0.035, over the session budget of $0.030');
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => new ActionBudget({ perRun: -1 })).toThrow(/perRun must be a non-negative number/);
+    expect(() => new ActionBudget({ perSession: Number.NaN })).toThrow(/perSession/);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * ActionBudget - Spending limits for asset generation
+ *
+ * A processor can cap what a single run may spend and what all runs of the
+ * processor may spend together (the session). Limits are checked twice:
+ * against the executors' cost estimates before anything runs, and against
+ * the actual cost of each finished asset while the run is in progress.
+ */
+
+/** Spend limits in USD; a missing limit is not enforced */
+export interface BudgetLimits {
+  /** Maximum spend of a single processActions/processStream call */
+  perRun?: number;
+  /** Maximum spend of all runs of the processor together */
+  perSession?: number;
+}
+
+export interface CostRange {
+  min: number;
+  max: number;
+}
+
+/** Which limit a run would exceed (or has exceeded) and by how much */
+export interface BudgetCheck {
+  scope: 'run' | 'session';
+  limit: number;
+  /** Spent in that scope before the estimate */
+  spent: number;
+  /** Estimated cost still to come (zero once the limit has already been crossed) */
+  estimate: CostRange;
+}
+
+/**
+ * Decides whether a run whose estimate exceeds the budget may go ahead anyway.
+ * Limits are still enforced on actual spend during the run.
+ */
+export type BudgetExceededHandler = (check: BudgetCheck) => boolean | Promise<boolean>;
+
+export interface BudgetConfig extends BudgetLimits {
+  /** Without a handler, runs estimated over budget are refused */
+  onExceeded?: BudgetExceededHandler;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly check: BudgetCheck
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+const NOTHING: CostRange = { min: 0, max: 0 };
+
+export class ActionBudget {
+  private limits: BudgetLimits;
+  private sessionSpent = 0;
+
+  constructor(limits: BudgetLimits = {}) {
+    this.limits = { perRun: limits.perRun, perSession: limits.perSession };
+    for (const [scope, limit] of Object.entries(this.limits)) {
+      if (limit !== undefined && !(Number.isFinite(limit) && limit >= 0)) {
+        throw new Error(`Budget ${scope} must be a non-negative number, got ${limit}`);
+      }
+    }
+  }
+
+  /** True when at least one limit is set */
+  get enforced(): boolean {
+    return this.limits.perRun !== undefined || this.limits.perSession !== undefined;
+  }
+
+  /** Actual spend of every run so far */
+  get spent(): number {
+    return this.sessionSpent;
+  }
+
+  /**
+   * Find the limit that spending `estimate` on top of `runSpent` would exceed
+   *
+   * @returns The exceeded limit (the run limit if both are), or null when within budget
+   */
+  check(runSpent: number, estimate: CostRange = NOTHING): BudgetCheck | null {
+    const { perRun, perSession } = this.limits;
+    if (perRun !== undefined && runSpent + estimate.max > perRun) {
+      return { scope: 'run', limit: perRun, spent: runSpent, estimate };
+    }
+    if (perSession !== undefined && this.sessionSpent + estimate.max > perSession) {
+      return { scope: 'session', limit: perSession, spent: this.sessionSpent, estimate };
+    }
+    return null;
+  }
+
+  /** Add the actual cost of a finished asset to the session */
+  record(cost: number): void {
+    this.sessionSpent += cost;
+  }
+
+  /** Start a new session; the run limit is unaffected */
+  resetSession(): void {
+    this.sessionSpent = 0;
+  }
+}
+
+/** Human-readable description of a budget check, used for errors and skip reasons */
+export function describeBudgetCheck(check: BudgetCheck): string {
+  const limit = `the ${check.scope} budget of $${check.limit.toFixed(3)}`;
+  if (check.estimate.max > 0) {
+    const spent = check.spent > 0 ? ` on top of $${check.spent.toFixed(3)} already spent` : '';
+    return `Estimated cost of up to $${check.estimate.max.toFixed(3)}${spent} exceeds ${limit}`;
+  }
+  return `Spent $${check.spent.toFixed(3)}, over ${limit}`;
+}
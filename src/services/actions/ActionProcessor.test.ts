@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ActionProcessor } from './ActionProcessor.js';
-import type { ActionProcessorConfig } from './ActionProcessor.js';
+import type { ActionProcessorConfig, ProcessorEvent, ProcessResult } from './ActionProcessor.js';
+import { BudgetExceededError } from './ActionBudget.js';
+import { GameActionDispatcher } from './GameActionDispatcher.js';
 import type { AssetExecutor, AssetStorage, AssetMetadata, StoredAsset, Action, AssetResult } from './executors/types.js';
-import { MockImageAssetExecutor, MockSubtitleAssetExecutor, MockCutsceneAssetExecutor } from './executors/mocks.js';
+import { MockImageAssetExecutor, MockSubtitleAssetExecutor, MockCutsceneAssetExecutor, MockAssetCache } from './executors/mocks.js';
+import { parseActionObject } from './parser/index.js';
+import type { AddPlayerChoiceAction } from './parser/types.js';
 
 // Mock storage implementation
 class MockAssetStorage implements AssetStorage {
@@ -448,6 +452,815 @@ describe('ActionProcessor', () => {
       expect(result.executionTime).toBeGreaterThan(0);
       expect(result.executionTime).toBeLessThan(5000); // Should be fast
     });
+
+    it('passes parser warnings through without failing', async () => {
+      const result = await processor.processActions({
+        actions: [{ type: 'reason', ephemeral_reasoning: '' }]
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual([expect.objectContaining({ type: 'empty_reason', severity: 'warning' })]);
+    });
+
+    describe('action outcomes', () => {
+      const scene = {
+        actions: [
+          { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' },
+          {
+            type: 'asset_subtitle',
+            id: 'narration',
+            text: 'A world is born',
+            voice_tone: 'epic',
+            voice_gender: 'neutral',
+            voice_pace: 'normal',
+            model: 'openai-tts'
+          },
+          {
+            type: 'asset_cutscene',
+            id: 'scene',
+            shots: [{ image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+          },
+          { type: 'play_cutscene', cutscene_id: 'scene' }
+        ]
+      };
+
+      it('reports every action as completed on success', async () => {
+        const result = await processor.processActions(scene);
+
+        expect(Object.keys(result.outcomes).sort()).toEqual(['img', 'narration', 'play_cutscene_3', 'scene']);
+        expect(Object.values(result.outcomes).every(outcome => outcome.status === 'completed')).toBe(true);
+        expect(result.outcomes.img).toMatchObject({ actionType: 'asset_image', asset: { id: 'img', type: 'image' } });
+      });
+
+      it('skips actions that depend on a failed asset', async () => {
+        vi.spyOn(config.executors!.asset_image!, 'execute').mockRejectedValue(new Error('Flux is down'));
+        const cutsceneSpy = vi.spyOn(config.executors!.asset_cutscene!, 'execute');
+
+        const result = await processor.processActions(scene);
+
+        expect(result.success).toBe(false);
+        expect(result.errors.map(error => error.message)).toEqual(['Flux is down']);
+        expect(cutsceneSpy).not.toHaveBeenCalled();
+        expect(result.outcomes.img).toMatchObject({ status: 'failed', error: { message: 'Flux is down' } });
+        expect(result.outcomes.narration.status).toBe('completed');
+        expect(result.outcomes.scene).toEqual({
+          actionId: 'scene',
+          actionType: 'asset_cutscene',
+          status: 'skipped',
+          reason: { type: 'dependency_failed', failedActionId: 'img', message: 'Skipped because asset img failed' }
+        });
+        expect(result.outcomes.play_cutscene_3).toMatchObject({ status: 'skipped', reason: { failedActionId: 'img' } });
+        expect(result.actionsExecuted).toEqual(['narration']);
+      });
+
+      it('skips dependents of assets that failed while streaming', async () => {
+        vi.spyOn(config.executors!.asset_image!, 'execute').mockRejectedValue(new Error('Flux is down'));
+
+        const result = await processor.processStream([JSON.stringify(scene)]);
+
+        expect(result.outcomes.img.status).toBe('failed');
+        expect(result.outcomes.scene.status).toBe('skipped');
+      });
+
+      it('reports assets served from the cache as cached', async () => {
+        const cache = new MockAssetCache();
+        await cache.set('img', { id: 'img', url: '/cached/img.png', metadata: {}, cost: 0 });
+        const cachingExecutor: AssetExecutor<Action, AssetResult> = {
+          execute: vi.fn().mockImplementation(async (action, context) => {
+            const cached = await context.cache.get(action.id);
+            return cached || { id: action.id, url: '/new.png', metadata: {}, cost: 0.01 };
+          }),
+          validate: vi.fn().mockReturnValue({ valid: true }),
+          estimateCost: vi.fn().mockResolvedValue({ estimated: 0.01, confidence: 1 })
+        };
+        const cachingProcessor = new ActionProcessor({
+          ...config,
+          cache,
+          executors: { ...config.executors, asset_image: cachingExecutor }
+        });
+
+        const result = await cachingProcessor.processActions({
+          actions: [scene.actions[0], { ...scene.actions[0], id: 'fresh' }]
+        });
+
+        expect(result.outcomes.img).toMatchObject({ status: 'cached', asset: { url: '/cached/img.png' } });
+        expect(result.outcomes.fresh.status).toBe('completed');
+      });
+    });
+
+    describe('game actions', () => {
+      it('dispatches game actions to the configured dispatcher in order', async () => {
+        const dispatcher = new GameActionDispatcher();
+        const addFeature = vi.fn();
+        dispatcher.register('add_feature', addFeature);
+        const dispatch = vi.spyOn(dispatcher, 'dispatch');
+        processor = new ActionProcessor({ ...config, dispatcher });
+
+        const result = await processor.processActions({
+          actions: [
+            { type: 'show_modal', title: 'Evolution', content: 'Gills appear', image_id: null, subtitle_id: null },
+            { type: 'add_feature', feature_type: 'gills', feature_data: {}, target: 'species_1' }
+          ]
+        });
+
+        expect(result.success).toBe(true);
+        expect(dispatch.mock.calls.map(([action, id]) => `${id}: ${action.type}`)).toEqual([
+          'show_modal_0: show_modal',
+          'add_feature_1: add_feature'
+        ]);
+        expect(dispatcher.getActive()?.id).toBe('show_modal_0');
+        expect(addFeature).not.toHaveBeenCalled();
+
+        dispatcher.resolve('show_modal_0');
+        await vi.waitFor(() => expect(addFeature).toHaveBeenCalledOnce());
+      });
+
+      it('completes game actions without a dispatcher', async () => {
+        const result = await processor.processActions({
+          actions: [{ type: 'remove_feature', feature_type: 'fins', target: 'species_1' }]
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.outcomes.remove_feature_0.status).toBe('completed');
+      });
+    });
+
+    describe('player choices', () => {
+      const reactionImage = (id: string) => ({ type: 'asset_image', id, prompt: `Path ${id}`, size: '1024x768', model: 'flux-schnell' });
+      const reactionModal = (imageId: string) => ({ type: 'show_modal', title: imageId, content: 'You chose', image_id: imageId, subtitle_id: null });
+      const choiceDocument = {
+        actions: [
+          { type: 'asset_image', id: 'world', prompt: 'A world', size: '1024x768', model: 'flux-schnell' },
+          {
+            type: 'add_player_choice',
+            id: 'path',
+            prompt: 'Which path?',
+            options: [
+              { label: 'Hunt', description: 'Become predators', reactions: [reactionImage('hunt_img'), reactionModal('hunt_img')] },
+              { label: 'Grow', description: 'Become symbionts', reactions: [reactionImage('grow_img'), reactionModal('world')] }
+            ]
+          }
+        ]
+      };
+      const choiceAction = () => parseActionObject(choiceDocument).graph!.nodes.get('path')!.action as AddPlayerChoiceAction;
+
+      const runCompletions = (target: ActionProcessor) => {
+        const results: ProcessResult[] = [];
+        target.subscribe(event => {
+          if (event.type === 'run:complete') results.push(event.result);
+        });
+        return results;
+      };
+
+      it('leaves reactions out of the run that reaches the choice', async () => {
+        const result = await processor.processActions(choiceDocument);
+
+        expect(result.success).toBe(true);
+        expect(Object.keys(result.outcomes)).toEqual(['world', 'path']);
+      });
+
+      it('runs the reactions of the picked option as a new run', async () => {
+        const events: ProcessorEvent[] = [];
+        processor.subscribe(event => events.push(event));
+
+        const result = await processor.resolveChoice(choiceAction(), 0, { knownIds: ['world'] });
+
+        expect(result.success).toBe(true);
+        expect(result.outcomes.hunt_img.status).toBe('completed');
+        expect(result.outcomes.show_modal_1.status).toBe('completed');
+        expect(events[0]).toMatchObject({ type: 'choice:made', choiceId: 'path', optionIndex: 0, option: { label: 'Hunt' } });
+        await expect(processor.resolveChoice(choiceAction(), 5)).rejects.toThrow('Choice path has no option 5');
+      });
+
+      it('runs the picked reactions once the dispatcher reports the pick', async () => {
+        const dispatcher = new GameActionDispatcher();
+        processor = new ActionProcessor({ ...config, dispatcher });
+        const runs = runCompletions(processor);
+
+        await processor.processActions(choiceDocument);
+        expect(dispatcher.getActive()?.id).toBe('path');
+
+        dispatcher.resolve('path', 1);
+        await vi.waitFor(() => expect(runs).toHaveLength(2));
+
+        expect(Object.keys(runs[1].outcomes).sort()).toEqual(['grow_img', 'show_modal_1']);
+        expect(runs[1].success).toBe(true);
+        await vi.waitFor(() => expect(dispatcher.getActive()?.action).toMatchObject({ type: 'show_modal', image_id: 'world' }));
+      });
+
+      it('pre-generates the assets of every option when speculative', async () => {
+        const dispatcher = new GameActionDispatcher();
+        const imageExecutor = new MockImageAssetExecutor();
+        const execute = vi.spyOn(imageExecutor, 'execute');
+        processor = new ActionProcessor({
+          ...config,
+          executors: { ...config.executors, asset_image: imageExecutor },
+          dispatcher,
+          speculativeChoices: true
+        });
+        const runs = runCompletions(processor);
+
+        const first = await processor.processActions(choiceDocument);
+        expect(Object.keys(first.outcomes).sort()).toEqual(['grow_img', 'hunt_img', 'path', 'world']);
+        expect(execute).toHaveBeenCalledTimes(3);
+
+        dispatcher.resolve('path', 0);
+        await vi.waitFor(() => expect(runs).toHaveLength(2));
+
+        expect(runs[1].outcomes.hunt_img.status).toBe('cached');
+        expect(execute).toHaveBeenCalledTimes(3);
+      });
+
+      it('serves pre-generated assets to a choice resolved by hand, once', async () => {
+        const imageExecutor = new MockImageAssetExecutor();
+        const execute = vi.spyOn(imageExecutor, 'execute');
+        processor = new ActionProcessor({
+          ...config,
+          executors: { ...config.executors, asset_image: imageExecutor },
+          speculativeChoices: true
+        });
+
+        await processor.processActions(choiceDocument);
+        const picked = await processor.resolveChoice(choiceAction(), 1, { knownIds: ['world'] });
+
+        expect(picked.outcomes.grow_img.status).toBe('cached');
+        expect(execute).toHaveBeenCalledTimes(3);
+
+        // The entries, including the other option's, are dropped once used
+        const again = await processor.resolveChoice(choiceAction(), 0, { knownIds: ['world'] });
+        expect(again.outcomes.hunt_img.status).toBe('completed');
+        expect(execute).toHaveBeenCalledTimes(4);
+      });
+
+      it("passes the caller's signal to the reaction run", async () => {
+        const dispatcher = new GameActionDispatcher();
+        processor = new ActionProcessor({ ...config, dispatcher });
+        const resolveChoice = vi.spyOn(processor, 'resolveChoice');
+        const controller = new AbortController();
+
+        await processor.processActions(choiceDocument, { signal: controller.signal });
+        dispatcher.resolve('path', 0);
+
+        await vi.waitFor(() => expect(resolveChoice).toHaveBeenCalled());
+        expect(resolveChoice.mock.calls[0][2]).toMatchObject({ signal: controller.signal });
+      });
+
+      it("does not start the reaction run once the caller's signal is aborted", async () => {
+        const dispatcher = new GameActionDispatcher();
+        processor = new ActionProcessor({ ...config, dispatcher });
+        const runs = runCompletions(processor);
+        const controller = new AbortController();
+
+        await processor.processActions(choiceDocument, { signal: controller.signal });
+        controller.abort();
+        dispatcher.resolve('path', 0);
+        await new Promise(resolve => setTimeout(resolve, 10));
+
+        expect(runs).toHaveLength(1);
+      });
+    });
+
+    describe('parallel scheduling', () => {
+      const images = ['a', 'b', 'c'].map(id => ({
+        type: 'asset_image',
+        id,
+        prompt: `Image ${id}`,
+        size: '1024x768',
+        model: 'flux-schnell'
+      }));
+
+      function trackConcurrency(executor: AssetExecutor<Action, AssetResult>) {
+        const tracker = { active: 0, peak: 0 };
+        const execute = executor.execute.bind(executor);
+        vi.spyOn(executor, 'execute').mockImplementation(async (action, context) => {
+          tracker.peak = Math.max(tracker.peak, ++tracker.active);
+          try {
+            return await execute(action, context);
+          } finally {
+            tracker.active--;
+          }
+        });
+        return tracker;
+      }
+
+      it('generates independent assets at the same time', async () => {
+        const tracker = trackConcurrency(config.executors!.asset_image!);
+
+        const result = await processor.processActions({ actions: images });
+
+        expect(result.success).toBe(true);
+        expect(tracker.peak).toBe(3);
+      });
+
+      it('respects the configured concurrency per action type', async () => {
+        const limited = new ActionProcessor({ ...config, concurrency: { asset_image: 1 } });
+        const tracker = trackConcurrency(config.executors!.asset_image!);
+
+        const result = await limited.processActions({ actions: images });
+
+        expect(result.assetsGenerated).toHaveLength(3);
+        expect(tracker.peak).toBe(1);
+      });
+    });
+    describe('cancellation', () => {
+      const scene = {
+        actions: [
+          { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' },
+          {
+            type: 'asset_subtitle',
+            id: 'narration',
+            text: 'A world is born',
+            voice_tone: 'epic',
+            voice_gender: 'neutral',
+            voice_pace: 'normal',
+            model: 'openai-tts'
+          },
+          {
+            type: 'asset_cutscene',
+            id: 'scene',
+            shots: [{ image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+          }
+        ]
+      };
+
+      it('stops in-flight assets and skips the rest when aborted', async () => {
+        const quickSubtitles = new ActionProcessor({
+          ...config,
+          executors: { ...config.executors, asset_subtitle: new MockSubtitleAssetExecutor(5) }
+        });
+        const cutsceneSpy = vi.spyOn(config.executors!.asset_cutscene!, 'execute');
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 30);
+
+        const started = Date.now();
+        const result = await quickSubtitles.processActions(scene, { signal: controller.signal });
+
+        expect(Date.now() - started).toBeLessThan(100);
+        expect(result.success).toBe(false);
+        expect(result.cancelled).toBe(true);
+        expect(result.errors).toEqual([]);
+        expect(cutsceneSpy).not.toHaveBeenCalled();
+        expect(result.outcomes.narration.status).toBe('completed');
+        expect(result.assetsGenerated.map(asset => asset.id)).toEqual(['narration']);
+        expect(result.outcomes.img).toMatchObject({ status: 'skipped', reason: { type: 'cancelled' } });
+        expect(result.outcomes.scene).toMatchObject({
+          status: 'skipped',
+          reason: { type: 'cancelled', message: 'Skipped because the run was cancelled' }
+        });
+      });
+
+      it('does not start anything when the signal is already aborted', async () => {
+        const imageSpy = vi.spyOn(config.executors!.asset_image!, 'execute');
+
+        const result = await processor.processActions(scene, { signal: AbortSignal.abort() });
+
+        expect(imageSpy).not.toHaveBeenCalled();
+        expect(result.cancelled).toBe(true);
+        expect(Object.values(result.outcomes).map(outcome => outcome.status)).toEqual(['skipped', 'skipped', 'skipped']);
+      });
+
+      it('stops reading the stream when aborted', async () => {
+        const controller = new AbortController();
+        const subtitleSpy = vi.spyOn(config.executors!.asset_subtitle!, 'execute');
+
+        async function* chunks() {
+          yield `{"actions": [${JSON.stringify(scene.actions[0])},`;
+          controller.abort();
+          yield `${JSON.stringify(scene.actions[1])}, ${JSON.stringify(scene.actions[2])}]}`;
+        }
+
+        const result = await processor.processStream(chunks(), { signal: controller.signal });
+
+        expect(result.cancelled).toBe(true);
+        expect(result.success).toBe(false);
+        expect(subtitleSpy).not.toHaveBeenCalled();
+        expect(Object.keys(result.outcomes)).toEqual(['img']);
+        expect(result.outcomes.img).toMatchObject({ status: 'skipped', reason: { type: 'cancelled' } });
+      });
+    });
+    describe('budget', () => {
+      const images = ['a', 'b', 'c'].map(id => ({
+        type: 'asset_image',
+        id,
+        prompt: `Image ${id}`,
+        size: '1024x768',
+        model: 'flux-schnell'
+      }));
+
+      function estimateImages(min: number, max: number) {
+        vi.spyOn(config.executors!.asset_image!, 'estimateCost').mockReturnValue({ min, max, currency: 'USD' });
+      }
+
+      it('refuses runs whose estimated cost exceeds the run budget', async () => {
+        const imageSpy = vi.spyOn(config.executors!.asset_image!, 'execute');
+        const budgeted = new ActionProcessor({ ...config, budget: { perRun: 0.025 } });
+
+        const result = await budgeted.processActions({ actions: images });
+
+        expect(imageSpy).not.toHaveBeenCalled();
+        expect(result.success).toBe(false);
+        expect(result.cancelled).toBe(false);
+        expect(result.errors).toHaveLength(1);
+        expect(result.errors[0]).toBeInstanceOf(BudgetExceededError);
+        expect(result.errors[0].message).toBe('Estimated cost of up to $0.030 exceeds the run budget of $0.025');
+        expect(result.outcomes.a).toMatchObject({
+          status: 'skipped',
+          reason: { type: 'budget_exceeded', check: { scope: 'run', limit: 0.025 }, message: 'Skipped because the run budget was exceeded' }
+        });
+      });
+
+      it('asks onExceeded whether an over-budget run may go ahead', async () => {
+        estimateImages(0.01, 0.05);
+        const onExceeded = vi.fn().mockReturnValue(true);
+        const budgeted = new ActionProcessor({ ...config, budget: { perRun: 0.05, onExceeded } });
+
+        const result = await budgeted.processActions({ actions: images });
+
+        expect(onExceeded).toHaveBeenCalledWith({ scope: 'run', limit: 0.05, spent: 0, estimate: { min: 0.03, max: expect.closeTo(0.15) } });
+        expect(result.success).toBe(true);
+        expect(result.assetsGenerated).toHaveLength(3);
+
+        onExceeded.mockResolvedValue(false);
+        const declined = await budgeted.processActions({ actions: images });
+        expect(declined.assetsGenerated).toHaveLength(0);
+        expect(declined.errors[0]).toBeInstanceOf(BudgetExceededError);
+      });
+
+      it('stops remaining asset actions once actual spend crosses the limit', async () => {
+        estimateImages(0, 0);
+        const budgeted = new ActionProcessor({ ...config, concurrency: { asset_image: 1 }, budget: { perRun: 0.015 } });
+
+        const result = await budgeted.processActions({ actions: images });
+
+        expect(result.success).toBe(false);
+        expect(result.assetsGenerated.map(asset => asset.id)).toEqual(['a', 'b']);
+        expect(result.errors.map(error => error.message)).toEqual(['Spent $0.020, over the run budget of $0.015']);
+        expect(result.outcomes.c).toMatchObject({ status: 'skipped', reason: { type: 'budget_exceeded' } });
+      });
+
+      it('leaves cache hits out of the estimate', async () => {
+        const image = config.executors!.asset_image!;
+        image.isCached = vi.fn().mockImplementation(async (action: { id: string }) => action.id !== 'c');
+        const imageSpy = vi.spyOn(image, 'execute');
+        const onExceeded = vi.fn().mockReturnValue(false);
+        const budgeted = new ActionProcessor({ ...config, cache: new MockAssetCache(), budget: { perRun: 0.015, onExceeded } });
+
+        await budgeted.processActions({ actions: images });
+
+        expect(onExceeded).not.toHaveBeenCalled();
+        expect(imageSpy).toHaveBeenCalled();
+      });
+
+      it('counts spend across runs against the session budget', async () => {
+        const budgeted = new ActionProcessor({ ...config, budget: { perSession: 0.025 } });
+
+        const first = await budgeted.processActions({ actions: images.slice(0, 2) });
+        const second = await budgeted.processActions({ actions: images.slice(0, 2) });
+
+        expect(first.success).toBe(true);
+        expect(second.success).toBe(false);
+        expect(second.errors[0].message).toBe(
+          'Estimated cost of up to $0.020 on top of $0.020 already spent exceeds the session budget of $0.025'
+        );
+        expect(second.outcomes.a).toMatchObject({ reason: { type: 'budget_exceeded', check: { scope: 'session' } } });
+      });
+    });
+  });
+
+  describe('processStream', () => {
+    const image = { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' };
+    const subtitle = {
+      type: 'asset_subtitle',
+      id: 'narration',
+      text: 'A world is born',
+      voice_tone: 'epic',
+      voice_gender: 'neutral',
+      voice_pace: 'normal',
+      model: 'openai-tts'
+    };
+    const cutscene = {
+      type: 'asset_cutscene',
+      id: 'scene',
+      shots: [{ image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+    };
+
+    it('starts ready assets before the stream has finished', async () => {
+      const executeSpy = vi.spyOn(config.executors!.asset_image!, 'execute');
+      let imageStartedBeforeEnd = false;
+
+      async function* chunks() {
+        yield `{"actions": [${JSON.stringify(image)},`;
+        await new Promise(resolve => setTimeout(resolve, 10));
+        imageStartedBeforeEnd = executeSpy.mock.calls.length === 1;
+        yield `${JSON.stringify(subtitle)}, ${JSON.stringify(cutscene)},`;
+        yield '{"type": "play_cutscene", "cutscene_id": "scene"}]}';
+      }
+
+      const result = await processor.processStream(chunks());
+
+      expect(imageStartedBeforeEnd).toBe(true);
+      expect(result.success).toBe(true);
+      expect(result.assetsGenerated.map(asset => asset.id).sort()).toEqual(['img', 'narration', 'scene']);
+      expect(result.actionsExecuted).toContain('play_cutscene_3');
+    });
+
+    it('waits for referenced assets before starting a cutscene', async () => {
+      const cutsceneSpy = vi.spyOn(config.executors!.asset_cutscene!, 'execute');
+      const order: string[] = [];
+      cutsceneSpy.mockImplementation(async (action) => {
+        order.push('scene');
+        return { id: (action as { id: string }).id, url: '/mock/scene.json', metadata: { format: 'json' }, cost: 0 } as AssetResult;
+      });
+      vi.spyOn(config.executors!.asset_image!, 'execute').mockImplementation(async (action) => {
+        await new Promise(resolve => setTimeout(resolve, 20));
+        order.push('img');
+        return { id: (action as { id: string }).id, url: '/mock/img.png', metadata: { format: 'png' }, cost: 0.01 } as AssetResult;
+      });
+
+      const result = await processor.processStream([
+        `{"actions": [${JSON.stringify(cutscene)}, ${JSON.stringify(subtitle)}, ${JSON.stringify(image)}]}`
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(order).toEqual(['img', 'scene']);
+      expect(cutsceneSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('accepts references to assets of earlier documents', async () => {
+      const cutsceneSpy = vi.spyOn(config.executors!.asset_cutscene!, 'execute');
+
+      const result = await processor.processStream(
+        [`{"actions": [${JSON.stringify(subtitle)},`, `${JSON.stringify(cutscene)}]}`],
+        { knownIds: ['img'] }
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toHaveLength(0);
+      expect(result.assetsGenerated.map(asset => asset.id).sort()).toEqual(['narration', 'scene']);
+      expect(cutsceneSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports validation errors but keeps assets generated while streaming', async () => {
+      const result = await processor.processStream([
+        `{"actions": [${JSON.stringify(image)},`,
+        '{"type": "play_cutscene", "cutscene_id": "missing"}]}'
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0].message).toMatch(/missing/);
+      expect(result.assetsGenerated.map(asset => asset.id)).toEqual(['img']);
+    });
+  });
+
+  describe('plan', () => {
+    const scene = {
+      actions: [
+        { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' },
+        { type: 'asset_image', id: 'moon', prompt: 'A moon', size: '1024x768', model: 'flux-schnell' },
+        {
+          type: 'asset_subtitle',
+          id: 'narration',
+          text: 'A world is born',
+          voice_tone: 'epic',
+          voice_gender: 'neutral',
+          voice_pace: 'normal',
+          model: 'openai-tts'
+        },
+        {
+          type: 'asset_cutscene',
+          id: 'scene',
+          shots: [
+            { image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'fade' },
+            { image_id: 'moon', subtitle_id: 'narration', duration: 4.5, animation: 'pan_left' }
+          ]
+        },
+        { type: 'play_cutscene', cutscene_id: 'scene' }
+      ]
+    };
+
+    it('describes the run without executing anything', async () => {
+      const executeSpies = Object.values(config.executors!).map(executor => vi.spyOn(executor, 'execute'));
+
+      const plan = await processor.plan(scene);
+
+      expect(plan.success).toBe(true);
+      expect(executeSpies.every(spy => spy.mock.calls.length === 0)).toBe(true);
+      expect(plan.waves).toEqual([['img', 'moon', 'narration'], ['scene'], ['play_cutscene_4']]);
+      expect(plan.actions.scene).toMatchObject({ wave: 1, duration: 7.5, cached: false, estimate: { max: 0 } });
+      expect(plan.actions.scene.dependencies.sort()).toEqual(['img', 'moon', 'narration']);
+      expect(plan.actions.img.estimate).toEqual({ min: 0.01, max: 0.01, currency: 'USD' });
+      expect(plan.actions.play_cutscene_4).toEqual({
+        actionId: 'play_cutscene_4',
+        actionType: 'play_cutscene',
+        wave: 2,
+        dependencies: ['scene']
+      });
+      expect(plan.estimatedCost.max).toBeCloseTo(0.02 + 15 * 'A world is born'.length / 1_000_000);
+      expect(processor.getStatus().isProcessing).toBe(false);
+    });
+
+    it('reports cache hits and leaves them out of the estimated cost', async () => {
+      const image = config.executors!.asset_image!;
+      image.isCached = vi.fn().mockImplementation(async (action: { id: string }) => action.id === 'moon');
+      const cached = new ActionProcessor({ ...config, cache: new MockAssetCache() });
+
+      const plan = await cached.plan(scene);
+
+      expect(plan.cacheHits).toEqual(['moon']);
+      expect(plan.actions.moon.cached).toBe(true);
+      expect(plan.estimatedCost.max).toBeCloseTo(0.01 + 15 * 'A world is born'.length / 1_000_000);
+    });
+
+    it('flags plans that exceed the budget', async () => {
+      const budgeted = new ActionProcessor({ ...config, budget: { perRun: 0.015 } });
+
+      const plan = await budgeted.plan(scene);
+
+      expect(plan.budgetCheck).toMatchObject({ scope: 'run', limit: 0.015 });
+    });
+
+    it('returns parse errors for invalid documents', async () => {
+      const plan = await processor.plan({ actions: [{ type: 'play_cutscene', cutscene_id: 'missing' }] });
+
+      expect(plan.success).toBe(false);
+      expect(plan.errors[0].message).toMatch(/missing/);
+      expect(plan.waves).toEqual([]);
+    });
+  });
+
+  describe('events', () => {
+    const scene = {
+      actions: [
+        { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' },
+        {
+          type: 'asset_subtitle',
+          id: 'narration',
+          text: 'A world is born',
+          voice_tone: 'epic',
+          voice_gender: 'neutral',
+          voice_pace: 'normal',
+          model: 'openai-tts'
+        },
+        {
+          type: 'asset_cutscene',
+          id: 'scene',
+          shots: [{ image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+        }
+      ]
+    };
+
+    function record(target: ActionProcessor) {
+      const events: ProcessorEvent[] = [];
+      const unsubscribe = target.subscribe(event => events.push(event));
+      const label = (event: ProcessorEvent) => {
+        switch (event.type) {
+          case 'action:start':
+          case 'action:retry':
+          case 'cost:update':
+            return `${event.type} ${event.actionId}`;
+          case 'run:complete':
+            return event.type;
+          case 'choice:made':
+            return `${event.type} ${event.choiceId}:${event.optionIndex}`;
+          default:
+            return `${event.type} ${event.outcome.actionId}`;
+        }
+      };
+      return { events, unsubscribe, names: () => events.map(label) };
+    }
+
+    it('reports the life cycle of every action', async () => {
+      const recorder = record(processor);
+
+      const result = await processor.processActions(scene);
+
+      const names = recorder.names();
+      expect(names.filter(name => name.endsWith(' img'))).toEqual(['action:start img', 'cost:update img', 'action:complete img']);
+      expect(names.indexOf('action:start scene')).toBeGreaterThan(names.indexOf('action:complete narration'));
+      expect(names[names.length - 1]).toBe('run:complete');
+      expect(recorder.events[recorder.events.length - 1]).toMatchObject({ type: 'run:complete', result });
+      expect(recorder.events.find(event => event.type === 'cost:update' && event.actionId === 'img'))
+        .toMatchObject({ cost: 0.01, runCost: 0.01 });
+    });
+
+    it('updates the status before each completion is reported', async () => {
+      const progress: number[] = [];
+      processor.subscribe(event => {
+        if (event.type === 'action:complete') {
+          progress.push(Math.round(processor.getStatus().progress));
+        }
+      });
+
+      await processor.processActions(scene);
+
+      expect(progress).toEqual([33, 67, 100]);
+    });
+
+    it('reports failures and the actions skipped because of them', async () => {
+      vi.spyOn(config.executors!.asset_image!, 'execute').mockRejectedValue(new Error('Flux is down'));
+      const recorder = record(processor);
+
+      await processor.processActions(scene);
+
+      expect(recorder.names()).toContain('action:failed img');
+      expect(recorder.events.find(event => event.type === 'action:skipped')).toMatchObject({
+        outcome: { actionId: 'scene', reason: { type: 'dependency_failed', failedActionId: 'img' } }
+      });
+    });
+
+    it('forwards executor retries', async () => {
+      vi.spyOn(config.executors!.asset_image!, 'execute').mockImplementation(async (action, context) => {
+        context.onRetry?.({ attempt: 1, error: new Error('Timeout'), delay: 1000 });
+        return { id: (action as { id: string }).id, url: '/mock/img.png', metadata: {}, cost: 0.01 };
+      });
+      const recorder = record(processor);
+
+      await processor.processActions({ actions: [scene.actions[0]] });
+
+      expect(recorder.events.find(event => event.type === 'action:retry')).toMatchObject({
+        actionId: 'img',
+        actionType: 'asset_image',
+        retry: { attempt: 1, error: { message: 'Timeout' }, delay: 1000 }
+      });
+    });
+
+    it('stops delivering events after unsubscribing and survives failing listeners', async () => {
+      const recorder = record(processor);
+      recorder.unsubscribe();
+      processor.subscribe(() => {
+        throw new Error('Listener bug');
+      });
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await processor.processActions(scene);
+
+      expect(result.success).toBe(true);
+      expect(recorder.events).toEqual([]);
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('cost ledger', () => {
+    const image = (id: string, model = 'sdxl') => ({ type: 'asset_image', id, prompt: `Image ${id}`, size: '1024x768', model });
+
+    it('records every asset with its run, planet and cost', async () => {
+      await processor.processActions({ actions: [image('a'), image('b', 'flux-schnell')] }, { planetId: 'kepler' });
+      await processor.processActions({ actions: [image('c')] });
+
+      const records = processor.getLedger().getRecords();
+      expect(records.map(record => [record.actionId, record.runId, record.planetId, record.model, record.cost])).toEqual([
+        ['a', 'run_1', 'kepler', 'sdxl', 0.009],
+        ['b', 'run_1', 'kepler', 'flux-schnell', 0.01],
+        ['c', 'run_2', undefined, 'sdxl', 0.009]
+      ]);
+      expect(processor.getLedger().getPlanetTotals()).toEqual({ kepler: 0.019 });
+      expect(processor.getLedger().getTotals().total).toBeCloseTo(0.028);
+      expect(processor.getCostBreakdown().total).toBeCloseTo(0.009);
+    });
+
+    /** Executor that reports its usage and caches its results by action ID */
+    function createReportingExecutor(): AssetExecutor<Action, AssetResult> {
+      return {
+        execute: vi.fn().mockImplementation(async (action, context) => {
+          const cached = await context.cache.get(action.id);
+          if (cached) return cached;
+          context.costTracker.record('image', 'sdxl', 2);
+          const result = { id: action.id, url: `/assets/${action.id}.png`, metadata: {}, cost: 1 };
+          await context.cache.set(action.id, result);
+          return result;
+        }),
+        validate: vi.fn().mockReturnValue({ valid: true }),
+        estimateCost: vi.fn().mockReturnValue({ min: 0, max: 0, currency: 'USD' })
+      };
+    }
+
+    it('prices usage reported by executors with the price table', async () => {
+      const priced = new ActionProcessor({ ...config, executors: { ...config.executors, asset_image: createReportingExecutor() } });
+
+      const result = await priced.processActions({ actions: [image('a')] });
+
+      expect(priced.getLedger().getRecords()[0]).toMatchObject({ type: 'image', model: 'sdxl', units: 2, cost: 0.018 });
+      expect(result.totalCost).toBeCloseTo(0.018);
+    });
+
+    it('records cache hits at no cost', async () => {
+      const cached = new ActionProcessor({
+        ...config,
+        cache: new MockAssetCache(),
+        executors: { ...config.executors, asset_image: createReportingExecutor() }
+      });
+      await cached.processActions({ actions: [image('a')] });
+
+      const result = await cached.processActions({ actions: [image('a')] });
+
+      expect(result.totalCost).toBe(0);
+      expect(cached.getLedger().getRecords().map(record => [record.cacheHit, record.cost])).toEqual([
+        [false, 0.018],
+        [true, 0]
+      ]);
+      expect(cached.getLedger().getTotals()).toMatchObject({ count: 2, cacheHits: 1 });
+    });
   });
 
   describe('getCostBreakdown', () => {
@@ -4,48 +4,198 @@
  * This class integrates the DSL parser, asset executors, and cutscene player
  * into a cohesive pipeline. It handles:
  * - Parsing action definitions
- * - Executing asset generation in dependency order
- * - Tracking costs and progress
+ * - Executing asset generation in dependency order, in parallel where possible
+ * - Tracking costs and progress, reported as events through subscribe()
  * - Passing game actions to the React layer
  * 
- * Design Decision: Type Alignment
- * The parser and executor components were developed separately and had slight
- * type mismatches (e.g., animation values 'fade_in' vs 'fade', voice_tone 'triumphant').
- * We chose to align on the parser's type definitions as they were more descriptive
- * and matched the cutscene player's expectations.
+ * Parser and executors share the parser's action types.
  */
 
-import { parseActionDSL, parseActionObject } from './parser/index.js';
-import type { ActionGraph, ActionNode } from './parser/types.js';
+import { parseActionDSL, parseActionObject, StreamingDSLParser, extractReferencedIds } from './parser/index.js';
+import type { Action, ActionGraph, ActionNode, AddPlayerChoiceAction, AssetAction, AssetImageAction, AssetSubtitleAction, AssetCutsceneAction, PlayerChoiceOption, ValidationError } from './parser/types.js';
 import { ImageAssetExecutor } from './executors/ImageAssetExecutor.js';
 import { SubtitleAssetExecutor } from './executors/SubtitleAssetExecutor.js';
 import { CutsceneAssetExecutor } from './executors/CutsceneAssetExecutor.js';
-import type { AssetExecutor, ExecutionContext, AssetResult, AssetStorage, Action as ExecutorAction } from './executors/types.js';
+import type {
+  APIKeys,
+  AssetExecutor,
+  ExecutionContext,
+  AssetResult,
+  AssetStorage,
+  AssetCache,
+  AssetType,
+  CostEstimate,
+  CostRecord,
+  RetryInfo,
+  RateLimiter
+} from './executors/types.js';
 import { LocalAssetStorage } from './storage/LocalAssetStorage.js';
-import { toError } from '../../utils/errors.js';
+import type { ConditionalActionRegistry } from './ConditionalActionRegistry.js';
+import type { GameActionDispatcher } from './GameActionDispatcher.js';
+import { ActionScheduler, executionWaves } from './ActionScheduler.js';
+import type { ConcurrencyLimits } from './ActionScheduler.js';
+import { ActionBudget, BudgetExceededError, describeBudgetCheck } from './ActionBudget.js';
+import { TokenBucketRateLimiter } from './TokenBucketRateLimiter.js';
+import { CostLedger } from './CostLedger.js';
+import type { BudgetCheck, BudgetConfig, BudgetExceededHandler, CostRange } from './ActionBudget.js';
+import { isAbortError } from './executors/abort.js';
+import { toError, logError } from '../../utils/errors.js';
 
 export interface ActionProcessorConfig {
   executors?: {
-    asset_image?: AssetExecutor<ExecutorAction, AssetResult>;
-    asset_subtitle?: AssetExecutor<ExecutorAction, AssetResult>;
-    asset_cutscene?: AssetExecutor<ExecutorAction, AssetResult>;
+    asset_image?: AssetExecutor<AssetImageAction, AssetResult>;
+    asset_subtitle?: AssetExecutor<AssetSubtitleAction, AssetResult>;
+    asset_cutscene?: AssetExecutor<AssetCutsceneAction, AssetResult>;
   };
   storage?: AssetStorage;
-  apiKeys?: {
-    fluxApiKey?: string;
-    openaiApiKey?: string;
-  };
+  /** Keys handed to executors; each image provider reads the one named by its apiKeyName */
+  apiKeys?: APIKeys;
+  /** Registry that receives when_then actions for runtime evaluation */
+  conditionalRegistry?: ConditionalActionRegistry;
+  /** Receives the other game actions (modals, cutscenes, choices, features) to play them */
+  dispatcher?: GameActionDispatcher;
+  /** Parallel executions allowed per action type (defaults: DEFAULT_CONCURRENCY_LIMITS) */
+  concurrency?: ConcurrencyLimits;
+  /** Cache handed to executors; hits are reported as 'cached' outcomes */
+  cache?: AssetCache;
+  /** Provider request limits shared by all runs (default: a TokenBucketRateLimiter with DEFAULT_RATE_LIMITS) */
+  rateLimiter?: RateLimiter;
+  /** Records the cost of every asset; share one between processors to total a whole session */
+  ledger?: CostLedger;
+  /** Spending limits checked against estimates before a run and actual costs during it */
+  budget?: BudgetConfig;
+  /**
+   * Generate the assets of every option's reactions as soon as a choice is
+   * reached, so the picked reaction plays without waiting (default: false).
+   * The assets of the options not picked are paid for too.
+   */
+  speculativeChoices?: boolean;
+}
+
+/** Why an action was not executed (or did not finish) */
+export type SkipReason =
+  | {
+      type: 'dependency_failed';
+      /** The failed action that made this one impossible to run */
+      failedActionId: string;
+      message: string;
+    }
+  | { type: 'cancelled'; message: string }
+  | {
+      type: 'budget_exceeded';
+      /** The limit that stopped the run */
+      check: BudgetCheck;
+      message: string;
+    };
+
+export interface ProcessOptions {
+  /** Cancels the run: waiting actions are skipped and running executors stop */
+  signal?: AbortSignal;
+  /** IDs of assets from earlier runs that the document may reference */
+  knownIds?: Iterable<string>;
+  /** Planet the run generates assets for; its costs are totalled per planet in the ledger */
+  planetId?: string;
+}
+
+interface ActionOutcomeBase {
+  actionId: string;
+  actionType: Action['type'];
+}
+
+export interface CompletedActionOutcome extends ActionOutcomeBase {
+  /** 'cached' when the executor served the asset from the cache */
+  status: 'completed' | 'cached';
+  asset?: AssetResult;
+}
+
+export interface FailedActionOutcome extends ActionOutcomeBase {
+  status: 'failed';
+  error: Error;
+}
+
+export interface SkippedActionOutcome extends ActionOutcomeBase {
+  status: 'skipped';
+  reason: SkipReason;
 }
 
+export type ActionOutcome = CompletedActionOutcome | FailedActionOutcome | SkippedActionOutcome;
+
 export interface ProcessResult {
   success: boolean;
   assetsGenerated: AssetResult[];
   actionsExecuted: string[];
+  /** What happened to each action of the graph, keyed by action ID */
+  outcomes: Record<string, ActionOutcome>;
+  /** Parse errors and action failures, flattened (outcomes has the per-action detail) */
   errors: Error[];
+  /** True when the run was stopped through ProcessOptions.signal */
+  cancelled: boolean;
+  /** Advisory parser findings (migration rewrites, lint rules) */
+  warnings: ValidationError[];
   totalCost: number;
   executionTime: number;
 }
 
+/** Processor events as passed to emit, before they are timestamped */
+type ProcessorEventPayload =
+  | { type: 'action:start'; actionId: string; actionType: Action['type'] }
+  | { type: 'action:retry'; actionId: string; actionType: Action['type']; retry: RetryInfo }
+  | { type: 'action:complete'; outcome: CompletedActionOutcome }
+  | { type: 'action:failed'; outcome: FailedActionOutcome }
+  | { type: 'action:skipped'; outcome: SkippedActionOutcome }
+  | {
+      type: 'cost:update';
+      actionId: string;
+      /** Actual cost of the asset that just finished */
+      cost: number;
+      runCost: number;
+      sessionCost: number;
+    }
+  | {
+      type: 'choice:made';
+      choiceId: string;
+      optionIndex: number;
+      option: PlayerChoiceOption;
+    }
+  | { type: 'run:complete'; result: ProcessResult };
+
+/** Events emitted while processing; see ActionProcessor.subscribe */
+export type ProcessorEvent = ProcessorEventPayload & { timestamp: number };
+
+export type ProcessorEventListener = (event: ProcessorEvent) => void;
+
+export interface PlannedAction {
+  actionId: string;
+  actionType: Action['type'];
+  /** Index into ActionPlan.waves */
+  wave: number;
+  dependencies: string[];
+  /** Executor estimate (asset actions only) */
+  estimate?: CostEstimate;
+  /** The asset would be served from the cache instead of generated */
+  cached?: boolean;
+  /** Expected length in seconds (cutscenes only) */
+  duration?: number;
+}
+
+/** What processActions would do with a document, computed without executing anything */
+export interface ActionPlan {
+  success: boolean;
+  errors: Error[];
+  warnings: ValidationError[];
+  graph: ActionGraph | null;
+  /** Action IDs grouped into waves that could run in parallel, in order */
+  waves: string[][];
+  /** Planned actions, keyed by action ID */
+  actions: Record<string, PlannedAction>;
+  /** Asset actions that would be cache hits */
+  cacheHits: string[];
+  /** Summed estimates of the assets that would be generated (cache hits excluded) */
+  estimatedCost: CostRange;
+  /** The budget limit the estimate exceeds, or null when it fits */
+  budgetCheck: BudgetCheck | null;
+}
+
 export interface ProcessorStatus {
   isProcessing: boolean;
   currentAction: string | null;
@@ -56,20 +206,103 @@ export interface ProcessorStatus {
 export interface ProcessorCostBreakdown {
   images: { count: number; cost: number };
   audio: { count: number; cost: number };
+  cutscenes: { count: number; cost: number };
   total: number;
 }
 
+function isAssetActionType(action: Action): action is AssetAction {
+  return action.type === 'asset_image' || action.type === 'asset_subtitle' || action.type === 'asset_cutscene';
+}
+
+/** What an asset action uses, for executors that do not report their usage */
+function describeUsage(action: AssetAction): { type: AssetType; model: string; units: number } {
+  switch (action.type) {
+    case 'asset_image':
+      return { type: 'image', model: action.model, units: 1 };
+    case 'asset_subtitle':
+      return { type: 'tts', model: action.model, units: action.text.length };
+    case 'asset_cutscene':
+      return { type: 'cutscene', model: 'assembly', units: action.shots.length };
+  }
+}
+
+/** Asset actions at the top level of a choice's reactions, across all options */
+function reactionAssets(choice: AddPlayerChoiceAction): AssetAction[] {
+  return choice.options.flatMap(option => option.reactions.filter(isAssetActionType));
+}
+
+type RunResults = Pick<ProcessResult, 'errors' | 'assetsGenerated' | 'actionsExecuted' | 'outcomes'>;
+
+/** State of one processActions/processStream call, shared by everything it runs */
+interface RunState {
+  /** Identifies the run's records in the cost ledger */
+  id: string;
+  planetId?: string;
+  results: RunResults;
+  /** Aborted when the caller cancels or the budget runs out */
+  signal: AbortSignal;
+  /** The caller's own signal, passed on to the reaction runs this run starts */
+  callerSignal?: AbortSignal;
+  /** Actual cost of the assets generated so far */
+  spent: number;
+  /** Set when the budget stopped the run */
+  budgetError: BudgetExceededError | null;
+  /** Stop the run because a budget limit was exceeded */
+  stop: (error: BudgetExceededError) => void;
+  /** Stop listening to the caller's signal */
+  release: () => void;
+  /** Actions settled out of those runGraph scheduled, for ProcessorStatus.progress */
+  progress: { settled: number; total: number };
+  /** IDs from outside the document that it may reference */
+  knownIds: ReadonlySet<string>;
+  /** Assets generated ahead of time (speculative choices), served instead of executing */
+  pregenerated: ReadonlyMap<string, AssetResult>;
+  /** Resolves once the run has finished */
+  finished: Promise<void>;
+}
+
+/** Observations about a single execution that the result itself does not carry */
+interface ExecutionTrace {
+  cacheHit: boolean;
+  /** Usage the executor reported through context.costTracker */
+  usage: Array<{ type: AssetType; model: string; units: number }>;
+}
+
+const CANCELLED: SkipReason = { type: 'cancelled', message: 'Skipped because the run was cancelled' };
+
 export class ActionProcessor {
-  private executors: Map<string, AssetExecutor<ExecutorAction, AssetResult>>;
+  private executors: Map<AssetAction['type'], AssetExecutor<AssetAction, AssetResult>>;
   private storage: AssetStorage;
-  private apiKeys: { fluxApiKey?: string; openaiApiKey?: string };
+  private apiKeys: APIKeys;
   private status: ProcessorStatus;
-  private costTracker: Map<string, number>;
-  private assetCounts: Map<string, number>;
+  private ledger: CostLedger;
+  private runCounter: number;
+  /** The run getCostBreakdown reports on */
+  private latestRunId: string | null;
+  private conditionalRegistry: ConditionalActionRegistry | null;
+  private dispatcher: GameActionDispatcher | null;
+  private scheduler: ActionScheduler;
+  private cache: AssetCache | null;
+  private rateLimiter: RateLimiter;
+  private budget: ActionBudget;
+  private onBudgetExceeded: BudgetExceededHandler | null;
+  private listeners: Set<ProcessorEventListener>;
+  private speculativeChoices: boolean;
+  /** Assets pre-generated for each choice's options, by choice ID, until the choice is resolved */
+  private pregeneratedChoices: Map<string, Map<string, AssetResult>>;
 
   constructor(config: ActionProcessorConfig = {}) {
     this.storage = config.storage || new LocalAssetStorage();
     this.apiKeys = config.apiKeys || {};
+    this.conditionalRegistry = config.conditionalRegistry || null;
+    this.dispatcher = config.dispatcher || null;
+    this.scheduler = new ActionScheduler(config.concurrency);
+    this.cache = config.cache || null;
+    this.rateLimiter = config.rateLimiter || new TokenBucketRateLimiter();
+    this.budget = new ActionBudget(config.budget);
+    this.onBudgetExceeded = config.budget?.onExceeded || null;
+    this.speculativeChoices = config.speculativeChoices ?? false;
+    this.pregeneratedChoices = new Map();
     
     // Initialize executors with defaults if not provided
     this.executors = new Map();
@@ -98,133 +331,615 @@ export class ActionProcessor {
       queueLength: 0
     };
 
-    this.costTracker = new Map();
-    this.assetCounts = new Map();
+    this.ledger = config.ledger || new CostLedger();
+    this.runCounter = 0;
+    this.latestRunId = null;
+    this.listeners = new Set();
   }
 
   /**
    * Process a set of actions, generating assets and preparing game actions
    * 
-   * Design Decision: Cost Tracking
-   * Cost tracking is reset for each processActions call. This allows each
-   * processing session to have its own cost budget. If cumulative tracking
-   * is needed, getCostBreakdown() should be called before the next processActions.
+   * Every asset is recorded in the cost ledger under the run's ID and
+   * options.planetId; see getCostBreakdown() and getLedger().
    * 
-   * Design Decision: Error Recovery
-   * The processor continues executing actions even if individual actions fail.
-   * This allows partial success - if image generation fails but audio succeeds,
-   * the user still gets the audio. Failed actions are reported in the errors array.
+   * Actions keep running when others fail; only their dependents are
+   * skipped, and outcomes records which and why.
+   *
+   * Aborting options.signal, or exceeding the budget, skips the remaining
+   * actions; assets finished before that are still returned.
+   */
+  async processActions(json: string | object, options: ProcessOptions = {}): Promise<ProcessResult> {
+    return this.runDocument(json, options, new Map());
+  }
+
+  /**
+   * Run the reactions of the option the player picked as a new run
+   *
+   * Emits a 'choice:made' event, then processes the option's reactions like
+   * a document of their own, including any assets they declare. The
+   * reactions may reference assets of the document the choice came from;
+   * pass their IDs as options.knownIds. Assets pre-generated for the picked
+   * option (speculativeChoices) are served instead of generated again.
+   * With a dispatcher configured this happens automatically on each pick.
    */
-  async processActions(json: string | object): Promise<ProcessResult> {
+  async resolveChoice(choice: AddPlayerChoiceAction, optionIndex: number, options: ProcessOptions = {}): Promise<ProcessResult> {
+    const option = choice.options[optionIndex];
+    if (!option) {
+      throw new Error(`Choice ${choice.id} has no option ${optionIndex}`);
+    }
+
+    // Assets pre-generated for the options that were not picked are dropped
+    const speculative = this.pregeneratedChoices.get(choice.id);
+    this.pregeneratedChoices.delete(choice.id);
+    const pregenerated = new Map<string, AssetResult>();
+    for (const reaction of option.reactions.filter(isAssetActionType)) {
+      const asset = speculative?.get(reaction.id);
+      if (asset) {
+        pregenerated.set(reaction.id, asset);
+      }
+    }
+
+    this.emit({ type: 'choice:made', choiceId: choice.id, optionIndex, option });
+    return this.runDocument({ actions: option.reactions }, options, pregenerated);
+  }
+
+  private async runDocument(
+    json: string | object,
+    options: ProcessOptions,
+    pregenerated: ReadonlyMap<string, AssetResult>
+  ): Promise<ProcessResult> {
     const startTime = Date.now();
     const errors: Error[] = [];
     const assetsGenerated: AssetResult[] = [];
     const actionsExecuted: string[] = [];
+    const outcomes: Record<string, ActionOutcome> = {};
+    const run = this.createRunState({ errors, assetsGenerated, actionsExecuted, outcomes }, options, pregenerated);
 
     try {
       this.status.isProcessing = true;
       
-      this.costTracker.clear();
-      this.assetCounts.clear();
-      
       // Parse the actions
-      const parseResult = typeof json === 'string' 
-        ? parseActionDSL(json)
-        : parseActionObject(json);
+      const parseResult = this.parse(json, run.knownIds);
 
       if (!parseResult.success || !parseResult.graph) {
         const parseErrors = parseResult.errors || [];
         errors.push(...parseErrors.map(e => new Error(e.message)));
-        return {
+        return this.finishRun({
           success: false,
           assetsGenerated: [],
           actionsExecuted: [],
+          outcomes,
           errors,
+          cancelled: false,
+          warnings: parseResult.warnings || [],
           totalCost: 0,
           executionTime: Date.now() - startTime
+        });
+      }
+
+      await this.runGraph(parseResult.graph, run);
+
+      const totalCost = run.spent;
+      const executionTime = Date.now() - startTime;
+      const cancelled = !!options.signal?.aborted;
+
+      return this.finishRun({
+        success: errors.length === 0 && !cancelled,
+        assetsGenerated,
+        actionsExecuted,
+        outcomes,
+        errors,
+        cancelled,
+        warnings: parseResult.warnings || [],
+        totalCost,
+        executionTime
+      });
+
+    } finally {
+      run.release();
+      this.resetStatus();
+    }
+  }
+
+  /**
+   * Work out what processActions would do with a document, without running it
+   *
+   * Nothing is executed, generated or spent: executors are only asked for
+   * cost estimates and whether their result is already cached. Use it to
+   * review a document (and its cost) before paying for the real calls.
+   */
+  async plan(json: string | object): Promise<ActionPlan> {
+    const parseResult = this.parse(json);
+    const warnings = parseResult.warnings || [];
+
+    if (!parseResult.success || !parseResult.graph) {
+      return {
+        success: false,
+        errors: (parseResult.errors || []).map(e => new Error(e.message)),
+        warnings,
+        graph: null,
+        waves: [],
+        actions: {},
+        cacheHits: [],
+        estimatedCost: { min: 0, max: 0 },
+        budgetCheck: null
+      };
+    }
+
+    const graph = parseResult.graph;
+    const waves = executionWaves(graph);
+    const actions: Record<string, PlannedAction> = {};
+    const cacheHits: string[] = [];
+    const estimatedCost: CostRange = { min: 0, max: 0 };
+
+    for (const [wave, actionIds] of waves.entries()) {
+      for (const actionId of actionIds) {
+        const node = graph.nodes.get(actionId)!;
+        const planned: PlannedAction = {
+          actionId,
+          actionType: node.action.type,
+          wave,
+          dependencies: Array.from(node.dependencies)
         };
+
+        const action = node.action;
+        if (isAssetActionType(action)) {
+          const executor = this.executors.get(action.type);
+          planned.estimate = executor?.estimateCost(action);
+          planned.cached = await this.isCached(action);
+          if (planned.cached) {
+            cacheHits.push(actionId);
+          } else if (planned.estimate) {
+            estimatedCost.min += planned.estimate.min;
+            estimatedCost.max += planned.estimate.max;
+          }
+          if (action.type === 'asset_cutscene') {
+            planned.duration = action.shots.reduce((sum, shot) => sum + shot.duration, 0);
+          }
+        }
+        actions[actionId] = planned;
       }
+    }
 
-      const graph = parseResult.graph;
-      this.status.queueLength = graph.executionOrder.length;
+    return {
+      success: true,
+      errors: [],
+      warnings,
+      graph,
+      waves,
+      actions,
+      cacheHits,
+      estimatedCost,
+      budgetCheck: this.budget.check(0, estimatedCost)
+    };
+  }
 
-      for (let i = 0; i < graph.executionOrder.length; i++) {
-        const actionId = graph.executionOrder[i];
-        const node = graph.nodes.get(actionId);
-        
-        if (!node) continue;
+  /**
+   * Process actions while their JSON is still streaming in (e.g. token by token from an LLM)
+   *
+   * Top-level asset actions start executing as soon as they close and every
+   * asset they reference has finished generating. Once the stream ends the
+   * whole document is validated; the remaining actions are then scheduled
+   * exactly as in processActions. An invalid document may already have
+   * produced some assets; they are returned alongside the validation errors.
+   *
+   * Aborting options.signal, or exceeding the budget, while the stream is
+   * still being read stops reading it; the partial document is not validated.
+   * The budget can only be checked against estimates once the stream has
+   * ended, so assets started early are limited by actual spend alone.
+   */
+  async processStream(
+    chunks: AsyncIterable<string> | Iterable<string>,
+    options: ProcessOptions = {}
+  ): Promise<ProcessResult> {
+    const startTime = Date.now();
+    const errors: Error[] = [];
+    const assetsGenerated: AssetResult[] = [];
+    const actionsExecuted: string[] = [];
+    const outcomes: Record<string, ActionOutcome> = {};
+    const run = this.createRunState({ errors, assetsGenerated, actionsExecuted, outcomes }, options, new Map());
+
+    const waiting: AssetAction[] = [];
+    const started = new Set<string>();
+    const completed = new Set<string>();
+    const inFlight = new Set<Promise<void>>();
+
+    const startReadyAssets = (): void => {
+      if (run.signal.aborted) {
+        return;
+      }
+      for (let i = 0; i < waiting.length; i++) {
+        const action = waiting[i];
+        // Assets of earlier documents (knownIds) already exist
+        const deps = extractReferencedIds(action).filter(dep => !run.knownIds.has(dep));
+        if (!deps.every(dep => completed.has(dep))) continue;
 
+        waiting.splice(i--, 1);
+        const actionId = action.id;
+        started.add(actionId);
         this.status.currentAction = actionId;
-        this.status.progress = (i / graph.executionOrder.length) * 100;
-
-        try {
-          const result = await this.executeAction(node, graph, actionId);
-          
-          actionsExecuted.push(actionId);
-          
-          if (result) {
-            // Only add to assetsGenerated if it's actually an asset (not a game action)
-            if (result && typeof result === 'object' && 'id' in result && 'type' in result && 
-                (result.type === 'image' || result.type === 'audio' || result.type === 'cutscene')) {
-              assetsGenerated.push(result as AssetResult & { type: string });
-            }
+
+        const node: ActionNode = { action, dependencies: new Set(deps), dependents: new Set(), status: 'executing' };
+        const task = this.runAction(node, null, actionId, run)
+          .then(() => {
+            completed.add(actionId);
+            startReadyAssets();
+          })
+          .catch(() => {
+            // Recorded in outcomes by runAction
+          })
+          .finally(() => {
+            inFlight.delete(task);
+          });
+        inFlight.add(task);
+      }
+    };
+
+    try {
+      this.status.isProcessing = true;
+
+      const parser = new StreamingDSLParser({ knownIds: run.knownIds });
+      for await (const chunk of chunks) {
+        if (run.signal.aborted) {
+          break;
+        }
+        for (const { action } of parser.write(chunk)) {
+          if (isAssetActionType(action)) {
+            waiting.push(action);
           }
-        } catch (error) {
-          errors.push(toError(error, 'Action execution failed'));
-          // Continue processing other actions even if one fails
         }
+        startReadyAssets();
       }
 
-      const totalCost = this.calculateTotalCost();
-      const executionTime = Date.now() - startTime;
+      // Let early-started assets settle before deciding what is left to run
+      while (inFlight.size > 0) {
+        await Promise.all(Array.from(inFlight));
+      }
 
-      return {
-        success: errors.length === 0,
+      if (run.signal.aborted) {
+        return this.finishRun({
+          success: false,
+          assetsGenerated,
+          actionsExecuted,
+          outcomes,
+          errors,
+          cancelled: !!options.signal?.aborted,
+          warnings: [],
+          totalCost: run.spent,
+          executionTime: Date.now() - startTime
+        });
+      }
+
+      const parseResult = parser.end();
+
+      if (!parseResult.success || !parseResult.graph) {
+        const parseErrors = parseResult.errors || [];
+        errors.push(...parseErrors.map(e => new Error(e.message)));
+        return this.finishRun({
+          success: false,
+          assetsGenerated,
+          actionsExecuted,
+          outcomes,
+          errors,
+          cancelled: false,
+          warnings: parseResult.warnings || [],
+          totalCost: run.spent,
+          executionTime: Date.now() - startTime
+        });
+      }
+
+      const graph = parseResult.graph;
+      for (const actionId of started) {
+        const node = graph.nodes.get(actionId);
+        if (node) {
+          node.status = completed.has(actionId) ? 'completed' : 'failed';
+        }
+      }
+      await this.runGraph(graph, run, started);
+      const cancelled = !!options.signal?.aborted;
+
+      return this.finishRun({
+        success: errors.length === 0 && !cancelled,
         assetsGenerated,
         actionsExecuted,
+        outcomes,
         errors,
-        totalCost,
-        executionTime
-      };
+        cancelled,
+        warnings: parseResult.warnings || [],
+        totalCost: run.spent,
+        executionTime: Date.now() - startTime
+      });
 
     } finally {
-      this.status = {
-        isProcessing: false,
-        currentAction: null,
-        progress: 100,
-        queueLength: 0
+      run.release();
+      this.resetStatus();
+    }
+  }
+
+  /**
+   * Execute a validated graph through the scheduler, collecting results
+   *
+   * @param alreadyRun - Nodes executed before the graph was available (streaming)
+   */
+  private async runGraph(graph: ActionGraph, run: RunState, alreadyRun: Iterable<string> = []): Promise<void> {
+    const settledBefore = new Set(alreadyRun);
+
+    if (this.budget.enforced && !run.signal.aborted) {
+      const check = this.budget.check(run.spent, await this.estimateGraphCost(graph, settledBefore));
+      if (check && !(await this.onBudgetExceeded?.(check))) {
+        run.stop(new BudgetExceededError(describeBudgetCheck(check), check));
+      }
+    }
+
+    const total = graph.executionOrder.filter(actionId => !settledBefore.has(actionId)).length;
+    run.progress = { settled: 0, total };
+    this.status.queueLength = total;
+
+    await this.scheduleGraph(graph, run, settledBefore);
+  }
+
+  /**
+   * Run the nodes of a graph as their dependencies complete, recording
+   * skipped nodes; progress totals are the caller's responsibility
+   */
+  private async scheduleGraph(graph: ActionGraph, run: RunState, settledBefore: Set<string> = new Set()): Promise<void> {
+    await this.scheduler.run(graph, async (actionId, node) => {
+      this.status.currentAction = actionId;
+      this.status.queueLength--;
+      await this.runAction(node, graph, actionId, run);
+    }, {
+      settled: settledBefore,
+      signal: run.signal,
+      onSkip: (actionId, node, cause) => {
+        const outcome: SkippedActionOutcome = {
+          actionId,
+          actionType: node.action.type,
+          status: 'skipped',
+          reason: cause.type === 'cancelled' ? this.describeStop(run) : this.describeFailedDependency(graph, cause.failedActionId)
+        };
+        run.results.outcomes[actionId] = outcome;
+        this.status.queueLength--;
+        this.settle(run);
+        this.emit({ type: 'action:skipped', outcome });
+      }
+    });
+  }
+
+  private parse(json: string | object, knownIds: Iterable<string> = []) {
+    return typeof json === 'string' ? parseActionDSL(json, { knownIds }) : parseActionObject(json, { knownIds });
+  }
+
+  /**
+   * Sum the cost estimates of the asset actions still to run, leaving out
+   * cache hits as plan() does
+   */
+  private async estimateGraphCost(graph: ActionGraph, exclude: Set<string>): Promise<CostRange> {
+    const total: CostRange = { min: 0, max: 0 };
+    for (const [actionId, node] of graph.nodes) {
+      const action = node.action;
+      if (exclude.has(actionId)) continue;
+      const assets = isAssetActionType(action) ? [action]
+        : action.type === 'add_player_choice' && this.speculativeChoices ? reactionAssets(action)
+        : [];
+      for (const asset of assets) {
+        const estimate = this.executors.get(asset.type)?.estimateCost(asset);
+        if (estimate && !(await this.isCached(asset))) {
+          total.min += estimate.min;
+          total.max += estimate.max;
+        }
+      }
+    }
+    return total;
+  }
+
+  /** Whether the action's executor would serve it from the cache */
+  private async isCached(action: AssetAction): Promise<boolean> {
+    const executor = this.executors.get(action.type);
+    return !!this.cache && !!(await executor?.isCached?.(action, this.cache));
+  }
+
+  /**
+   * Per-run state whose signal follows the caller's and can also be aborted
+   * by the budget
+   */
+  private createRunState(
+    results: RunResults,
+    options: ProcessOptions,
+    pregenerated: ReadonlyMap<string, AssetResult>
+  ): RunState {
+    const { signal } = options;
+    const controller = new AbortController();
+    let markFinished = () => {};
+    const finished = new Promise<void>(resolve => {
+      markFinished = resolve;
+    });
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    }
+    signal?.addEventListener('abort', onAbort);
+
+    const id = `run_${++this.runCounter}`;
+    this.latestRunId = id;
+
+    const run: RunState = {
+      id,
+      ...(options.planetId !== undefined && { planetId: options.planetId }),
+      results,
+      signal: controller.signal,
+      ...(signal && { callerSignal: signal }),
+      spent: 0,
+      budgetError: null,
+      stop: (error) => {
+        if (controller.signal.aborted) return;
+        run.budgetError = error;
+        results.errors.push(error);
+        controller.abort();
+      },
+      release: () => {
+        signal?.removeEventListener('abort', onAbort);
+        markFinished();
+      },
+      progress: { settled: 0, total: 0 },
+      knownIds: new Set(options.knownIds),
+      pregenerated,
+      finished
+    };
+    return run;
+  }
+
+  /** Skip reason for actions that did not run (or finish) because the run was stopped */
+  private describeStop(run: RunState): SkipReason {
+    if (run.budgetError) {
+      return {
+        type: 'budget_exceeded',
+        check: run.budgetError.check,
+        message: `Skipped because the ${run.budgetError.check.scope} budget was exceeded`
       };
     }
+    return CANCELLED;
+  }
+
+  private describeFailedDependency(graph: ActionGraph, failedActionId: string): SkipReason {
+    const failedNode = graph.nodes.get(failedActionId);
+    const kind = failedNode && isAssetActionType(failedNode.action) ? 'asset' : 'action';
+    return {
+      type: 'dependency_failed',
+      failedActionId,
+      message: `Skipped because ${kind} ${failedActionId} failed`
+    };
+  }
+
+  /**
+   * Execute one action and record its outcome
+   *
+   * Rethrows failures (after recording them) so callers can stop dependents.
+   * Executions interrupted by the run's signal are recorded as skipped, not
+   * failed. The cost of each new asset counts against the budget; crossing
+   * a limit stops the run.
+   */
+  private async runAction(node: ActionNode, graph: ActionGraph | null, actionId: string, run: RunState): Promise<void> {
+    const { results } = run;
+    const actionType = node.action.type;
+    const trace: ExecutionTrace = { cacheHit: false, usage: [] };
+    this.emit({ type: 'action:start', actionId, actionType });
+    try {
+      const result = await this.executeAction(node, graph, actionId, trace, run);
+      results.actionsExecuted.push(actionId);
+
+      // Only add to assetsGenerated if it's actually an asset (not a game action)
+      const asset = this.isAssetResult(result) ? result : undefined;
+      if (asset && isAssetActionType(node.action)) {
+        results.assetsGenerated.push(asset);
+        const record = this.recordCost(run, node.action, actionId, asset, trace);
+        if (!trace.cacheHit) {
+          this.recordSpend(run, actionId, record.cost);
+        }
+      }
+      const outcome: CompletedActionOutcome = {
+        actionId,
+        actionType,
+        status: trace.cacheHit ? 'cached' : 'completed',
+        ...(asset && { asset })
+      };
+      results.outcomes[actionId] = outcome;
+      this.settle(run);
+      this.emit({ type: 'action:complete', outcome });
+    } catch (error) {
+      if (run.signal.aborted && isAbortError(error)) {
+        const outcome: SkippedActionOutcome = { actionId, actionType, status: 'skipped', reason: this.describeStop(run) };
+        results.outcomes[actionId] = outcome;
+        this.settle(run);
+        this.emit({ type: 'action:skipped', outcome });
+        throw error;
+      }
+      const failure = toError(error, 'Action execution failed');
+      results.errors.push(failure);
+      const outcome: FailedActionOutcome = { actionId, actionType, status: 'failed', error: failure };
+      results.outcomes[actionId] = outcome;
+      this.settle(run);
+      this.emit({ type: 'action:failed', outcome });
+      throw failure;
+    }
+  }
+
+  /**
+   * Add the asset to the cost ledger
+   *
+   * Usage reported by the executor is priced with the ledger's price table;
+   * without reported usage (or a price for the model) the cost the executor
+   * returned is charged.
+   */
+  private recordCost(
+    run: RunState,
+    action: AssetAction,
+    actionId: string,
+    asset: AssetResult,
+    trace: ExecutionTrace
+  ): CostRecord {
+    const usage = trace.usage.length > 0 ? trace.usage : null;
+    const { type, model } = usage ? usage[0] : describeUsage(action);
+    const units = usage ? usage.reduce((sum, line) => sum + line.units, 0) : describeUsage(action).units;
+    const priced = usage ? this.ledger.price(model, units) : undefined;
+
+    return this.ledger.record({
+      runId: run.id,
+      ...(run.planetId !== undefined && { planetId: run.planetId }),
+      actionId,
+      type,
+      model,
+      units,
+      cost: priced ?? (asset.cost || 0),
+      cacheHit: trace.cacheHit
+    });
+  }
+
+  private recordSpend(run: RunState, actionId: string, cost: number): void {
+    run.spent += cost;
+    this.budget.record(cost);
+    this.emit({ type: 'cost:update', actionId, cost, runCost: run.spent, sessionCost: this.budget.spent });
+    const check = this.budget.check(run.spent);
+    if (check) {
+      run.stop(new BudgetExceededError(describeBudgetCheck(check), check));
+    }
+  }
+
+  private isAssetResult(result: unknown): result is AssetResult & { type: string } {
+    return !!result && typeof result === 'object' && 'id' in result && 'type' in result &&
+      (result.type === 'image' || result.type === 'audio' || result.type === 'cutscene');
   }
 
-  private async executeAction(node: ActionNode, _graph: ActionGraph, actionId: string): Promise<unknown> {
+  private async executeAction(
+    node: ActionNode,
+    graph: ActionGraph | null,
+    actionId: string,
+    trace: ExecutionTrace,
+    run: RunState
+  ): Promise<unknown> {
     const action = node.action;
 
     // Handle asset actions
-    if (action.type.startsWith('asset_')) {
+    if (isAssetActionType(action)) {
       const executor = this.executors.get(action.type);
       if (!executor) {
         throw new Error(`No executor found for action type: ${action.type}`);
       }
 
-      const context = this.createExecutionContext();
-      
-      // Estimate cost before execution
-      await executor.estimateCost(action as ExecutorAction);
-      
-      // Execute the action
-      const result = await executor.execute(action as ExecutorAction, context);
-      
-      // Track actual cost
-      if (result.cost !== undefined) {
-        const currentCost = this.costTracker.get(action.type) || 0;
-        this.costTracker.set(action.type, currentCost + result.cost);
+      // Generated (and paid for) when the choice was reached
+      const pregenerated = run.pregenerated.get(actionId);
+      if (pregenerated) {
+        trace.cacheHit = true;
+        return pregenerated;
       }
-      
-      // Track asset counts
-      const currentCount = this.assetCounts.get(action.type) || 0;
-      this.assetCounts.set(action.type, currentCount + 1);
 
+      const context = this.createExecutionContext(trace, run.signal, retry => {
+        this.emit({ type: 'action:retry', actionId, actionType: action.type, retry });
+      });
+
+      // Execute the action (cost estimates are checked against the budget before the run)
+      const result = await executor.execute(action, context);
+      
       // Add type field based on action type
       const typedResult = {
         ...(result as AssetResult),
@@ -246,30 +961,27 @@ export class ActionProcessor {
     }
 
     /**
-     * Design Decision: Game Action Handling
-     * 
-     * Game actions (play_cutscene, when_then, etc.) are not executed by the ActionProcessor.
-     * Instead, they are passed through to the React component layer. This is because:
-     * 
-     * 1. Game actions require access to game state (player choices, conditions)
-     * 2. UI actions need to be handled by React components (showing modals, playing cutscenes)
-     * 3. Conditional actions need real-time game state evaluation
-     * 
-     * The ActionProcessor's role is to prepare all assets and provide the execution plan.
-     * The React components then use this plan to orchestrate the actual gameplay.
+     * Game actions are handed to the dispatcher (when_then to the conditional
+     * registry) once their assets are ready; the run does not wait for the player.
      */
-    
+
     // Handle game actions
-    if (action.type === 'play_cutscene') {
-      // This will be handled by the React component layer
-      // Just mark it as executed
+    if (
+      action.type === 'play_cutscene' ||
+      action.type === 'show_modal' ||
+      action.type === 'add_feature' ||
+      action.type === 'remove_feature'
+    ) {
+      void this.dispatcher?.dispatch(action, actionId);
       return { type: 'game_action', id: actionId };
     }
 
     // Handle when_then actions
     if (action.type === 'when_then') {
-      // This requires game state evaluation which happens at the React layer
-      // Just mark it as registered
+      // Conditions are evaluated against live game state by the registry;
+      // without one configured the action is only marked as registered. Graph
+      // IDs repeat across documents, so id-less actions get registry IDs.
+      this.conditionalRegistry?.register(action);
       return { type: 'conditional_action', id: actionId };
     }
 
@@ -280,75 +992,199 @@ export class ActionProcessor {
     }
     
     if (action.type === 'add_player_choice') {
-      // Player choice actions register choices in the game
+      // Reactions may use everything the choice's own document can
+      const knownIds = new Set([...run.knownIds, ...(graph ? graph.nodes.keys() : [])]);
+      const pregenerated = this.speculativeChoices ? this.pregenerate(action, knownIds, run) : null;
+
+      if (this.dispatcher) {
+        const dispatched = this.dispatcher.dispatch(action, actionId);
+        void Promise.all([dispatched, pregenerated, run.finished])
+          .then(([result]) => {
+            if (result.status !== 'completed' || run.callerSignal?.aborted) return;
+            return this.resolveChoice(action, result.value as number, {
+              knownIds,
+              planetId: run.planetId,
+              signal: run.callerSignal
+            });
+          })
+          .catch(error => {
+            logError('Player choice reactions failed', { choiceId: action.id, error });
+          });
+      }
+
+      await pregenerated;
       return { type: 'player_choice', id: actionId };
     }
 
-    throw new Error(`Unknown action type: ${action.type}`);
+    throw new Error(`Unknown action type: ${(action as Action).type}`);
   }
 
-  private createExecutionContext(): ExecutionContext {
+  /**
+   * Generate the assets declared by the reactions of every option of a choice
+   *
+   * They run as part of the current run (budget, cancellation and events
+   * apply) and are kept by choice ID for whichever reaction run follows the
+   * pick (see resolveChoice).
+   * Reaction assets that fail to parse are left for the reaction run to
+   * report.
+   */
+  private async pregenerate(
+    choice: AddPlayerChoiceAction,
+    knownIds: Set<string>,
+    run: RunState
+  ): Promise<void> {
+    const pregenerated = new Map<string, AssetResult>();
+    this.pregeneratedChoices.set(choice.id, pregenerated);
+    const assets = reactionAssets(choice);
+    const parseResult = assets.length > 0 ? parseActionObject({ actions: assets }, { knownIds }) : null;
+    if (!parseResult?.graph) {
+      return;
+    }
+
+    const graph = parseResult.graph;
+    run.progress.total += graph.nodes.size;
+    this.status.queueLength += graph.nodes.size;
+    await this.scheduleGraph(graph, run);
+
+    for (const actionId of graph.nodes.keys()) {
+      const outcome = run.results.outcomes[actionId];
+      if (outcome && outcome.status !== 'failed' && outcome.status !== 'skipped' && outcome.asset) {
+        pregenerated.set(actionId, outcome.asset);
+      }
+    }
+  }
+
+  private createExecutionContext(
+    trace: ExecutionTrace,
+    signal?: AbortSignal,
+    onRetry?: ExecutionContext['onRetry']
+  ): ExecutionContext {
+    const cache = this.cache;
     return {
       apiKeys: this.apiKeys,
       storage: this.storage,
-      cache: {
-        get: async () => null,
-        set: async () => {},
-        clear: async () => {}
-      },
-      rateLimiter: {
-        acquire: async () => {
-          // Simple rate limiter - can be enhanced
-          await new Promise(resolve => setTimeout(resolve, 100));
-        },
-        reset: () => {}
-      },
+      signal,
+      onRetry,
+      cache: cache
+        ? {
+            get: async <T>(key: Parameters<AssetCache['get']>[0]) => {
+              const value = await cache.get<T>(key);
+              if (value !== null) {
+                trace.cacheHit = true;
+              }
+              return value;
+            },
+            has: key => cache.has(key),
+            set: (key, value, ttl) => cache.set(key, value, ttl),
+            clear: () => cache.clear()
+          }
+        : {
+            get: async () => null,
+            has: async () => false,
+            set: async () => {},
+            clear: async () => {}
+          },
+      rateLimiter: this.rateLimiter,
       costTracker: {
-        record: (type: 'image' | 'tts', model: string, units: number) => {
-          const key = `${type}_${model}`;
-          const cost = type === 'image' ? units * 0.01 : units * 0.006;
-          const current = this.costTracker.get(key) || 0;
-          this.costTracker.set(key, current + cost);
+        // Priced and added to the ledger once the action settles
+        record: (type, model, units) => {
+          trace.usage.push({ type, model, units });
         },
-        getTotalCost: () => this.calculateTotalCost(),
-        getCostBreakdown: () => ({
-          total: this.calculateTotalCost(),
-          byType: { image: this.costTracker.get('image_flux-schnell') || 0, tts: this.costTracker.get('tts_openai-tts') || 0 },
-          byModel: {}
-        })
+        getTotalCost: () => this.ledger.getTotals().total,
+        getCostBreakdown: () => {
+          const totals = this.ledger.getTotals();
+          return {
+            total: totals.total,
+            byType: {
+              image: totals.byType.image.cost,
+              tts: totals.byType.tts.cost,
+              cutscene: totals.byType.cutscene.cost
+            },
+            byModel: Object.fromEntries(Object.entries(totals.byModel).map(([model, { cost }]) => [model, cost]))
+          };
+        }
       }
     };
   }
 
-  private calculateTotalCost(): number {
-    let total = 0;
-    for (const cost of this.costTracker.values()) {
-      total += cost;
+  /**
+   * Receive progress events from every run of this processor
+   *
+   * Listeners are called synchronously as things happen; an exception thrown
+   * by a listener is logged and does not affect the run.
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: ProcessorEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit<K extends ProcessorEvent['type']>(event: Extract<ProcessorEventPayload, { type: K }> & { type: K }): void {
+    const stamped: ProcessorEvent = { ...event, timestamp: Date.now() };
+    for (const listener of this.listeners) {
+      try {
+        listener(stamped);
+      } catch (error) {
+        logError('ActionProcessor event listener failed', { event: stamped.type, error });
+      }
     }
-    return total;
+  }
+
+  private settle(run: RunState): void {
+    run.progress.settled++;
+    if (run.progress.total > 0) {
+      this.status.progress = (run.progress.settled / run.progress.total) * 100;
+    }
+  }
+
+  private finishRun(result: ProcessResult): ProcessResult {
+    this.resetStatus();
+    this.emit({ type: 'run:complete', result });
+    return result;
+  }
+
+  private resetStatus(): void {
+    this.status = {
+      isProcessing: false,
+      currentAction: null,
+      progress: 100,
+      queueLength: 0
+    };
   }
 
   getStatus(): ProcessorStatus {
     return { ...this.status };
   }
 
+  /**
+   * Costs of the latest run, by kind of asset
+   *
+   * Counts include assets served from the cache. For totals across runs or
+   * per planet, query getLedger().
+   */
   getCostBreakdown(): ProcessorCostBreakdown {
-    const images = {
-      count: this.assetCounts.get('asset_image') || 0,
-      cost: this.costTracker.get('asset_image') || 0
-    };
-    
-    const audio = {
-      count: (this.assetCounts.get('asset_subtitle') || 0) + 
-             (this.assetCounts.get('asset_cutscene') || 0),
-      cost: (this.costTracker.get('asset_subtitle') || 0) + 
-            (this.costTracker.get('asset_cutscene') || 0)
-    };
-
+    if (this.latestRunId === null) {
+      return {
+        images: { count: 0, cost: 0 },
+        audio: { count: 0, cost: 0 },
+        cutscenes: { count: 0, cost: 0 },
+        total: 0
+      };
+    }
+    const totals = this.ledger.getTotals({ runId: this.latestRunId });
     return {
-      images,
-      audio,
-      total: images.cost + audio.cost
+      images: totals.byType.image,
+      audio: totals.byType.tts,
+      cutscenes: totals.byType.cutscene,
+      total: totals.total
     };
   }
+
+  /** Every cost recorded by this processor (and any other sharing its ledger) */
+  getLedger(): CostLedger {
+    return this.ledger;
+  }
 }
\ No newline at end of file
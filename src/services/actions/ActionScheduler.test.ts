@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { ActionScheduler, executionWaves } from './ActionScheduler.js';
+import { parseActionObject } from './parser/index.js';
+import type { ActionGraph, ActionNode } from './parser/types.js';
+
+const image = (id: string) => ({ type: 'asset_image', id, prompt: `Image ${id}`, size: '1024x768', model: 'flux-schnell' });
+const subtitle = (id: string) => ({
+  type: 'asset_subtitle',
+  id,
+  text: `Narration ${id}`,
+  voice_tone: 'calm',
+  voice_gender: 'neutral',
+  voice_pace: 'normal',
+  model: 'openai-tts'
+});
+const cutscene = (id: string, imageId: string, subtitleId: string) => ({
+  type: 'asset_cutscene',
+  id,
+  shots: [{ image_id: imageId, subtitle_id: subtitleId, duration: 3, animation: 'fade' }]
+});
+
+function buildGraph(actions: unknown[]): ActionGraph {
+  const result = parseActionObject({ actions });
+  expect(result.errors).toBeUndefined();
+  return result.graph!;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Runner that records start/finish events and how many nodes of each type ran at once */
+function createRecorder(durations: Record<string, number> = {}) {
+  const events: string[] = [];
+  const active = new Map<string, number>();
+  const peak = new Map<string, number>();
+
+  const run = async (actionId: string, node: ActionNode) => {
+    const type = node.action.type;
+    active.set(type, (active.get(type) || 0) + 1);
+    peak.set(type, Math.max(peak.get(type) || 0, active.get(type)!));
+    events.push(`start ${actionId}`);
+    await sleep(durations[actionId] ?? 10);
+    events.push(`end ${actionId}`);
+    active.set(type, active.get(type)! - 1);
+  };
+
+  return { run, events, peak };
+}
+
+describe('ActionScheduler', () => {
+  it('runs independent actions concurrently up to the limit per type', async () => {
+    const graph = buildGraph([image('a'), image('b'), image('c'), subtitle('s1'), subtitle('s2')]);
+    const recorder = createRecorder();
+
+    await new ActionScheduler({ asset_image: 2, asset_subtitle: 3 }).run(graph, recorder.run);
+
+    expect(recorder.peak.get('asset_image')).toBe(2);
+    expect(recorder.peak.get('asset_subtitle')).toBe(2);
+    expect(recorder.events.filter(event => event.startsWith('end'))).toHaveLength(5);
+  });
+
+  it('starts a cutscene as soon as its own assets finish', async () => {
+    const graph = buildGraph([
+      image('slow'),
+      image('fast'),
+      subtitle('narration'),
+      cutscene('scene', 'fast', 'narration')
+    ]);
+    const recorder = createRecorder({ slow: 80, fast: 5, narration: 5 });
+
+    await new ActionScheduler().run(graph, recorder.run);
+
+    expect(recorder.events.indexOf('start scene')).toBeLessThan(recorder.events.indexOf('end slow'));
+    expect(recorder.events.indexOf('start scene')).toBeGreaterThan(recorder.events.indexOf('end narration'));
+  });
+
+  it('runs game actions after the assets they reference', async () => {
+    const graph = buildGraph([
+      { type: 'play_cutscene', cutscene_id: 'scene' },
+      image('img'),
+      subtitle('narration'),
+      cutscene('scene', 'img', 'narration')
+    ]);
+    const recorder = createRecorder();
+
+    await new ActionScheduler().run(graph, recorder.run);
+
+    expect(recorder.events.indexOf('start play_cutscene_0')).toBeGreaterThan(recorder.events.indexOf('end scene'));
+  });
+
+  it('updates node statuses as nodes run', async () => {
+    const graph = buildGraph([image('img'), subtitle('narration'), cutscene('scene', 'img', 'narration')]);
+    const statusesWhileRunning: string[] = [];
+
+    await new ActionScheduler().run(graph, async (_actionId, node) => {
+      statusesWhileRunning.push(node.status);
+    });
+
+    expect(statusesWhileRunning).toEqual(['executing', 'executing', 'executing']);
+    expect(Array.from(graph.nodes.values()).map(node => node.status)).toEqual(['completed', 'completed', 'completed']);
+  });
+
+  it('skips the transitive dependents of failed nodes', async () => {
+    const graph = buildGraph([
+      image('img'),
+      subtitle('narration'),
+      image('other'),
+      cutscene('scene', 'img', 'narration'),
+      { type: 'play_cutscene', cutscene_id: 'scene' }
+    ]);
+    const recorder = createRecorder();
+    const skipped: string[] = [];
+
+    await new ActionScheduler().run(graph, async (actionId, node) => {
+      if (actionId === 'img') {
+        throw new Error('Image failed');
+      }
+      await recorder.run(actionId, node);
+    }, {
+      onSkip: (actionId, _node, cause) => skipped.push(`${actionId} <- ${cause.type === 'dependency_failed' ? cause.failedActionId : ''}`)
+    });
+
+    expect(skipped).toEqual(['scene <- img', 'play_cutscene_4 <- img']);
+    expect(recorder.events).not.toContain('start scene');
+    expect(graph.nodes.get('img')!.status).toBe('failed');
+    expect(graph.nodes.get('scene')!.status).toBe('skipped');
+    expect(graph.nodes.get('play_cutscene_4')!.status).toBe('skipped');
+    expect(graph.nodes.get('narration')!.status).toBe('completed');
+    expect(graph.nodes.get('other')!.status).toBe('completed');
+  });
+
+  it('skips nodes that already ran and treats them as settled', async () => {
+    const graph = buildGraph([image('img'), subtitle('narration'), cutscene('scene', 'img', 'narration')]);
+    const recorder = createRecorder();
+
+    await new ActionScheduler().run(graph, recorder.run, { settled: ['img'] });
+
+    expect(recorder.events).not.toContain('start img');
+    expect(recorder.events).toContain('end scene');
+  });
+
+  it('skips dependents of nodes that already failed', async () => {
+    const graph = buildGraph([image('img'), subtitle('narration'), cutscene('scene', 'img', 'narration')]);
+    graph.nodes.get('img')!.status = 'failed';
+    const recorder = createRecorder();
+
+    await new ActionScheduler().run(graph, recorder.run, { settled: ['img'] });
+
+    expect(recorder.events).toEqual(['start narration', 'end narration']);
+    expect(graph.nodes.get('scene')!.status).toBe('skipped');
+  });
+
+  it('skips waiting nodes and drains running ones when cancelled', async () => {
+    const graph = buildGraph([image('a'), image('b'), subtitle('narration'), cutscene('scene', 'a', 'narration')]);
+    const controller = new AbortController();
+    const skipped: string[] = [];
+    const started: string[] = [];
+
+    const run = new ActionScheduler({ asset_image: 1 }).run(graph, async (actionId, node) => {
+      started.push(actionId);
+      await sleep(20);
+      if (node.action.type === 'asset_image') {
+        throw new Error('aborted');
+      }
+    }, {
+      signal: controller.signal,
+      onSkip: (actionId, _node, cause) => skipped.push(`${actionId}: ${cause.type}`)
+    });
+    await sleep(5);
+    controller.abort();
+    await run;
+
+    expect(started).toEqual(['a', 'narration']);
+    expect(skipped).toEqual(['b: cancelled', 'scene: cancelled']);
+    expect(graph.nodes.get('a')!.status).toBe('skipped');
+    expect(graph.nodes.get('narration')!.status).toBe('completed');
+  });
+
+  it('rejects invalid concurrency limits', () => {
+    expect(() => new ActionScheduler({ asset_image: 0 })).toThrow(/asset_image must be a positive integer/);
+  });
+});
+
+describe('executionWaves', () => {
+  it('groups nodes by how many dependency levels precede them', () => {
+    const graph = buildGraph([
+      { type: 'play_cutscene', cutscene_id: 'scene' },
+      image('img'),
+      subtitle('narration'),
+      cutscene('scene', 'img', 'narration'),
+      image('other')
+    ]);
+
+    expect(executionWaves(graph)).toEqual([['img', 'narration', 'other'], ['scene'], ['play_cutscene_0']]);
+  });
+});
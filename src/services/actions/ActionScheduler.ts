@@ -0,0 +1,180 @@
+/**
+ * ActionScheduler - Runs an action graph with as much parallelism as its dependencies allow
+ *
+ * Every node whose dependencies have settled is started immediately, up to a
+ * concurrency limit per action type, so independent images and subtitles
+ * generate side by side and a cutscene starts as soon as its own assets are
+ * done instead of waiting for the whole execution order ahead of it.
+ * Dependents of a failed node are skipped rather than run.
+ */
+
+import type { Action, ActionGraph, ActionNode } from './parser/types.js';
+
+/** Maximum number of actions of each type that may execute at the same time */
+export type ConcurrencyLimits = Partial<Record<Action['type'], number>>;
+
+export const DEFAULT_CONCURRENCY_LIMITS: ConcurrencyLimits = {
+  asset_image: 4,
+  asset_subtitle: 4,
+  asset_cutscene: 2
+};
+
+/** Runs one node; a rejected promise marks the node as failed */
+export type NodeRunner = (actionId: string, node: ActionNode) => Promise<void>;
+
+/** Why the scheduler did not start a node */
+export type SkipCause =
+  | { type: 'dependency_failed'; failedActionId: string }
+  | { type: 'cancelled' };
+
+export interface ScheduleOptions {
+  /**
+   * Nodes that already ran elsewhere; they are not executed again. Nodes
+   * whose status is 'failed' still skip their dependents.
+   */
+  settled?: Iterable<string>;
+  /** Stops starting nodes once aborted; nodes still waiting are skipped */
+  signal?: AbortSignal;
+  /**
+   * Called for every node that will not be started, either because a
+   * dependency failed or because the run was cancelled. For transitive
+   * dependents, `failedActionId` names the original failure rather than the
+   * skipped node in between.
+   */
+  onSkip?: (actionId: string, node: ActionNode, cause: SkipCause) => void;
+}
+
+export class ActionScheduler {
+  private limits: ConcurrencyLimits;
+
+  constructor(limits: ConcurrencyLimits = {}) {
+    this.limits = { ...DEFAULT_CONCURRENCY_LIMITS, ...limits };
+    for (const [type, limit] of Object.entries(this.limits)) {
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Concurrency limit for ${type} must be a positive integer, got ${limit}`);
+      }
+    }
+  }
+
+  /**
+   * Execute every node of the graph once all of its dependencies have settled
+   *
+   * Node statuses are updated in place: 'ready' once the dependencies have
+   * settled, 'executing' while running, then 'completed' or 'failed'.
+   * Dependents of failed nodes become 'skipped', as do nodes that were
+   * running or waiting when the signal was aborted. Ready nodes start in
+   * execution order whenever a slot for their type is free.
+   */
+  async run(graph: ActionGraph, runNode: NodeRunner, options: ScheduleOptions = {}): Promise<void> {
+    const settled = new Set(options.settled);
+    const waiting = graph.executionOrder.filter(actionId => graph.nodes.has(actionId) && !settled.has(actionId));
+    const running = new Map<Action['type'], number>();
+    const inFlight = new Set<Promise<void>>();
+
+    const isReady = (node: ActionNode): boolean =>
+      Array.from(node.dependencies).every(dep => settled.has(dep) || !graph.nodes.has(dep));
+
+    const skip = (actionId: string, cause: SkipCause): ActionNode => {
+      waiting.splice(waiting.indexOf(actionId), 1);
+      const node = graph.nodes.get(actionId)!;
+      node.status = 'skipped';
+      settled.add(actionId);
+      options.onSkip?.(actionId, node, cause);
+      return node;
+    };
+
+    const skipDependents = (failedActionId: string): void => {
+      const pending = Array.from(graph.nodes.get(failedActionId)?.dependents || []);
+      while (pending.length > 0) {
+        const actionId = pending.shift()!;
+        if (waiting.includes(actionId)) {
+          pending.push(...skip(actionId, { type: 'dependency_failed', failedActionId }).dependents);
+        }
+      }
+    };
+
+    const cancelWaiting = (): void => {
+      while (waiting.length > 0) {
+        skip(waiting[0], { type: 'cancelled' });
+      }
+    };
+
+    const startReady = (): void => {
+      if (options.signal?.aborted) {
+        cancelWaiting();
+        return;
+      }
+      for (let i = 0; i < waiting.length; i++) {
+        const actionId = waiting[i];
+        const node = graph.nodes.get(actionId)!;
+        if (!isReady(node)) continue;
+
+        node.status = 'ready';
+        const type = node.action.type;
+        const active = running.get(type) || 0;
+        if (active >= (this.limits[type] ?? Infinity)) continue;
+
+        waiting.splice(i--, 1);
+        running.set(type, active + 1);
+        node.status = 'executing';
+
+        const task = runNode(actionId, node)
+          .then(
+            () => { node.status = 'completed'; },
+            () => { node.status = options.signal?.aborted ? 'skipped' : 'failed'; }
+          )
+          .finally(() => {
+            running.set(type, (running.get(type) || 1) - 1);
+            settled.add(actionId);
+            inFlight.delete(task);
+            if (node.status === 'failed') {
+              skipDependents(actionId);
+            }
+            startReady();
+          });
+        inFlight.add(task);
+      }
+    };
+
+    for (const actionId of settled) {
+      if (graph.nodes.get(actionId)?.status === 'failed') {
+        skipDependents(actionId);
+      }
+    }
+    options.signal?.addEventListener('abort', cancelWaiting);
+    try {
+      startReady();
+      while (inFlight.size > 0) {
+        await Promise.race(inFlight);
+      }
+    } finally {
+      options.signal?.removeEventListener('abort', cancelWaiting);
+    }
+  }
+}
+
+/**
+ * Group the graph into waves: every node of a wave depends only on nodes of
+ * earlier waves, so a wave is what the scheduler could start at once if no
+ * concurrency limit applied. Nodes keep their execution order within a wave.
+ */
+export function executionWaves(graph: ActionGraph): string[][] {
+  const waveOf = new Map<string, number>();
+  const waves: string[][] = [];
+
+  for (const actionId of graph.executionOrder) {
+    const node = graph.nodes.get(actionId);
+    if (!node) continue;
+    let wave = 0;
+    for (const dep of node.dependencies) {
+      const depWave = waveOf.get(dep);
+      if (depWave !== undefined) {
+        wave = Math.max(wave, depWave + 1);
+      }
+    }
+    waveOf.set(actionId, wave);
+    (waves[wave] ||= []).push(actionId);
+  }
+
+  return waves;
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConditionalActionRegistry } from './ConditionalActionRegistry.js';
+import type { ConditionalFireEvent, GameStateSource } from './ConditionalActionRegistry.js';
+import { ActionProcessor } from './ActionProcessor.js';
+import { MockImageAssetExecutor, MockSubtitleAssetExecutor, MockCutsceneAssetExecutor, MockAssetStorage } from './executors/mocks.js';
+import type { WhenThenAction } from './parser/types.js';
+
+interface TestState {
+  game: { planet_just_created?: boolean; turn?: number };
+  species?: { primary?: { population?: number } };
+}
+
+// Minimal subscribable store, shaped like a zustand vanilla store
+function createStore(initial: TestState): GameStateSource<TestState> & { setState(next: TestState): void } {
+  let state = initial;
+  const listeners = new Set<(state: TestState) => void>();
+  return {
+    getState: () => state,
+    setState: (next) => {
+      state = next;
+      listeners.forEach(listener => listener(state));
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    }
+  };
+}
+
+const modal = (title: string) => ({
+  type: 'show_modal' as const,
+  title,
+  content: 'content',
+  image_id: null,
+  subtitle_id: null
+});
+
+describe('ConditionalActionRegistry', () => {
+  let fired: ConditionalFireEvent[];
+  let registry: ConditionalActionRegistry<TestState>;
+
+  beforeEach(() => {
+    fired = [];
+    registry = new ConditionalActionRegistry<TestState>({
+      onFire: (event) => fired.push(event)
+    });
+  });
+
+  it('fires the nested action once when the condition becomes true', () => {
+    const action: WhenThenAction = {
+      type: 'when_then',
+      id: 'populous',
+      condition: 'species.primary.population > 1000',
+      action: modal('Thriving')
+    };
+    registry.register(action);
+
+    registry.evaluate({ game: {}, species: { primary: { population: 10 } } });
+    expect(fired).toHaveLength(0);
+
+    registry.evaluate({ game: {}, species: { primary: { population: 5000 } } });
+    registry.evaluate({ game: {}, species: { primary: { population: 6000 } } });
+    registry.evaluate({ game: {}, species: { primary: { population: 10 } } });
+    registry.evaluate({ game: {}, species: { primary: { population: 5000 } } });
+
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ registrationId: 'populous', action: { title: 'Thriving' }, fireCount: 1 });
+    expect(registry.getRegistration('populous')?.retired).toBe(true);
+  });
+
+  it('fires on every false to true transition with every_transition', () => {
+    registry.register(
+      { type: 'when_then', condition: 'game.planet_just_created', action: modal('New world') },
+      { id: 'creation', repeat: 'every_transition', maxFires: 2 }
+    );
+
+    const states = [true, true, false, true, false, true];
+    states.forEach(value => registry.evaluate({ game: { planet_just_created: value } }));
+
+    expect(fired.map(event => event.fireCount)).toEqual([1, 2]);
+  });
+
+  it('subscribes to a game-state source and evaluates immediately', () => {
+    const store = createStore({ game: { turn: 3 } });
+    registry.register({ type: 'when_then', id: 'early', condition: 'game.turn < 5', action: modal('Early') });
+    registry.register({ type: 'when_then', id: 'late', condition: 'game.turn >= 10', action: modal('Late') });
+
+    const disconnect = registry.connect(store);
+    expect(fired.map(event => event.registrationId)).toEqual(['early']);
+
+    store.setState({ game: { turn: 12 } });
+    expect(fired.map(event => event.registrationId)).toEqual(['early', 'late']);
+
+    disconnect();
+    registry.register({ type: 'when_then', id: 'later', condition: 'game.turn > 20', action: modal('Later') });
+    store.setState({ game: { turn: 30 } });
+    expect(fired).toHaveLength(2);
+  });
+
+  it('registers nested when_then actions when the outer condition fires', () => {
+    registry.register({
+      type: 'when_then',
+      id: 'outer',
+      condition: 'game.planet_just_created',
+      action: { type: 'when_then', condition: 'game.turn > 1', action: modal('Inner') }
+    });
+
+    registry.evaluate({ game: { planet_just_created: true, turn: 0 } });
+    expect(fired).toHaveLength(0);
+    expect(registry.getRegistration('outer_then')).toBeDefined();
+
+    registry.evaluate({ game: { planet_just_created: true, turn: 2 } });
+    expect(fired).toHaveLength(1);
+    expect(fired[0].registrationId).toBe('outer_then');
+  });
+
+  it('rejects invalid conditions at registration time', () => {
+    expect(() => registry.register({ type: 'when_then', condition: 'game.turn >', action: modal('x') }))
+      .toThrow(/Invalid condition/);
+  });
+
+  it('ignores repeated registration of the same action object', () => {
+    const action: WhenThenAction = { type: 'when_then', condition: 'game.turn > 0', action: modal('x') };
+    const first = registry.register(action, { id: 'a' });
+    const second = registry.register(action, { id: 'a' });
+    expect(second).toBe(first);
+    expect(registry.getRegistrations()).toHaveLength(1);
+  });
+
+  it('keeps id-less actions of separately registered documents apart', () => {
+    const first = registry.registerAll([
+      modal('Ignored'),
+      { type: 'when_then', condition: 'game.planet_just_created', action: modal('First') }
+    ]);
+    const second = registry.registerAll([
+      { type: 'when_then', condition: 'game.planet_just_created', action: modal('Second') }
+    ]);
+
+    expect(new Set([...first, ...second]).size).toBe(2);
+
+    registry.evaluate({ game: { planet_just_created: true } });
+    expect(fired.map(event => (event.action as { title: string }).title)).toEqual(['First', 'Second']);
+  });
+
+  it('rejects a different action under an id that is already registered', () => {
+    registry.register({ type: 'when_then', condition: 'game.turn > 0', action: modal('x') }, { id: 'a' });
+
+    expect(() => registry.register({ type: 'when_then', condition: 'game.turn > 1', action: modal('y') }, { id: 'a' }))
+      .toThrow('A different conditional action is already registered as a');
+
+    registry.unregister('a');
+    expect(registry.register({ type: 'when_then', condition: 'game.turn > 1', action: modal('y') }, { id: 'a' })).toBe('a');
+  });
+
+  it('receives when_then actions from ActionProcessor', async () => {
+    const onFire = vi.fn();
+    const processorRegistry = new ConditionalActionRegistry({ onFire });
+    const processor = new ActionProcessor({
+      storage: new MockAssetStorage(),
+      executors: {
+        asset_image: new MockImageAssetExecutor(1),
+        asset_subtitle: new MockSubtitleAssetExecutor(1),
+        asset_cutscene: new MockCutsceneAssetExecutor(1)
+      },
+      conditionalRegistry: processorRegistry
+    });
+
+    const result = await processor.processActions({
+      actions: [
+        { type: 'when_then', condition: 'game.planet_just_created', action: modal('Welcome') }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+    expect(processorRegistry.getRegistrations().map(r => r.id)).toEqual(['when_then_0']);
+
+    processorRegistry.evaluate({ game: { planet_just_created: true } });
+    expect(onFire).toHaveBeenCalledTimes(1);
+    expect(onFire.mock.calls[0][0].action.title).toBe('Welcome');
+
+    // A second document's id-less action is registered next to the first
+    const next = await processor.processActions({
+      actions: [
+        { type: 'when_then', condition: 'game.planet_just_created', action: modal('Again') }
+      ]
+    });
+    expect(next.success).toBe(true);
+    expect(processorRegistry.getRegistrations()).toHaveLength(2);
+  });
+});
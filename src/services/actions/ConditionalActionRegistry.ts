@@ -0,0 +1,258 @@
+/**
+ * ConditionalActionRegistry - Runtime evaluator for when_then actions
+ *
+ * Stores registered when_then actions, watches a game-state source and fires
+ * each nested action when its condition becomes true. It has no React
+ * dependency so it can be driven directly from tests or from a store.
+ * Registrations fire when their condition turns true, not while it stays true.
+ */
+
+import type { Action, ConditionExpression, WhenThenAction } from './parser/types.js';
+import { parseCondition, evaluateCondition } from './parser/conditions.js';
+import { ConditionSyntaxError, InvalidConditionError } from './parser/errors.js';
+
+/**
+ * How often a registration may fire
+ * - 'once': fire the first time the condition is true, then retire
+ * - 'every_transition': fire every time the condition flips from false to true
+ */
+export type ConditionalRepeatPolicy = 'once' | 'every_transition';
+
+/**
+ * Minimal game-state source the registry can subscribe to.
+ * A zustand store (vanilla or React) satisfies this interface.
+ */
+export interface GameStateSource<S = unknown> {
+  getState(): S;
+  subscribe(listener: (state: S) => void): () => void;
+}
+
+export interface ConditionalFireEvent {
+  registrationId: string;
+  action: Action;
+  source: WhenThenAction;
+  fireCount: number;
+}
+
+export interface ConditionalActionRegistryOptions {
+  /** Called with the nested action each time a registration fires */
+  onFire: (event: ConditionalFireEvent) => void;
+  /** Policy used when register() does not specify one (default: 'once') */
+  defaultRepeat?: ConditionalRepeatPolicy;
+}
+
+export interface RegisterConditionalOptions {
+  /** Registration id for actions without their own `id` */
+  id?: string;
+  repeat?: ConditionalRepeatPolicy;
+  /** Upper bound on fires for 'every_transition' */
+  maxFires?: number;
+}
+
+export interface ConditionalRegistration {
+  id: string;
+  action: WhenThenAction;
+  condition: ConditionExpression;
+  repeat: ConditionalRepeatPolicy;
+  maxFires: number;
+  fireCount: number;
+  lastResult: boolean;
+  retired: boolean;
+}
+
+export class ConditionalActionRegistry<S = unknown> {
+  private registrations: Map<string, ConditionalRegistration>;
+  private onFire: (event: ConditionalFireEvent) => void;
+  private defaultRepeat: ConditionalRepeatPolicy;
+  private source: GameStateSource<S> | null;
+  private unsubscribe: (() => void) | null;
+  private syntheticCounter: number;
+
+  constructor(options: ConditionalActionRegistryOptions) {
+    this.registrations = new Map();
+    this.onFire = options.onFire;
+    this.defaultRepeat = options.defaultRepeat || 'once';
+    this.source = null;
+    this.unsubscribe = null;
+    this.syntheticCounter = 0;
+  }
+
+  /**
+   * Register a when_then action
+   *
+   * The condition is parsed once up front; an invalid condition throws an
+   * InvalidConditionError instead of silently never firing. Registering the
+   * same action object twice returns the existing registration id; a
+   * different action under an id that is already registered throws (call
+   * unregister() first to replace it).
+   *
+   * @returns Registration id (the action's id, options.id, or a synthetic id)
+   */
+  register(action: WhenThenAction, options: RegisterConditionalOptions = {}): string {
+    const registration = this.addRegistration(action, options);
+
+    // Evaluate immediately so conditions that already hold fire without
+    // waiting for the next state change
+    if (this.source) {
+      this.evaluateRegistration(registration, this.source.getState());
+    }
+
+    return registration.id;
+  }
+
+  private addRegistration(action: WhenThenAction, options: RegisterConditionalOptions): ConditionalRegistration {
+    const id = action.id || options.id || this.nextSyntheticId();
+
+    const existing = this.registrations.get(id);
+    if (existing) {
+      if (existing.action === action) {
+        return existing;
+      }
+      throw new Error(`A different conditional action is already registered as ${id}`);
+    }
+
+    let condition: ConditionExpression;
+    try {
+      condition = parseCondition(action.condition);
+    } catch (error) {
+      const syntaxError = error instanceof ConditionSyntaxError ? error : undefined;
+      throw new InvalidConditionError(action.condition, undefined, action.id, syntaxError);
+    }
+
+    const repeat = options.repeat || this.defaultRepeat;
+    const registration: ConditionalRegistration = {
+      id,
+      action,
+      condition,
+      repeat,
+      maxFires: repeat === 'once' ? 1 : options.maxFires ?? Infinity,
+      fireCount: 0,
+      lastResult: false,
+      retired: false
+    };
+    this.registrations.set(id, registration);
+    return registration;
+  }
+
+  /**
+   * Register every top-level when_then action in a document
+   *
+   * Actions without an id get synthetic ids, so documents registered one
+   * after another never replace each other's registrations.
+   */
+  registerAll(actions: Action[]): string[] {
+    const ids: string[] = [];
+    for (const action of actions) {
+      if (action.type === 'when_then') {
+        ids.push(this.register(action));
+      }
+    }
+    return ids;
+  }
+
+  private nextSyntheticId(): string {
+    let id: string;
+    do {
+      id = `when_then_${this.syntheticCounter++}`;
+    } while (this.registrations.has(id));
+    return id;
+  }
+
+  unregister(id: string): boolean {
+    return this.registrations.delete(id);
+  }
+
+  /**
+   * Subscribe to a game-state source and evaluate on every change
+   *
+   * @returns Function that disconnects the source again
+   */
+  connect(source: GameStateSource<S>): () => void {
+    this.disconnect();
+    this.source = source;
+    this.unsubscribe = source.subscribe(state => {
+      this.evaluate(state);
+    });
+    this.evaluate(source.getState());
+    return () => this.disconnect();
+  }
+
+  disconnect(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+    }
+    this.unsubscribe = null;
+    this.source = null;
+  }
+
+  /**
+   * Evaluate all active registrations against a state snapshot
+   *
+   * Can be called directly when no source is connected (e.g. in tests).
+   *
+   * @returns The fire events produced by this evaluation
+   */
+  evaluate(state: S): ConditionalFireEvent[] {
+    const fired: ConditionalFireEvent[] = [];
+    // Snapshot the registrations: firing may register nested when_then actions
+    for (const registration of Array.from(this.registrations.values())) {
+      const event = this.evaluateRegistration(registration, state);
+      if (event) {
+        fired.push(event);
+      }
+    }
+    return fired;
+  }
+
+  getRegistration(id: string): ConditionalRegistration | undefined {
+    const registration = this.registrations.get(id);
+    return registration ? { ...registration } : undefined;
+  }
+
+  getRegistrations(): ConditionalRegistration[] {
+    return Array.from(this.registrations.values()).map(registration => ({ ...registration }));
+  }
+
+  /**
+   * Remove all registrations (the source stays connected)
+   */
+  clear(): void {
+    this.registrations.clear();
+  }
+
+  private evaluateRegistration(registration: ConditionalRegistration, state: S): ConditionalFireEvent | null {
+    if (registration.retired) {
+      return null;
+    }
+
+    const result = evaluateCondition(registration.condition, state);
+    const becameTrue = result && !registration.lastResult;
+    registration.lastResult = result;
+
+    if (!becameTrue) {
+      return null;
+    }
+
+    registration.fireCount++;
+    if (registration.fireCount >= registration.maxFires) {
+      registration.retired = true;
+    }
+
+    const event: ConditionalFireEvent = {
+      registrationId: registration.id,
+      action: registration.action.action,
+      source: registration.action,
+      fireCount: registration.fireCount
+    };
+
+    // Nested when_then actions become live registrations of their own
+    if (event.action.type === 'when_then') {
+      const nested = this.addRegistration(event.action, { id: `${registration.id}_then` });
+      this.evaluateRegistration(nested, state);
+    } else {
+      this.onFire(event);
+    }
+
+    return event;
+  }
+}
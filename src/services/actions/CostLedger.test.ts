@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { CostLedger } from './CostLedger.js';
+
+const entry = {
+  runId: 'run_1',
+  actionId: 'img',
+  type: 'image' as const,
+  model: 'sdxl',
+  units: 1,
+  cost: 0.009,
+  cacheHit: false
+};
+
+describe('CostLedger', () => {
+  it('prices usage with the default table and overrides', () => {
+    const ledger = new CostLedger({ prices: { sdxl: 0.01, 'custom-model': 0.5 } });
+
+    expect(ledger.price('sdxl', 2)).toBe(0.02);
+    expect(ledger.price('openai-tts', 1_000_000)).toBeCloseTo(15);
+    expect(ledger.price('custom-model', 1)).toBe(0.5);
+    expect(ledger.price('unknown', 1)).toBeUndefined();
+    expect(ledger.price('toString', 1)).toBeUndefined();
+  });
+
+  it('records cache hits at no cost', () => {
+    const ledger = new CostLedger();
+
+    expect(ledger.record({ ...entry, cacheHit: true, timestamp: 5 })).toEqual({ ...entry, cacheHit: true, cost: 0, timestamp: 5 });
+  });
+
+  it('totals records by type, model, run and planet', () => {
+    const ledger = new CostLedger();
+    ledger.record({ ...entry, planetId: 'kepler' });
+    ledger.record({ ...entry, actionId: 'voice', type: 'tts', model: 'openai-tts', units: 1000, cost: 0.015, planetId: 'kepler' });
+    ledger.record({ ...entry, runId: 'run_2', planetId: 'gliese' });
+    ledger.record({ ...entry, runId: 'run_2', actionId: 'again', cacheHit: true });
+
+    const totals = ledger.getTotals();
+    expect(totals.total).toBeCloseTo(0.033);
+    expect(totals).toMatchObject({ count: 4, cacheHits: 1 });
+    expect(totals.byType.image).toEqual({ count: 3, cost: 0.018 });
+    expect(totals.byType.cutscene).toEqual({ count: 0, cost: 0 });
+    expect(totals.byModel['openai-tts']).toEqual({ count: 1, cost: 0.015 });
+    expect(ledger.getTotals({ runId: 'run_2' }).total).toBe(0.009);
+    expect(ledger.getTotals({ planetId: 'kepler' }).count).toBe(2);
+    expect(ledger.getPlanetTotals()).toEqual({ kepler: 0.024, gliese: 0.009 });
+  });
+
+  it('filters records by time', () => {
+    const ledger = new CostLedger();
+    ledger.record({ ...entry, actionId: 'old', timestamp: 1000 });
+    ledger.record({ ...entry, actionId: 'new', timestamp: 2000 });
+
+    expect(ledger.getRecords({ since: 1500 }).map(record => record.actionId)).toEqual(['new']);
+  });
+
+  it('exports records as CSV', () => {
+    const ledger = new CostLedger();
+    ledger.record({ ...entry, timestamp: Date.UTC(2026, 0, 2, 3, 4, 5), planetId: 'Kepler, "b"' });
+    ledger.record({ ...entry, actionId: 'hit', cacheHit: true, timestamp: 0 });
+
+    expect(ledger.toCSV()).toBe(
+      'timestamp,runId,planetId,actionId,type,model,units,cost,cacheHit\n' +
+      '2026-01-02T03:04:05.000Z,run_1,"Kepler, ""b""",img,image,sdxl,1,0.009,false\n' +
+      '1970-01-01T00:00:00.000Z,run_1,,hit,image,sdxl,1,0,true\n'
+    );
+    expect(new CostLedger().toCSV()).toBe('timestamp,runId,planetId,actionId,type,model,units,cost,cacheHit\n');
+  });
+
+  it('exports records as JSON', () => {
+    const ledger = new CostLedger();
+    const record = ledger.record({ ...entry, timestamp: 1000 });
+    ledger.record({ ...entry, runId: 'run_2', timestamp: 2000 });
+
+    expect(JSON.parse(ledger.toJSON({ runId: 'run_1' }))).toEqual([record]);
+  });
+
+  it('forgets records on clear', () => {
+    const ledger = new CostLedger();
+    ledger.record(entry);
+    ledger.clear();
+
+    expect(ledger.getRecords()).toEqual([]);
+    expect(ledger.getTotals().total).toBe(0);
+  });
+
+  it('rejects invalid prices', () => {
+    expect(() => new CostLedger({ prices: { sdxl: -1 } })).toThrow(/Price for sdxl must be a non-negative number/);
+  });
+});
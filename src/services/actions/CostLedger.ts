@@ -0,0 +1,172 @@
+/**
+ * CostLedger - Itemized record of what asset generation cost
+ *
+ * Every asset action that settles adds one CostRecord: which model produced
+ * it, how many billable units it used (images, characters), what that cost
+ * and whether it was served from the cache instead. Totals for a run, a
+ * planet or the whole session are computed from the records, and the
+ * records can be exported as CSV or JSON to reconcile with provider
+ * invoices. Reported usage is priced with the ledger's price table.
+ */
+
+import type { AssetType, CostRecord } from './executors/types.js';
+
+/** USD per billable unit, by model: per image for image models, per character for TTS models */
+export type PriceTable = Record<string, number>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  'flux-schnell': 0, // Currently free via Together AI
+  sdxl: 0.009,
+  'openai-tts': 15 / 1_000_000,
+  'google-tts': 4 / 1_000_000
+};
+
+export interface CostTotals {
+  total: number;
+  /** Records in the selection, cache hits included */
+  count: number;
+  cacheHits: number;
+  byType: Record<AssetType, { count: number; cost: number }>;
+  byModel: Record<string, { count: number; cost: number }>;
+}
+
+/** Narrows which records a query covers; omitted fields match everything */
+export interface CostFilter {
+  runId?: string;
+  planetId?: string;
+  /** Epoch milliseconds; only records at or after this time */
+  since?: number;
+}
+
+export interface CostLedgerOptions {
+  /** Merged over DEFAULT_PRICES */
+  prices?: PriceTable;
+}
+
+const CSV_COLUMNS = [
+  'timestamp',
+  'runId',
+  'planetId',
+  'actionId',
+  'type',
+  'model',
+  'units',
+  'cost',
+  'cacheHit'
+] as const satisfies readonly (keyof CostRecord)[];
+
+export class CostLedger {
+  private records: CostRecord[];
+  private prices: PriceTable;
+
+  constructor(options: CostLedgerOptions = {}) {
+    this.records = [];
+    this.prices = { ...DEFAULT_PRICES, ...options.prices };
+
+    for (const [model, price] of Object.entries(this.prices)) {
+      if (!Number.isFinite(price) || price < 0) {
+        throw new Error(`Price for ${model} must be a non-negative number, got ${price}`);
+      }
+    }
+  }
+
+  /**
+   * Cost of `units` of a model according to the price table, or undefined
+   * when the table has no price for it
+   */
+  price(model: string, units: number): number | undefined {
+    const unitPrice = Object.prototype.hasOwnProperty.call(this.prices, model) ? this.prices[model] : undefined;
+    return unitPrice === undefined ? undefined : unitPrice * units;
+  }
+
+  /**
+   * Add a record; cache hits are always recorded at cost 0
+   *
+   * @param entry.timestamp - Defaults to now
+   */
+  record(entry: Omit<CostRecord, 'timestamp'> & { timestamp?: number }): CostRecord {
+    const record: CostRecord = {
+      ...entry,
+      timestamp: entry.timestamp ?? Date.now(),
+      cost: entry.cacheHit ? 0 : entry.cost
+    };
+    this.records.push(record);
+    return record;
+  }
+
+  /** Records matching the filter, oldest first */
+  getRecords(filter: CostFilter = {}): CostRecord[] {
+    return this.records.filter(record =>
+      (filter.runId === undefined || record.runId === filter.runId) &&
+      (filter.planetId === undefined || record.planetId === filter.planetId) &&
+      (filter.since === undefined || record.timestamp >= filter.since)
+    );
+  }
+
+  getTotals(filter: CostFilter = {}): CostTotals {
+    const totals: CostTotals = {
+      total: 0,
+      count: 0,
+      cacheHits: 0,
+      byType: {
+        image: { count: 0, cost: 0 },
+        tts: { count: 0, cost: 0 },
+        cutscene: { count: 0, cost: 0 }
+      },
+      byModel: {}
+    };
+
+    for (const record of this.getRecords(filter)) {
+      totals.total += record.cost;
+      totals.count++;
+      if (record.cacheHit) {
+        totals.cacheHits++;
+      }
+      totals.byType[record.type].count++;
+      totals.byType[record.type].cost += record.cost;
+      const model = (totals.byModel[record.model] ??= { count: 0, cost: 0 });
+      model.count++;
+      model.cost += record.cost;
+    }
+    return totals;
+  }
+
+  /** Total cost per planet, for records made while generating for one */
+  getPlanetTotals(): Record<string, number> {
+    const totals: Record<string, number> = {};
+    for (const record of this.records) {
+      if (record.planetId !== undefined) {
+        totals[record.planetId] = (totals[record.planetId] || 0) + record.cost;
+      }
+    }
+    return totals;
+  }
+
+  /**
+   * Records as CSV with a header row; timestamps are ISO 8601 and costs USD
+   */
+  toCSV(filter: CostFilter = {}): string {
+    const rows = this.getRecords(filter).map(record =>
+      CSV_COLUMNS.map(column => {
+        const value = record[column];
+        if (column === 'timestamp') return new Date(record.timestamp).toISOString();
+        return value === undefined ? '' : csvField(String(value));
+      }).join(',')
+    );
+    return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+  }
+
+  /** Records as a JSON array, timestamps in epoch milliseconds */
+  toJSON(filter: CostFilter = {}): string {
+    return JSON.stringify(this.getRecords(filter), null, 2);
+  }
+
+  clear(): void {
+    this.records = [];
+  }
+}
+
+/** Quote a CSV field when it contains a separator, quote or line break */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+import { GameActionDispatcher, isDispatchableAction } from './GameActionDispatcher.js';
+import type { AddFeatureAction, AddPlayerChoiceAction, RemoveFeatureAction, ShowModalAction } from './parser/types.js';
+
+const modal = (title: string): ShowModalAction => ({
+  type: 'show_modal',
+  title,
+  content: `${title} content`,
+  image_id: null,
+  subtitle_id: null
+});
+
+const addGills: AddFeatureAction = { type: 'add_feature', feature_type: 'gills', feature_data: {}, target: 'species_1' };
+const removeFins: RemoveFeatureAction = { type: 'remove_feature', feature_type: 'fins', target: 'species_1' };
+
+const choice: AddPlayerChoiceAction = {
+  type: 'add_player_choice',
+  id: 'path',
+  prompt: 'Which way?',
+  options: [
+    { label: 'Left', description: 'Go left', reactions: [] },
+    { label: 'Right', description: 'Go right', reactions: [] }
+  ]
+};
+
+/** Let queued handlers run */
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('GameActionDispatcher', () => {
+  it('holds back queued actions until the active presentation is resolved', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const first = dispatcher.dispatch(modal('First'), 'm1');
+    const second = dispatcher.dispatch({ type: 'play_cutscene', cutscene_id: 'intro' }, 'c1');
+    await flush();
+
+    expect(dispatcher.getActive()).toEqual({ id: 'm1', action: modal('First') });
+    expect(dispatcher.getQueueLength()).toBe(1);
+
+    dispatcher.resolve('m1');
+    expect(await first).toEqual({ id: 'm1', status: 'completed', value: undefined });
+    await flush();
+    expect(dispatcher.getActive()?.id).toBe('c1');
+
+    dispatcher.resolve('c1', 'skipped');
+    expect(await second).toEqual({ id: 'c1', status: 'completed', value: 'skipped' });
+    expect(dispatcher.getActive()).toBeNull();
+  });
+
+  it('ignores resolve calls for presentations that are not active', async () => {
+    const dispatcher = new GameActionDispatcher();
+    void dispatcher.dispatch(modal('Only'), 'm1');
+    await flush();
+
+    dispatcher.resolve('stale');
+    expect(dispatcher.getActive()?.id).toBe('m1');
+  });
+
+  it('notifies subscribers when the active presentation changes', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const listener = vi.fn();
+    const unsubscribe = dispatcher.subscribe(listener);
+
+    void dispatcher.dispatch(modal('Hello'), 'm1');
+    await flush();
+    dispatcher.resolve('m1');
+    unsubscribe();
+    void dispatcher.dispatch(modal('Again'), 'm2');
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs registered handlers in dispatch order', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const features: string[] = [];
+    dispatcher.register('add_feature', async action => {
+      await flush();
+      features.push(`+${action.feature_type}`);
+    });
+    dispatcher.register('remove_feature', action => {
+      features.push(`-${action.feature_type}`);
+    });
+
+    await Promise.all([
+      dispatcher.dispatch(addGills),
+      dispatcher.dispatch(removeFins)
+    ]);
+
+    expect(features).toEqual(['+gills', '-fins']);
+  });
+
+  it('reports actions without a handler and keeps going', async () => {
+    const onError = vi.fn();
+    const dispatcher = new GameActionDispatcher({ onError });
+    const handled = vi.fn();
+    dispatcher.register('remove_feature', handled);
+
+    const failed = await dispatcher.dispatch(addGills);
+    const next = await dispatcher.dispatch(removeFins);
+
+    expect(failed).toMatchObject({ id: 'add_feature_0', status: 'failed', error: { message: 'No handler registered for add_feature' } });
+    expect(onError).toHaveBeenCalledWith(failed.error, expect.objectContaining({ type: 'add_feature' }));
+    expect(next.status).toBe('completed');
+    expect(handled).toHaveBeenCalledOnce();
+  });
+
+  it('restores the previous handler when a registration is undone', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const custom = vi.fn(() => 'custom');
+    const restore = dispatcher.register('show_modal', custom);
+
+    expect(await dispatcher.dispatch(modal('Custom'))).toMatchObject({ status: 'completed', value: 'custom' });
+
+    restore();
+    void dispatcher.dispatch(modal('Default'), 'm1');
+    await flush();
+    expect(dispatcher.getActive()?.id).toBe('m1');
+    expect(custom).toHaveBeenCalledOnce();
+  });
+
+  it('reports the option the player picked', async () => {
+    const onChoice = vi.fn();
+    const dispatcher = new GameActionDispatcher({ onChoice });
+    const result = dispatcher.dispatch(choice, 'path');
+    await flush();
+
+    dispatcher.resolve('path', 1);
+
+    expect(await result).toEqual({ id: 'path', status: 'completed', value: 1 });
+    expect(onChoice).toHaveBeenCalledWith({ id: 'path', action: choice, optionIndex: 1, option: choice.options[1] });
+  });
+
+  it('fails a choice resolved with an option that does not exist', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const result = dispatcher.dispatch(choice, 'path');
+    await flush();
+
+    dispatcher.resolve('path', 5);
+
+    expect(await result).toMatchObject({ status: 'failed', error: { message: 'Choice path has no option 5' } });
+  });
+
+  it('cancels the active presentation and everything queued on clear', async () => {
+    const dispatcher = new GameActionDispatcher();
+    const first = dispatcher.dispatch(modal('First'), 'm1');
+    const second = dispatcher.dispatch(modal('Second'), 'm2');
+    await flush();
+
+    dispatcher.clear();
+
+    expect(await first).toEqual({ id: 'm1', status: 'cancelled' });
+    expect(await second).toEqual({ id: 'm2', status: 'cancelled' });
+    expect(dispatcher.getActive()).toBeNull();
+    expect(dispatcher.getQueueLength()).toBe(0);
+  });
+});
+
+describe('isDispatchableAction', () => {
+  it('accepts game actions other than when_then', () => {
+    expect(isDispatchableAction(modal('Hi'))).toBe(true);
+    expect(isDispatchableAction({ type: 'play_cutscene', cutscene_id: 'intro' })).toBe(true);
+    expect(isDispatchableAction({ type: 'reason', ephemeral_reasoning: 'why' })).toBe(false);
+    expect(isDispatchableAction({ type: 'when_then', condition: 'true', action: modal('Later') })).toBe(false);
+  });
+});
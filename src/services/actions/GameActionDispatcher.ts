@@ -0,0 +1,261 @@
+/**
+ * GameActionDispatcher - Runs game actions produced by a processed document
+ *
+ * Game actions (show_modal, play_cutscene, add_player_choice, add_feature,
+ * remove_feature) are handed to the dispatcher, which runs them one after
+ * another through a handler registered per action type. It has no React
+ * dependency; the UI observes it through subscribe() and getActive().
+ *
+ * UI actions are presented until the UI calls resolve(). add_feature and
+ * remove_feature have no default handler, since the app has no game-state
+ * store for them yet; until one registers handlers they fail.
+ */
+
+import type { Action, GameAction, AddPlayerChoiceAction, PlayerChoiceOption } from './parser/types.js';
+import { toError } from '../../utils/errors.js';
+
+/** Game actions the dispatcher runs (when_then goes to the ConditionalActionRegistry) */
+export type DispatchableAction = Exclude<GameAction, { type: 'when_then' }>;
+
+export type DispatchableActionType = DispatchableAction['type'];
+
+const DISPATCHABLE_TYPES: ReadonlySet<string> = new Set<DispatchableActionType>([
+  'play_cutscene',
+  'show_modal',
+  'add_feature',
+  'remove_feature',
+  'add_player_choice'
+]);
+
+export function isDispatchableAction(action: Action): action is DispatchableAction {
+  return DISPATCHABLE_TYPES.has(action.type);
+}
+
+export type GameActionHandler<A extends DispatchableAction = DispatchableAction> = (
+  action: A,
+  meta: { id: string }
+) => unknown;
+
+/** A UI action waiting for the player */
+export interface Presentation {
+  id: string;
+  action: DispatchableAction;
+}
+
+export interface DispatchResult {
+  id: string;
+  status: 'completed' | 'failed' | 'cancelled';
+  /** What the handler returned (the option index for player choices) */
+  value?: unknown;
+  error?: Error;
+}
+
+export interface PlayerChoiceEvent {
+  id: string;
+  action: AddPlayerChoiceAction;
+  optionIndex: number;
+  option: PlayerChoiceOption;
+}
+
+export interface GameActionDispatcherOptions {
+  /** Called when the player picks an option of an add_player_choice */
+  onChoice?: (event: PlayerChoiceEvent) => void;
+  /** Called when a handler throws or no handler is registered */
+  onError?: (error: Error, action: DispatchableAction) => void;
+}
+
+/** Rejection used for presentations that were dropped by clear() */
+class PresentationCancelledError extends Error {
+  constructor() {
+    super('Presentation cancelled');
+    this.name = 'PresentationCancelledError';
+  }
+}
+
+interface QueuedAction {
+  id: string;
+  action: DispatchableAction;
+  resolve: (result: DispatchResult) => void;
+}
+
+export class GameActionDispatcher {
+  private handlers: Map<DispatchableActionType, GameActionHandler>;
+  private queue: QueuedAction[];
+  private draining: boolean;
+  private active: Presentation | null;
+  private settleActive: { resolve: (value: unknown) => void; reject: (error: Error) => void } | null;
+  private listeners: Set<() => void>;
+  private options: GameActionDispatcherOptions;
+  private syntheticCounter: number;
+
+  constructor(options: GameActionDispatcherOptions = {}) {
+    this.handlers = new Map();
+    this.queue = [];
+    this.draining = false;
+    this.active = null;
+    this.settleActive = null;
+    this.listeners = new Set();
+    this.options = options;
+    this.syntheticCounter = 0;
+
+    this.handlers.set('show_modal', (action, meta) => this.present(action, meta.id));
+    this.handlers.set('play_cutscene', (action, meta) => this.present(action, meta.id));
+    this.handlers.set('add_player_choice', (action, meta) =>
+      this.presentChoice(action as AddPlayerChoiceAction, meta.id)
+    );
+  }
+
+  /**
+   * Handle an action type, replacing the current handler
+   *
+   * @returns A function that restores the previous handler
+   */
+  register<T extends DispatchableActionType>(
+    type: T,
+    handler: GameActionHandler<Extract<DispatchableAction, { type: T }>>
+  ): () => void {
+    const previous = this.handlers.get(type);
+    const registered = handler as GameActionHandler;
+    this.handlers.set(type, registered);
+    return () => {
+      if (this.handlers.get(type) !== registered) return;
+      if (previous) {
+        this.handlers.set(type, previous);
+      } else {
+        this.handlers.delete(type);
+      }
+    };
+  }
+
+  /**
+   * Queue an action; it runs once every action dispatched before it is done
+   *
+   * The returned promise never rejects: failures are reported in the result
+   * (and to options.onError).
+   *
+   * @param id - Identifies the action in presentations and results (defaults to a synthetic id)
+   */
+  dispatch(action: DispatchableAction, id?: string): Promise<DispatchResult> {
+    return new Promise(resolve => {
+      this.queue.push({ id: id || `${action.type}_${this.syntheticCounter++}`, action, resolve });
+      void this.drain();
+    });
+  }
+
+  /**
+   * Show an action to the player and wait until the UI resolves it
+   *
+   * Used by the default UI handlers; custom handlers can use it to present
+   * actions the same way.
+   */
+  present(action: DispatchableAction, id: string): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      this.active = { id, action };
+      this.settleActive = { resolve, reject };
+      this.notify();
+    });
+  }
+
+  /**
+   * Finish the active presentation (modal closed, cutscene ended, option picked)
+   *
+   * Ignored unless `id` is the active presentation, so a late click on a
+   * presentation that was already replaced does nothing.
+   */
+  resolve(id: string, value?: unknown): void {
+    if (!this.active || this.active.id !== id) return;
+    const settle = this.settleActive!;
+    this.active = null;
+    this.settleActive = null;
+    this.notify();
+    settle.resolve(value);
+  }
+
+  /** The presentation the UI should show, or null */
+  getActive(): Presentation | null {
+    return this.active;
+  }
+
+  /** Actions waiting behind the one currently running */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Drop every queued action and the active presentation
+   *
+   * Their dispatch() promises resolve with status 'cancelled'. Useful when a
+   * new document replaces the one being played.
+   */
+  clear(): void {
+    for (const queued of this.queue.splice(0)) {
+      queued.resolve({ id: queued.id, status: 'cancelled' });
+    }
+    if (this.settleActive) {
+      const settle = this.settleActive;
+      this.active = null;
+      this.settleActive = null;
+      this.notify();
+      settle.reject(new PresentationCancelledError());
+    }
+  }
+
+  /**
+   * Get notified whenever the active presentation changes
+   *
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.queue.length > 0) {
+        const queued = this.queue.shift()!;
+        queued.resolve(await this.run(queued));
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private async run({ id, action }: QueuedAction): Promise<DispatchResult> {
+    const handler = this.handlers.get(action.type);
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for ${action.type}`);
+      }
+      const value = await handler(action, { id });
+      return { id, status: 'completed', value };
+    } catch (error) {
+      if (error instanceof PresentationCancelledError) {
+        return { id, status: 'cancelled' };
+      }
+      const failure = toError(error, `Game action ${action.type} failed`);
+      this.options.onError?.(failure, action);
+      return { id, status: 'failed', error: failure };
+    }
+  }
+
+  private async presentChoice(action: AddPlayerChoiceAction, id: string): Promise<number> {
+    const optionIndex = await this.present(action, id);
+    const option = typeof optionIndex === 'number' ? action.options[optionIndex] : undefined;
+    if (!option) {
+      throw new Error(`Choice ${id} has no option ${String(optionIndex)}`);
+    }
+    this.options.onChoice?.({ id, action, optionIndex: optionIndex as number, option });
+    return optionIndex as number;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TokenBucketRateLimiter } from './TokenBucketRateLimiter.js';
+
+/** Acquire a slot and record when it was granted */
+function track(limiter: TokenBucketRateLimiter, granted: string[], name: string, signal?: AbortSignal) {
+  return limiter.acquire('image_generation', signal).then(() => {
+    granted.push(name);
+  });
+}
+
+describe('TokenBucketRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('lets a burst through and then spaces requests by the refill rate', async () => {
+    const limiter = new TokenBucketRateLimiter({ image_generation: { requestsPerMinute: 2, maxConcurrent: 10 } });
+    const granted: string[] = [];
+
+    void track(limiter, granted, 'a');
+    void track(limiter, granted, 'b');
+    void track(limiter, granted, 'c');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(['a', 'b']);
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(granted).toEqual(['a', 'b']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual(['a', 'b', 'c']);
+  });
+
+  it('limits requests in flight until they are released', async () => {
+    const limiter = new TokenBucketRateLimiter({ image_generation: { maxConcurrent: 1 } });
+    const granted: string[] = [];
+
+    void track(limiter, granted, 'a');
+    void track(limiter, granted, 'b');
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(granted).toEqual(['a']);
+    expect(limiter.getUsage('image_generation')).toEqual({ active: 1, waiting: 1 });
+
+    limiter.release('image_generation');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual(['a', 'b']);
+  });
+
+  it('keeps separate limits per resource', async () => {
+    const limiter = new TokenBucketRateLimiter({ image_generation: { requestsPerMinute: 1 } });
+    await limiter.acquire('image_generation');
+
+    await expect(limiter.acquire('tts_generation')).resolves.toBeUndefined();
+    expect(limiter.getUsage('image_generation')).toEqual({ active: 1, waiting: 0 });
+    expect(limiter.getUsage('tts_generation')).toEqual({ active: 1, waiting: 0 });
+  });
+
+  it('grants waiting requests in arrival order', async () => {
+    const limiter = new TokenBucketRateLimiter({ image_generation: { requestsPerMinute: 1, maxConcurrent: 10 } });
+    const granted: string[] = [];
+
+    for (const name of ['a', 'b', 'c']) {
+      void track(limiter, granted, name);
+    }
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(granted).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects a waiting request when its signal is aborted and moves on to the next', async () => {
+    const limiter = new TokenBucketRateLimiter({ image_generation: { requestsPerMinute: 1, maxConcurrent: 10 } });
+    const controller = new AbortController();
+    const granted: string[] = [];
+    await limiter.acquire('image_generation');
+
+    const aborted = track(limiter, granted, 'aborted', controller.signal);
+    void track(limiter, granted, 'next');
+    controller.abort();
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(granted).toEqual(['next']);
+    await expect(limiter.acquire('image_generation', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('refills the bucket on reset', async () => {
+    const limiter = new TokenBucketRateLimiter({ image_generation: { requestsPerMinute: 1, maxConcurrent: 1 } });
+    const granted: string[] = [];
+    await limiter.acquire('image_generation');
+
+    void track(limiter, granted, 'a');
+    limiter.reset('image_generation');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(granted).toEqual(['a']);
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => new TokenBucketRateLimiter({ tts_generation: { requestsPerMinute: 0 } }))
+      .toThrow(/requestsPerMinute for tts_generation must be a positive integer/);
+    expect(() => new TokenBucketRateLimiter({ image_generation: { maxConcurrent: 1.5 } })).toThrow(/maxConcurrent/);
+  });
+});
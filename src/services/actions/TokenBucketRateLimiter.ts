@@ -0,0 +1,164 @@
+/**
+ * TokenBucketRateLimiter - Keeps executors within each provider's rate limits
+ *
+ * Every rate-limited resource (image generation, text-to-speech) has its own
+ * token bucket and concurrency limit. acquire() resolves once the bucket has
+ * a token and fewer than maxConcurrent requests are in flight; release()
+ * hands the concurrency slot back when the request is done. Waiting
+ * requests are granted in the order they called acquire().
+ */
+
+import type { RateLimiter, RateLimitedResource } from './executors/types.js';
+import { abortReason } from './executors/abort.js';
+
+export interface RateLimit {
+  /** Sustained request rate; also the number of requests allowed in a burst */
+  requestsPerMinute: number;
+  /** Requests that may be in flight at the same time */
+  maxConcurrent: number;
+}
+
+export type RateLimits = Partial<Record<RateLimitedResource, Partial<RateLimit>>>;
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitedResource, RateLimit> = {
+  image_generation: { requestsPerMinute: 60, maxConcurrent: 4 },
+  tts_generation: { requestsPerMinute: 50, maxConcurrent: 4 }
+};
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface Bucket {
+  limit: RateLimit;
+  tokens: number;
+  refilledAt: number;
+  active: number;
+  waiters: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const MINUTE = 60_000;
+
+export class TokenBucketRateLimiter implements RateLimiter {
+  private buckets: Map<RateLimitedResource, Bucket>;
+
+  constructor(limits: RateLimits = {}) {
+    this.buckets = new Map();
+
+    for (const resource of Object.keys(DEFAULT_RATE_LIMITS) as RateLimitedResource[]) {
+      const limit = { ...DEFAULT_RATE_LIMITS[resource], ...limits[resource] };
+      for (const [name, value] of Object.entries(limit)) {
+        if (!Number.isInteger(value) || value < 1) {
+          throw new Error(`Rate limit ${name} for ${resource} must be a positive integer, got ${value}`);
+        }
+      }
+      this.buckets.set(resource, {
+        limit,
+        tokens: limit.requestsPerMinute,
+        refilledAt: Date.now(),
+        active: 0,
+        waiters: [],
+        timer: null
+      });
+    }
+  }
+
+  acquire(resource: RateLimitedResource, signal?: AbortSignal): Promise<void> {
+    const bucket = this.bucket(resource);
+
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          bucket.waiters.splice(bucket.waiters.indexOf(waiter), 1);
+          reject(abortReason(signal));
+          // The aborted request may have been the one holding up the queue
+          this.grant(bucket);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      bucket.waiters.push(waiter);
+      this.grant(bucket);
+    });
+  }
+
+  release(resource: RateLimitedResource): void {
+    const bucket = this.bucket(resource);
+    bucket.active = Math.max(0, bucket.active - 1);
+    this.grant(bucket);
+  }
+
+  /**
+   * Refill the bucket and forget in-flight requests, letting waiting requests
+   * through immediately
+   */
+  reset(resource?: string): void {
+    for (const [name, bucket] of this.buckets) {
+      if (resource && resource !== name) continue;
+      bucket.tokens = bucket.limit.requestsPerMinute;
+      bucket.refilledAt = Date.now();
+      bucket.active = 0;
+      this.grant(bucket);
+    }
+  }
+
+  /** Requests in flight and waiting for a resource */
+  getUsage(resource: RateLimitedResource): { active: number; waiting: number } {
+    const bucket = this.bucket(resource);
+    return { active: bucket.active, waiting: bucket.waiters.length };
+  }
+
+  private bucket(resource: RateLimitedResource): Bucket {
+    const bucket = this.buckets.get(resource);
+    if (!bucket) {
+      throw new Error(`Unknown rate-limited resource: ${resource}`);
+    }
+    return bucket;
+  }
+
+  /**
+   * Start as many waiting requests as tokens and concurrency allow, and
+   * schedule another attempt for when the next token is due
+   */
+  private grant(bucket: Bucket): void {
+    this.refill(bucket);
+
+    while (bucket.waiters.length > 0 && bucket.active < bucket.limit.maxConcurrent && bucket.tokens >= 1) {
+      const waiter = bucket.waiters.shift()!;
+      bucket.tokens -= 1;
+      bucket.active += 1;
+      if (waiter.onAbort) {
+        waiter.signal!.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve();
+    }
+
+    // Waiters blocked on concurrency are picked up by release() instead
+    const needsToken = bucket.waiters.length > 0 && bucket.active < bucket.limit.maxConcurrent;
+    if (needsToken && !bucket.timer) {
+      const wait = Math.ceil(((1 - bucket.tokens) * MINUTE) / bucket.limit.requestsPerMinute);
+      bucket.timer = setTimeout(() => {
+        bucket.timer = null;
+        this.grant(bucket);
+      }, wait);
+    } else if (!needsToken && bucket.timer) {
+      clearTimeout(bucket.timer);
+      bucket.timer = null;
+    }
+  }
+
+  private refill(bucket: Bucket): void {
+    const now = Date.now();
+    const refilled = ((now - bucket.refilledAt) * bucket.limit.requestsPerMinute) / MINUTE;
+    bucket.tokens = Math.min(bucket.limit.requestsPerMinute, bucket.tokens + refilled);
+    bucket.refilledAt = now;
+  }
+}
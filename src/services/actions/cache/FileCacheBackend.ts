@@ -0,0 +1,79 @@
+/**
+ * File Cache Backend
+ *
+ * Keeps each cache entry in its own JSON file for PersistentAssetCache in
+ * Node (scripts, tests, the dev server). File names are hashes of the keys,
+ * so any key is a safe file name.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { CacheBackend, CacheEntry } from './PersistentAssetCache.js';
+import { sha256Hex } from './sha256.js';
+
+export class FileCacheBackend implements CacheBackend {
+  private readonly dir: string;
+
+  constructor(dir: string = '.cache/assets') {
+    this.dir = dir;
+  }
+
+  async load(): Promise<CacheEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const entries: CacheEntry[] = [];
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      const filepath = path.join(this.dir, file);
+      try {
+        entries.push(JSON.parse(await fs.readFile(filepath, 'utf8')) as CacheEntry);
+      } catch {
+        // A write interrupted by a crash; the entry is simply regenerated
+        await fs.rm(filepath, { force: true });
+      }
+    }
+    return entries;
+  }
+
+  async write(entry: CacheEntry): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const filepath = this.pathFor(entry.key);
+    // Write then rename, so readers never see a half-written entry
+    const temporary = `${filepath}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, filepath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if (isMissing(error)) return;
+      throw error;
+    }
+    // Only remove what this backend wrote; the directory may be shared
+    await Promise.all(
+      files
+        .filter(name => name.endsWith('.json') || name.endsWith('.json.tmp'))
+        .map(name => fs.rm(path.join(this.dir, name), { force: true }))
+    );
+  }
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, `${sha256Hex(key)}.json`);
+  }
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
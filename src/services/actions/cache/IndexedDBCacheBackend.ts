@@ -0,0 +1,60 @@
+/**
+ * IndexedDB Cache Backend
+ *
+ * Keeps PersistentAssetCache entries in an IndexedDB object store, so the
+ * browser reuses generated assets across page loads.
+ */
+
+import type { CacheBackend, CacheEntry } from './PersistentAssetCache.js';
+
+const STORE = 'entries';
+
+export class IndexedDBCacheBackend implements CacheBackend {
+  private readonly dbName: string;
+  private db: Promise<IDBDatabase> | null;
+
+  constructor(dbName: string = 'tetraspore-asset-cache') {
+    this.dbName = dbName;
+    this.db = null;
+  }
+
+  async load(): Promise<CacheEntry[]> {
+    const store = await this.store('readonly');
+    return request(store.getAll() as IDBRequest<CacheEntry[]>);
+  }
+
+  async write(entry: CacheEntry): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.store('readwrite');
+    await request(store.clear());
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    this.db ??= this.open();
+    return (await this.db).transaction(STORE, mode).objectStore(STORE);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    const opening = indexedDB.open(this.dbName, 1);
+    opening.onupgradeneeded = () => {
+      opening.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    return request(opening);
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { PersistentAssetCache, toCacheKey } from './PersistentAssetCache.js';
+import { FileCacheBackend } from './FileCacheBackend.js';
+import type { Action } from '../executors/types.js';
+
+function createClock(start = 1_000) {
+  let time = start;
+  return { now: () => time, advance: (ms: number) => { time += ms; } };
+}
+
+describe('PersistentAssetCache', () => {
+  it('counts hits and misses', async () => {
+    const cache = new PersistentAssetCache();
+    await cache.set('a', { url: '/a.png' });
+
+    expect(await cache.get('a')).toEqual({ url: '/a.png' });
+    expect(await cache.get('b')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, hitRate: 0.5, entries: 1 });
+
+    cache.resetStats();
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, hitRate: 0 });
+  });
+
+  it('expires entries after their TTL', async () => {
+    const clock = createClock();
+    const cache = new PersistentAssetCache({ now: clock.now, defaultTtl: 1000 });
+    await cache.set('short', 1, 100);
+    await cache.set('default', 2);
+    await cache.set('forever', 3, Infinity);
+
+    clock.advance(500);
+    expect(await cache.get('short')).toBeNull();
+    expect(await cache.get('default')).toBe(2);
+
+    clock.advance(10_000_000);
+    expect(await cache.get('default')).toBeNull();
+    expect(await cache.get('forever')).toBe(3);
+    expect(cache.getStats()).toMatchObject({ expirations: 2, entries: 1 });
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    const cache = new PersistentAssetCache({ maxEntries: 2 });
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await cache.get('b')).toBeNull();
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('c')).toBe(3);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('answers has() without counting a lookup or refreshing recency', async () => {
+    const clock = createClock();
+    const cache = new PersistentAssetCache({ now: clock.now, maxEntries: 2 });
+    await cache.set('a', 1);
+    await cache.set('b', 2, 100);
+
+    expect(await cache.has('a')).toBe(true);
+    expect(await cache.has('missing')).toBe(false);
+    clock.advance(500);
+    expect(await cache.has('b')).toBe(false);
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0 });
+
+    // 'a' stays least recently used despite has()
+    await cache.set('b', 2);
+    await cache.set('c', 3);
+    expect(await cache.has('a')).toBe(false);
+    expect(await cache.has('b')).toBe(true);
+  });
+
+  it('keeps the total size within maxBytes', async () => {
+    const cache = new PersistentAssetCache({ maxBytes: 20 });
+    await cache.set('a', 'x'.repeat(8)); // 10 bytes of JSON
+    await cache.set('b', 'y'.repeat(8));
+    await cache.set('c', 'z'.repeat(8));
+    await cache.set('huge', 'w'.repeat(100));
+
+    expect(cache.getStats()).toMatchObject({ entries: 2, bytes: 20, evictions: 1 });
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('huge')).toBeNull();
+  });
+
+  it('prefers dropping expired entries over live ones', async () => {
+    const clock = createClock();
+    const cache = new PersistentAssetCache({ now: clock.now, maxEntries: 2 });
+    await cache.set('old', 1);
+    await cache.set('stale', 2, 10);
+    clock.advance(20);
+    await cache.set('new', 3);
+
+    expect(await cache.get('old')).toBe(1);
+    expect(cache.getStats()).toMatchObject({ evictions: 0, expirations: 1 });
+  });
+
+  it('keys actions by content regardless of key order', async () => {
+    const cache = new PersistentAssetCache();
+    const action = { type: 'play_cutscene', cutscene_id: 'intro' } as Action;
+    const reordered = { cutscene_id: 'intro', type: 'play_cutscene' } as Action;
+
+    await cache.set(action, 'played');
+
+    expect(await cache.get(reordered)).toBe('played');
+    expect(toCacheKey(action)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => new PersistentAssetCache({ maxEntries: 0 })).toThrow(/maxEntries must be a positive integer/);
+    expect(() => new PersistentAssetCache({ defaultTtl: -1 })).toThrow(/defaultTtl/);
+  });
+
+  describe('with a file backend', () => {
+    let dir: string;
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    async function createDir() {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-cache-'));
+      return dir;
+    }
+
+    it('restores entries written by an earlier instance', async () => {
+      const clock = createClock();
+      const backend = new FileCacheBackend(await createDir());
+      const first = new PersistentAssetCache({ backend, now: clock.now });
+      await first.set('image', { url: '/a.png' });
+      await first.set('stale', 1, 10);
+
+      clock.advance(20);
+      const second = new PersistentAssetCache({ backend, now: clock.now });
+
+      expect(await second.get('image')).toEqual({ url: '/a.png' });
+      expect(await second.get('stale')).toBeNull();
+      expect(second.getStats()).toMatchObject({ entries: 1, expirations: 1 });
+    });
+
+    it('applies the current limits to restored entries, oldest first', async () => {
+      const clock = createClock();
+      const backend = new FileCacheBackend(await createDir());
+      const first = new PersistentAssetCache({ backend, now: clock.now });
+      for (const key of ['a', 'b', 'c']) {
+        await first.set(key, key);
+        clock.advance(1);
+      }
+
+      const second = new PersistentAssetCache({ backend, now: clock.now, maxEntries: 2 });
+
+      expect(await second.get('a')).toBeNull();
+      expect(await second.get('c')).toBe('c');
+    });
+
+    it('skips unreadable files and clears only its own files', async () => {
+      const backend = new FileCacheBackend(await createDir());
+      await fs.writeFile(path.join(dir, 'broken.json'), '{"key": ');
+      await fs.writeFile(path.join(dir, 'notes.txt'), 'keep me');
+      const cache = new PersistentAssetCache({ backend });
+
+      expect(await cache.get('anything')).toBeNull();
+      await cache.set('a', 1);
+      await cache.clear();
+
+      expect(await fs.readdir(dir)).toEqual(['notes.txt']);
+      expect(await new PersistentAssetCache({ backend }).get('a')).toBeNull();
+    });
+  });
+});
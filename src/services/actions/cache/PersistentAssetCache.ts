@@ -0,0 +1,284 @@
+/**
+ * PersistentAssetCache - AssetCache that survives reloads
+ *
+ * Executors key their results by a SHA-256 hash of the normalized action
+ * (BaseExecutor.getCacheKey), so an identical action is served from here
+ * instead of being generated and paid for again. Entries are kept in memory
+ * in least-recently-used order and written through to a CacheBackend (files
+ * in Node, IndexedDB in the browser).
+ */
+
+import type { Action, AssetCache } from '../executors/types.js';
+import { logError } from '../../../utils/errors.js';
+import { sha256Hex } from './sha256.js';
+
+/** A cached value as stored by a backend */
+export interface CacheEntry {
+  key: string;
+  value: unknown;
+  /** Size of the value's JSON encoding in bytes */
+  size: number;
+  /** Epoch milliseconds after which the entry is stale, or null to keep it until evicted */
+  expiresAt: number | null;
+  /** Epoch milliseconds of the last write, used to restore LRU order on load */
+  lastUsed: number;
+}
+
+/** Where a PersistentAssetCache keeps its entries between sessions */
+export interface CacheBackend {
+  load(): Promise<CacheEntry[]>;
+  write(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+  entries: number;
+  bytes: number;
+  /** Entries dropped to stay within maxEntries/maxBytes */
+  evictions: number;
+  /** Entries dropped because their TTL ran out */
+  expirations: number;
+}
+
+export interface PersistentAssetCacheOptions {
+  /** Without a backend the cache lives in memory only */
+  backend?: CacheBackend;
+  /** Default: 1000 */
+  maxEntries?: number;
+  /** Default: 10 MB */
+  maxBytes?: number;
+  /** TTL in milliseconds for set() calls without one; Infinity keeps entries until evicted (default: 7 days) */
+  defaultTtl?: number;
+  /** Clock, for tests */
+  now?: () => number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_TTL = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Cache key for a string or an action; actions are hashed with their keys sorted
+ */
+export function toCacheKey(key: string | Action): string {
+  return typeof key === 'string' ? key : sha256Hex(stableStringify(key));
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const record = value as Record<string, unknown>;
+  const fields = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+  return `{${fields.join(',')}}`;
+}
+
+export class PersistentAssetCache implements AssetCache {
+  private entries: Map<string, CacheEntry>;
+  private bytes: number;
+  private backend: CacheBackend | null;
+  private loading: Promise<void> | null;
+  private writes: Promise<void>;
+  private maxEntries: number;
+  private maxBytes: number;
+  private defaultTtl: number;
+  private now: () => number;
+  private stats: Omit<CacheStats, 'hitRate' | 'entries' | 'bytes'>;
+
+  constructor(options: PersistentAssetCacheOptions = {}) {
+    this.entries = new Map();
+    this.bytes = 0;
+    this.backend = options.backend || null;
+    this.loading = null;
+    this.writes = Promise.resolve();
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_TTL;
+    this.now = options.now || Date.now;
+    this.stats = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+
+    for (const [name, limit] of Object.entries({ maxEntries: this.maxEntries, maxBytes: this.maxBytes })) {
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw new Error(`Cache ${name} must be a positive integer, got ${limit}`);
+      }
+    }
+    if (!(this.defaultTtl >= 0)) {
+      throw new Error(`Cache defaultTtl must be a non-negative number, got ${this.defaultTtl}`);
+    }
+  }
+
+  async get<T>(key: string | Action): Promise<T | null> {
+    await this.ready();
+    const cacheKey = toCacheKey(key);
+    const entry = this.entries.get(cacheKey);
+
+    if (!entry || this.isExpired(entry)) {
+      if (entry) {
+        this.stats.expirations++;
+        this.remove(entry);
+      }
+      this.stats.misses++;
+      return null;
+    }
+
+    // Most recently used entries live at the end of the map
+    this.entries.delete(cacheKey);
+    this.entries.set(cacheKey, entry);
+    this.stats.hits++;
+    return entry.value as T;
+  }
+
+  async has(key: string | Action): Promise<boolean> {
+    await this.ready();
+    const entry = this.entries.get(toCacheKey(key));
+    return !!entry && !this.isExpired(entry);
+  }
+
+  /**
+   * Store a JSON-serializable value
+   *
+   * @param ttl - Milliseconds until the entry expires (defaults to options.defaultTtl)
+   */
+  async set<T>(key: string | Action, value: T, ttl: number = this.defaultTtl): Promise<void> {
+    await this.ready();
+    const cacheKey = toCacheKey(key);
+    const size = new TextEncoder().encode(JSON.stringify(value)).length;
+    const now = this.now();
+
+    const previous = this.entries.get(cacheKey);
+    if (previous) {
+      this.remove(previous, false);
+    }
+    if (size > this.maxBytes) {
+      // Could never fit; keep the backend in step with memory
+      if (previous) await this.persist(backend => backend.delete(cacheKey));
+      return;
+    }
+
+    const entry: CacheEntry = {
+      key: cacheKey,
+      value,
+      size,
+      expiresAt: Number.isFinite(ttl) ? now + ttl : null,
+      lastUsed: now
+    };
+    this.entries.set(cacheKey, entry);
+    this.bytes += size;
+    this.enforceLimits();
+    await this.persist(backend => backend.write(entry));
+  }
+
+  async clear(): Promise<void> {
+    await this.ready();
+    this.entries.clear();
+    this.bytes = 0;
+    await this.persist(backend => backend.clear());
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    return {
+      ...this.stats,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0,
+      entries: this.entries.size,
+      bytes: this.bytes
+    };
+  }
+
+  resetStats(): void {
+    this.stats = { hits: 0, misses: 0, evictions: 0, expirations: 0 };
+  }
+
+  private ready(): Promise<void> {
+    this.loading ??= this.load();
+    return this.loading;
+  }
+
+  private async load(): Promise<void> {
+    if (!this.backend) return;
+
+    let stored: CacheEntry[];
+    try {
+      stored = await this.backend.load();
+    } catch (error) {
+      logError('Failed to load the asset cache; starting empty', { error });
+      return;
+    }
+
+    for (const entry of stored.sort((a, b) => a.lastUsed - b.lastUsed)) {
+      if (this.isExpired(entry)) {
+        this.stats.expirations++;
+        void this.persist(backend => backend.delete(entry.key));
+        continue;
+      }
+      this.entries.set(entry.key, entry);
+      this.bytes += entry.size;
+    }
+    // The limits may be lower than when the entries were written
+    this.enforceLimits();
+  }
+
+  private isExpired(entry: CacheEntry): boolean {
+    return entry.expiresAt !== null && entry.expiresAt <= this.now();
+  }
+
+  /**
+   * Drop entries until the cache is within its limits: expired ones first,
+   * then the least recently used
+   */
+  private enforceLimits(): void {
+    if (!this.overLimit()) return;
+
+    for (const entry of Array.from(this.entries.values())) {
+      if (this.isExpired(entry)) {
+        this.stats.expirations++;
+        this.remove(entry);
+      }
+    }
+    for (const entry of Array.from(this.entries.values())) {
+      if (!this.overLimit()) break;
+      this.stats.evictions++;
+      this.remove(entry);
+    }
+  }
+
+  private overLimit(): boolean {
+    return this.entries.size > this.maxEntries || this.bytes > this.maxBytes;
+  }
+
+  private remove(entry: CacheEntry, fromBackend = true): void {
+    this.entries.delete(entry.key);
+    this.bytes -= entry.size;
+    if (fromBackend) {
+      void this.persist(backend => backend.delete(entry.key));
+    }
+  }
+
+  /**
+   * Run a backend operation after the ones already queued, so a delete and a
+   * later write of the same key reach the backend in order. Failures are
+   * logged and leave the memory cache working, since a cache must never
+   * break asset generation.
+   */
+  private persist(operation: (backend: CacheBackend) => Promise<void>): Promise<void> {
+    const backend = this.backend;
+    if (!backend) return Promise.resolve();
+    this.writes = this.writes
+      .then(() => operation(backend))
+      .catch(error => {
+        logError('Asset cache backend operation failed', { error });
+      });
+    return this.writes;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Asset Cache - Public API
+ *
+ * PersistentAssetCache implements the executors' AssetCache with TTLs, LRU
+ * eviction, hit/miss statistics and a pluggable persistence backend.
+ */
+
+import { PersistentAssetCache } from './PersistentAssetCache.js';
+import type { PersistentAssetCacheOptions } from './PersistentAssetCache.js';
+import { FileCacheBackend } from './FileCacheBackend.js';
+import { IndexedDBCacheBackend } from './IndexedDBCacheBackend.js';
+
+export { PersistentAssetCache, toCacheKey } from './PersistentAssetCache.js';
+export type { CacheBackend, CacheEntry, CacheStats, PersistentAssetCacheOptions } from './PersistentAssetCache.js';
+export { FileCacheBackend } from './FileCacheBackend.js';
+export { IndexedDBCacheBackend } from './IndexedDBCacheBackend.js';
+export { sha256Hex } from './sha256.js';
+
+/**
+ * Create a cache persisted where the code runs: IndexedDB in the browser,
+ * files under `.cache/assets` in Node
+ */
+export function createAssetCache(options: Omit<PersistentAssetCacheOptions, 'backend'> = {}): PersistentAssetCache {
+  const backend = typeof indexedDB !== 'undefined' ? new IndexedDBCacheBackend() : new FileCacheBackend();
+  return new PersistentAssetCache({ ...options, backend });
+}
@@ -9,13 +9,18 @@ import {
   Action,
   AssetExecutor,
   AssetResult,
+  AssetCache,
   ExecutionContext,
   ValidationResult,
   CostEstimate,
   AssetGenerationError,
-  RateLimitError
+  RateLimitError,
+  RateLimiter,
+  RateLimitedResource
 } from './types';
 import { toError } from '../../../utils/errors';
+import { isAbortError, sleep, throwIfAborted } from './abort';
+import { sha256Hex } from '../cache/sha256';
 
 export abstract class BaseExecutor<T extends Action, R extends AssetResult> 
   implements AssetExecutor<T, R> {
@@ -30,19 +35,39 @@ export abstract class BaseExecutor<T extends Action, R extends AssetResult>
 
   /**
    * Execute with automatic retry logic for transient failures
+   *
+   * Cancellation is never retried: an aborted signal stops before the next
+   * attempt and interrupts the backoff delay.
+   *
+   * With `rateLimit` set, every attempt first acquires a request slot from
+   * the limiter and hands it back when done. A RateLimitError (the provider
+   * refused the request) is retried after exactly its retryAfter instead of
+   * the exponential backoff.
    */
   protected async executeWithRetry<TResult>(
     operation: () => Promise<TResult>,
-    context: { action: T; operation: string }
+    context: {
+      action: T;
+      operation: string;
+      signal?: AbortSignal;
+      onRetry?: ExecutionContext['onRetry'];
+      rateLimit?: { resource: RateLimitedResource; limiter: RateLimiter };
+    }
   ): Promise<TResult> {
     let lastError: Error;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      throwIfAborted(context.signal);
       try {
-        return await operation();
+        return await this.withRateLimit(operation, context.rateLimit, context.signal);
       } catch (error) {
         lastError = toError(error);
 
+        if (isAbortError(error)) {
+          throw error;
+        }
+        throwIfAborted(context.signal);
+
         // Don't retry non-retryable errors
         if (error instanceof AssetGenerationError && !error.retryable) {
           throw error;
@@ -63,17 +88,17 @@ export abstract class BaseExecutor<T extends Action, R extends AssetResult>
           );
         }
 
-        // Calculate exponential backoff delay
-        const delay = Math.min(
-          this.baseRetryDelay * Math.pow(2, attempt - 1),
-          this.maxRetryDelay
-        );
+        // The provider says when to come back; otherwise back off exponentially
+        const delay = error instanceof RateLimitError
+          ? error.retryAfter
+          : Math.min(this.baseRetryDelay * Math.pow(2, attempt - 1), this.maxRetryDelay);
 
         console.warn(
           `${context.operation} attempt ${attempt} failed: ${lastError.message}. Retrying in ${delay}ms...`
         );
+        context.onRetry?.({ attempt, error: lastError, delay });
 
-        await this.sleep(delay);
+        await this.sleep(delay, context.signal);
       }
     }
 
@@ -124,17 +149,13 @@ export abstract class BaseExecutor<T extends Action, R extends AssetResult>
   }
 
   /**
-   * Simple hash function for cache keys
+   * SHA-256 of the object's JSON, used as its cache key
+   *
+   * Why collision-resistant: the key stands in for the whole action, so two
+   * different prompts sharing a key would serve one the other's asset.
    */
   protected hashObject(obj: unknown): string {
-    const str = JSON.stringify(obj);
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash).toString(36);
+    return sha256Hex(JSON.stringify(obj));
   }
 
   /**
@@ -159,6 +180,17 @@ export abstract class BaseExecutor<T extends Action, R extends AssetResult>
     }
   }
 
+  /**
+   * Check whether a result for this action is cached, without logging a hit
+   */
+  async isCached(action: T, cache: AssetCache): Promise<boolean> {
+    try {
+      return await cache.has(this.getCacheKey(action));
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Store result in cache
    */
@@ -176,23 +208,21 @@ export abstract class BaseExecutor<T extends Action, R extends AssetResult>
   }
 
   /**
-   * Apply rate limiting for the given resource
+   * Run one attempt inside a request slot of the rate limiter
    */
-  protected async applyRateLimit(
-    resource: 'image_generation' | 'tts_generation',
-    context: ExecutionContext
-  ): Promise<void> {
+  private async withRateLimit<TResult>(
+    operation: () => Promise<TResult>,
+    rateLimit: { resource: RateLimitedResource; limiter: RateLimiter } | undefined,
+    signal?: AbortSignal
+  ): Promise<TResult> {
+    if (!rateLimit) {
+      return operation();
+    }
+    await rateLimit.limiter.acquire(rateLimit.resource, signal);
     try {
-      await context.rateLimiter.acquire(resource);
-    } catch (error) {
-      if (error instanceof RateLimitError) {
-        console.warn(`Rate limit hit for ${resource}. Waiting ${error.retryAfter}ms...`);
-        await this.sleep(error.retryAfter);
-        // Try again after waiting
-        await context.rateLimiter.acquire(resource);
-      } else {
-        throw error;
-      }
+      return await operation();
+    } finally {
+      rateLimit.limiter.release?.(rateLimit.resource);
     }
   }
 
@@ -225,10 +255,10 @@ export abstract class BaseExecutor<T extends Action, R extends AssetResult>
   }
 
   /**
-   * Sleep utility for delays
+   * Sleep utility for delays; rejects early when the signal is aborted
    */
-  protected sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal);
   }
 
   /**
@@ -37,7 +37,7 @@ export class CutsceneAssetExecutor extends BaseExecutor<AssetCutsceneAction, Cut
     // Assemble cutscene with retry logic
     const result = await this.executeWithRetry(
       () => this.assembleCutscene(action, context),
-      { action, operation: 'Cutscene assembly' }
+      { action, operation: 'Cutscene assembly', signal: context.signal, onRetry: context.onRetry }
     );
 
     // Store in cache
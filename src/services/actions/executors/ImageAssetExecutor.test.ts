@@ -6,20 +6,26 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ImageAssetExecutor } from './ImageAssetExecutor';
 import { 
   createMockExecutionContext, 
+  createMockImageProviders,
   MockAssetStorage, 
   MockAssetCache,
+  MockImageProvider,
   mockActions
 } from './mocks';
-import { ImageAssetResult } from './types';
+import { ImageAssetResult, RateLimitError } from './types';
+import { TokenBucketRateLimiter } from '../TokenBucketRateLimiter';
 
 describe('ImageAssetExecutor', () => {
   let executor: ImageAssetExecutor;
   let mockContext: ReturnType<typeof createMockExecutionContext>;
   let mockStorage: MockAssetStorage;
   let mockCache: MockAssetCache;
+  let fluxProvider: MockImageProvider;
 
   beforeEach(() => {
-    executor = new ImageAssetExecutor();
+    const providers = createMockImageProviders();
+    fluxProvider = providers[0];
+    executor = new ImageAssetExecutor(providers);
     mockStorage = new MockAssetStorage();
     mockCache = new MockAssetCache();
     mockContext = createMockExecutionContext({
@@ -240,7 +246,7 @@ describe('ImageAssetExecutor', () => {
       
       await executor.execute(action, mockContext);
       
-      expect(acquireSpy).toHaveBeenCalledWith('image_generation');
+      expect(acquireSpy).toHaveBeenCalledWith('image_generation', mockContext.signal);
     });
 
     it('should track costs correctly', async () => {
@@ -253,6 +259,16 @@ describe('ImageAssetExecutor', () => {
       expect(recordSpy).toHaveBeenCalledWith('image', 'sdxl', 1);
     });
 
+    it('should report whether an action is cached without generating it', async () => {
+      const action = mockActions.image();
+      expect(await executor.isCached(action, mockCache)).toBe(false);
+
+      await executor.execute(action, mockContext);
+
+      expect(await executor.isCached(action, mockCache)).toBe(true);
+      expect(await executor.isCached({ ...action, prompt: 'Another planet' }, mockCache)).toBe(false);
+    });
+
     it('should store result in cache after generation', async () => {
       const action = mockActions.image({ id: 'cache-test' });
       
@@ -318,37 +334,112 @@ describe('ImageAssetExecutor', () => {
       const action = mockActions.image();
       
       // Mock API to fail initially then succeed
-      let callCount = 0;
-      const originalCallFluxAPI = executor['callFluxAPI'];
-      executor['callFluxAPI'] = async (...args) => {
-        callCount++;
-        if (callCount === 1) {
-          throw new Error('API temporary failure');
-        }
-        return originalCallFluxAPI.apply(executor, args);
-      };
+      const generate = vi.spyOn(fluxProvider, 'generate').mockRejectedValueOnce(new Error('API temporary failure'));
+      executor['baseRetryDelay'] = 1;
 
       const result = await executor.execute(action, mockContext);
       
       expect(result).toBeDefined();
-      expect(callCount).toBe(2); // Failed once, then succeeded
+      expect(generate).toHaveBeenCalledTimes(2); // Failed once, then succeeded
     });
 
     it('should fail after max retries', async () => {
       const action = mockActions.image();
       
       // Mock API to always fail
-      executor['callFluxAPI'] = async () => {
-        throw new Error('Persistent API failure');
-      };
-      executor['callSDXLAPI'] = async () => {
-        throw new Error('Persistent API failure');
-      };
+      vi.spyOn(fluxProvider, 'generate').mockRejectedValue(new Error('Persistent API failure'));
+      executor['baseRetryDelay'] = 1;
 
       await expect(executor.execute(action, mockContext)).rejects.toThrow(
         'Image generation failed after 3 attempts'
       );
     });
+
+    it('should fail on the first attempt when the API key is missing', async () => {
+      const action = mockActions.image();
+      const generate = vi.spyOn(fluxProvider, 'generate');
+      const onRetry = vi.fn();
+
+      await expect(executor.execute(action, { ...mockContext, apiKeys: {}, onRetry })).rejects.toThrow(
+        'Missing required API keys: fluxApiKey'
+      );
+      expect(onRetry).not.toHaveBeenCalled();
+      expect(generate).not.toHaveBeenCalled();
+    });
+
+    it('should report each retry through the context', async () => {
+      const action = mockActions.image();
+      executor['baseRetryDelay'] = 1;
+      const onRetry = vi.fn();
+
+      vi.spyOn(fluxProvider, 'generate').mockRejectedValueOnce(new Error('API temporary failure'));
+
+      await executor.execute(action, { ...mockContext, onRetry });
+
+      expect(onRetry).toHaveBeenCalledTimes(1);
+      expect(onRetry).toHaveBeenCalledWith({
+        attempt: 1,
+        error: expect.objectContaining({ message: expect.stringContaining('API temporary failure') }),
+        delay: 1
+      });
+    });
+
+    it('should wait exactly retryAfter when the provider rate-limits a request', async () => {
+      vi.useFakeTimers();
+      try {
+        const action = mockActions.image();
+        const limiter = new TokenBucketRateLimiter();
+        const onRetry = vi.fn();
+
+        let callCount = 0;
+        vi.spyOn(fluxProvider, 'generate').mockImplementation(async () => {
+          if (++callCount === 1) {
+            throw new RateLimitError('Too many requests', 7000);
+          }
+          return { data: new Uint8Array([1]), format: 'png', cost: 0 };
+        });
+
+        const execution = executor.execute(action, { ...mockContext, rateLimiter: limiter, onRetry });
+        await vi.advanceTimersByTimeAsync(6999);
+        expect(callCount).toBe(1);
+
+        await vi.advanceTimersByTimeAsync(1);
+        await expect(execution).resolves.toMatchObject({ id: action.id });
+        expect(callCount).toBe(2);
+        expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delay: 7000 }));
+        expect(limiter.getUsage('image_generation')).toEqual({ active: 0, waiting: 0 });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should stop retrying once the signal is aborted', async () => {
+      const action = mockActions.image();
+      const controller = new AbortController();
+
+      let callCount = 0;
+      vi.spyOn(fluxProvider, 'generate').mockImplementation(async () => {
+        callCount++;
+        controller.abort();
+        throw new Error('API temporary failure');
+      });
+
+      await expect(
+        executor.execute(action, { ...mockContext, signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(callCount).toBe(1);
+      expect(await mockCache.get(action.id)).toBeNull();
+    });
+
+    it('should not call the API when the signal is already aborted', async () => {
+      const action = mockActions.image();
+      const generate = vi.spyOn(fluxProvider, 'generate');
+
+      await expect(
+        executor.execute(action, { ...mockContext, signal: AbortSignal.abort() })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(generate).not.toHaveBeenCalled();
+    });
   });
 
   describe('prompt enhancement', () => {
@@ -2,7 +2,8 @@
  * Image Asset Executor
  * 
  * Generates images via AI image generation APIs (Flux Schnell, SDXL).
- * Handles caching, rate limiting, and cost tracking.
+ * Handles caching, rate limiting, and cost tracking. The action's model
+ * picks the ImageProvider adapter that makes the HTTP calls.
  */
 
 import { BaseExecutor } from './BaseExecutor';
@@ -13,12 +14,31 @@ import {
   ValidationResult,
   ExecutorValidationError,
   CostEstimate,
-  FluxAPIResponse,
-  SDXLAPIResponse
+  RateLimitError
 } from './types';
 import { toError } from '../../../utils/errors';
+import { isAbortError } from './abort';
+import { ProviderError, createDefaultImageProviders } from '../providers/index';
+import type { GeneratedImage, ImageProvider, ImageRequest } from '../providers/index';
 
 export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAssetResult> {
+  private providers: Map<string, ImageProvider>;
+
+  /**
+   * @param providers - Adapters to generate with; the first one serving a model handles it
+   *   (default: Flux Schnell on Together AI and SDXL on Replicate)
+   */
+  constructor(providers: ImageProvider[] = createDefaultImageProviders()) {
+    super();
+    this.providers = new Map();
+    for (const provider of providers) {
+      for (const model of provider.models) {
+        if (!this.providers.has(model)) {
+          this.providers.set(model, provider);
+        }
+      }
+    }
+  }
 
   /**
    * Execute image generation with caching and error handling
@@ -35,13 +55,19 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
       return cached;
     }
 
-    // Apply rate limiting
-    await this.applyRateLimit('image_generation', context);
+    // A missing key would fail every attempt the same way, so check it before retrying
+    this.validateApiKeys([this.getProvider(action).apiKeyName], context.apiKeys);
 
-    // Generate image with retry logic
+    // Generate image with retry logic, each attempt within the rate limit
     const result = await this.executeWithRetry(
       () => this.generateImage(action, context),
-      { action, operation: 'Image generation' }
+      {
+        action,
+        operation: 'Image generation',
+        signal: context.signal,
+        onRetry: context.onRetry,
+        rateLimit: { resource: 'image_generation', limiter: context.rateLimiter }
+      }
     );
 
     // Store in cache
@@ -76,22 +102,21 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
       });
     }
 
-    // Validate size format
-    const validSizes = ['1024x768', '768x1024', '1024x1024'];
-    if (!validSizes.includes(action.size)) {
+    // Validate model, then the size against what its provider supports
+    const provider = this.providers.get(action.model);
+    if (!provider) {
       errors.push({
-        field: 'size',
-        message: `Size must be one of: ${validSizes.join(', ')}`,
+        field: 'model',
+        message: `Model must be one of: ${Array.from(this.providers.keys()).join(', ')}`,
         code: 'INVALID_VALUE'
       });
     }
 
-    // Validate model
-    const validModels = ['flux-schnell', 'sdxl'];
-    if (!validModels.includes(action.model)) {
+    const validSizes = provider?.supportedSizes ?? ['1024x768', '768x1024', '1024x1024'];
+    if (!validSizes.includes(action.size)) {
       errors.push({
-        field: 'model',
-        message: `Model must be one of: ${validModels.join(', ')}`,
+        field: 'size',
+        message: `Size must be one of: ${validSizes.join(', ')}`,
         code: 'INVALID_VALUE'
       });
     }
@@ -124,19 +149,11 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
    * Estimate cost for image generation
    */
   estimateCost(action: AssetImageAction): CostEstimate {
-    // Cost per image by model
-    const modelCosts: Record<string, number> = {
-      'flux-schnell': 0.0, // Currently free via Together AI
-      'sdxl': 0.009 // $0.009 per image
-    };
-
-    const baseCost = modelCosts[action.model] ?? 0.009;
-
-    return {
-      min: baseCost,
-      max: baseCost,
-      currency: 'USD'
-    };
+    const provider = this.providers.get(action.model);
+    if (!provider) {
+      return { min: 0.009, max: 0.009, currency: 'USD' };
+    }
+    return provider.estimate(this.createRequest(action, action.prompt));
   }
 
   /**
@@ -146,19 +163,16 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
     // Enhance prompt with style guidelines
     const enhancedPrompt = this.enhancePrompt(action.prompt);
 
-    // Call appropriate API based on model
-    const apiResponse = action.model === 'flux-schnell' 
-      ? await this.callFluxAPI(enhancedPrompt, action.size, context)
-      : await this.callSDXLAPI(enhancedPrompt, action.size, context);
-
-    // Parse dimensions from size
-    const [width, height] = action.size.split('x').map(Number);
+    // Call the provider serving the action's model
+    const request = this.createRequest(action, enhancedPrompt);
+    const image = await this.callProvider(action, request, context);
+    const { width, height } = request;
 
     // Store the generated image
-    const storedAsset = await context.storage.store(apiResponse.imageData, {
+    const storedAsset = await context.storage.store(image.data, {
       id: action.id,
       type: 'image',
-      format: 'png'
+      format: image.format
     });
 
     // Track cost
@@ -169,7 +183,7 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
       id: action.id,
       url: storedAsset.url,
       metadata: {
-        format: 'png' as const,
+        format: image.format,
         width,
         height,
         model: action.model,
@@ -177,7 +191,7 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
         enhancedPrompt,
         ...this.createBaseMetadata(action)
       },
-      cost: apiResponse.cost
+      cost: image.cost
     };
 
     return result;
@@ -207,66 +221,48 @@ export class ImageAssetExecutor extends BaseExecutor<AssetImageAction, ImageAsse
     return `${prompt}, ${styleModifiers.join(', ')}`;
   }
 
+  private createRequest(action: AssetImageAction, prompt: string): ImageRequest {
+    const [width, height] = action.size.split('x').map(Number);
+    return { prompt, width, height, model: action.model };
+  }
+
   /**
-   * Call Flux API via Together AI
+   * The provider serving the action's model
    */
-  private async callFluxAPI(prompt: string, size: string, context: ExecutionContext): Promise<FluxAPIResponse> {
-    this.validateApiKeys(['fluxApiKey'], context.apiKeys);
-
-    try {
-      // Mock API call for now - would be replaced with actual Together AI API
-      console.log(`[MOCK] Calling Flux API: ${prompt} (${size})`);
-      
-      // Simulate API delay
-      await this.sleep(2000);
-
-      // Create mock image data
-      const imageData = Buffer.from(`Mock Flux image data for: ${prompt}`);
-
-      return {
-        imageData,
-        cost: 0.0 // Currently free
-      };
-
-    } catch (error) {
-      const errorObj = toError(error, 'Flux API call failed');
-      throw this.createError(
-        `Flux API call failed: ${errorObj.message}`,
-        { type: 'asset_image', id: 'temp', prompt, size, model: 'flux-schnell' } as AssetImageAction,
-        true, // Retryable
-        { originalError: errorObj }
-      );
+  private getProvider(action: AssetImageAction): ImageProvider {
+    const provider = this.providers.get(action.model);
+    if (!provider) {
+      throw this.createError(`No image provider for model ${action.model}`, action, false);
     }
+    return provider;
   }
 
   /**
-   * Call SDXL API (Replicate or other provider)
+   * Generate the image with the provider serving the action's model
    */
-  private async callSDXLAPI(prompt: string, size: string, context: ExecutionContext): Promise<SDXLAPIResponse> {
-    this.validateApiKeys(['replicateApiKey'], context.apiKeys);
+  private async callProvider(
+    action: AssetImageAction,
+    request: ImageRequest,
+    context: ExecutionContext
+  ): Promise<GeneratedImage> {
+    const provider = this.getProvider(action);
 
     try {
-      // Mock API call for now - would be replaced with actual Replicate API
-      console.log(`[MOCK] Calling SDXL API: ${prompt} (${size})`);
-      
-      // Simulate API delay
-      await this.sleep(3000);
-
-      // Create mock image data
-      const imageData = Buffer.from(`Mock SDXL image data for: ${prompt}`);
-
-      return {
-        imageData,
-        cost: 0.009 // $0.009 per image
-      };
-
+      return await provider.generate(request, {
+        apiKey: context.apiKeys[provider.apiKeyName]!,
+        signal: context.signal
+      });
     } catch (error) {
-      const errorObj = toError(error, 'SDXL API call failed');
+      // Cancellation and provider rate limits are handled by executeWithRetry
+      if (isAbortError(error) || error instanceof RateLimitError) {
+        throw error;
+      }
+      const errorObj = toError(error, `${provider.name} call failed`);
       throw this.createError(
-        `SDXL API call failed: ${errorObj.message}`,
-        { type: 'asset_image', id: 'temp', prompt, size, model: 'sdxl' } as AssetImageAction,
-        true, // Retryable
-        { originalError: errorObj }
+        `${provider.name} call failed: ${errorObj.message}`,
+        action,
+        error instanceof ProviderError ? error.retryable : true,
+        { originalError: errorObj, status: error instanceof ProviderError ? error.status : undefined }
       );
     }
   }
@@ -6,8 +6,11 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { SubtitleAssetExecutor } from './SubtitleAssetExecutor';
 import { 
   createMockExecutionContext, 
+  createMockTTSProviders,
+  createSilentWAV,
   MockAssetStorage, 
   MockAssetCache,
+  MockTTSProvider,
   mockActions
 } from './mocks';
 import { AudioAssetResult } from './types';
@@ -17,9 +20,12 @@ describe('SubtitleAssetExecutor', () => {
   let mockContext: ReturnType<typeof createMockExecutionContext>;
   let mockStorage: MockAssetStorage;
   let mockCache: MockAssetCache;
+  let openaiProvider: MockTTSProvider;
 
   beforeEach(() => {
-    executor = new SubtitleAssetExecutor();
+    const providers = createMockTTSProviders();
+    openaiProvider = providers[0];
+    executor = new SubtitleAssetExecutor(providers);
     mockStorage = new MockAssetStorage();
     mockCache = new MockAssetCache();
     mockContext = createMockExecutionContext({
@@ -260,7 +266,7 @@ describe('SubtitleAssetExecutor', () => {
       
       await executor.execute(action, mockContext);
       
-      expect(acquireSpy).toHaveBeenCalledWith('tts_generation');
+      expect(acquireSpy).toHaveBeenCalledWith('tts_generation', mockContext.signal);
     });
 
     it('should track costs correctly', async () => {
@@ -404,32 +410,33 @@ describe('SubtitleAssetExecutor', () => {
       const action = mockActions.subtitle();
       
       // Mock API to fail initially then succeed
-      let callCount = 0;
-      const originalCallOpenAITTS = executor['callOpenAITTS'];
-      executor['callOpenAITTS'] = async (...args) => {
-        callCount++;
-        if (callCount === 1) {
-          throw new Error('API temporary failure');
-        }
-        return originalCallOpenAITTS.apply(executor, args);
-      };
+      const generate = vi.spyOn(openaiProvider, 'generate').mockRejectedValueOnce(new Error('API temporary failure'));
+      executor['baseRetryDelay'] = 1;
 
       const result = await executor.execute(action, mockContext);
       
       expect(result).toBeDefined();
-      expect(callCount).toBe(2);
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fail on the first attempt when the API key is missing', async () => {
+      const action = mockActions.subtitle();
+      const generate = vi.spyOn(openaiProvider, 'generate');
+      const onRetry = vi.fn();
+
+      await expect(executor.execute(action, { ...mockContext, apiKeys: {}, onRetry })).rejects.toThrow(
+        'Missing required API keys: openaiApiKey'
+      );
+      expect(onRetry).not.toHaveBeenCalled();
+      expect(generate).not.toHaveBeenCalled();
     });
 
     it('should fail after max retries', async () => {
       const action = mockActions.subtitle();
       
       // Mock APIs to always fail
-      executor['callOpenAITTS'] = async () => {
-        throw new Error('Persistent API failure');
-      };
-      executor['callGoogleTTS'] = async () => {
-        throw new Error('Persistent API failure');
-      };
+      vi.spyOn(openaiProvider, 'generate').mockRejectedValue(new Error('Persistent API failure'));
+      executor['baseRetryDelay'] = 1;
 
       await expect(executor.execute(action, mockContext)).rejects.toThrow(
         'TTS generation failed after 3 attempts'
@@ -443,7 +450,38 @@ describe('SubtitleAssetExecutor', () => {
     });
   });
 
-  describe('audio duration estimation', () => {
+  describe('audio duration', () => {
+    it('should read the duration and format from the generated audio', async () => {
+      vi.spyOn(openaiProvider, 'generate').mockResolvedValue({
+        data: createSilentWAV(2.5, 16000),
+        format: 'wav',
+        cost: 0.001
+      });
+      const storeSpy = vi.spyOn(mockStorage, 'store');
+
+      const result = await executor.execute(mockActions.subtitle({ model: 'openai-tts' }), mockContext);
+
+      expect(result.duration).toBe(2.5);
+      expect(result.metadata).toMatchObject({ format: 'wav', sampleRate: 16000 });
+      expect(storeSpy).toHaveBeenCalledWith(expect.any(Uint8Array), expect.objectContaining({ format: 'wav', duration: 2.5 }));
+    });
+
+    it('should estimate from the text when the audio cannot be read', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(openaiProvider, 'generate').mockResolvedValue({
+        data: new TextEncoder().encode('not audio'),
+        format: 'mp3',
+        cost: 0
+      });
+      const text = 'one two three four five six seven eight nine ten eleven twelve';
+
+      const result = await executor.execute(mockActions.subtitle({ text, voice_pace: 'slow' }), mockContext);
+
+      expect(result.duration).toBe(SubtitleAssetExecutor.estimateSpeechDuration(text, 'slow'));
+      expect(warn).toHaveBeenCalled();
+    });
+
+
     it('should estimate reasonable durations', async () => {
       const shortText = 'Hello world';
       const longText = 'This is a much longer piece of text that should result in a longer audio duration when converted to speech using text-to-speech technology.';
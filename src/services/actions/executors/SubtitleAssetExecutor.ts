@@ -3,6 +3,7 @@
  * 
  * Generates audio narration from text via TTS APIs (OpenAI TTS, Google Cloud TTS).
  * Handles voice mapping, caching, rate limiting, and cost tracking.
+ * Durations are probed from the returned audio.
  */
 
 import { BaseExecutor } from './BaseExecutor';
@@ -14,40 +15,32 @@ import {
   ExecutorValidationError,
   CostEstimate,
   VoiceConfig,
-  OpenAITTSResponse,
-  GoogleTTSResponse
+  RateLimitError
 } from './types';
 import { toError } from '../../../utils/errors';
+import { isAbortError } from './abort';
+import { probeAudio } from './audioDuration';
+import { ProviderError, createDefaultTTSProviders } from '../providers/index';
+import type { GeneratedAudio, TTSProvider, TTSRequest } from '../providers/index';
 
 export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, AudioAssetResult> {
+  private providers: Map<string, TTSProvider>;
 
-  // Voice mapping configuration
-  private static readonly VOICE_MAP = {
-    'openai-tts': {
-      'neutral-epic': 'onyx',
-      'neutral-calm': 'nova',
-      'feminine-mysterious': 'shimmer',
-      'feminine-calm': 'nova',
-      'feminine-epic': 'shimmer',
-      'feminine-urgent': 'shimmer',
-      'masculine-urgent': 'echo',
-      'masculine-calm': 'onyx',
-      'masculine-epic': 'onyx',
-      'masculine-mysterious': 'echo'
-    },
-    'google-tts': {
-      'neutral-epic': 'en-US-Journey-F',
-      'neutral-calm': 'en-US-Neural2-C',
-      'feminine-mysterious': 'en-US-Neural2-F',
-      'feminine-calm': 'en-US-Neural2-A',
-      'feminine-epic': 'en-US-Neural2-F',
-      'feminine-urgent': 'en-US-Neural2-G',
-      'masculine-urgent': 'en-US-Neural2-D',
-      'masculine-calm': 'en-US-Neural2-J',
-      'masculine-epic': 'en-US-Neural2-I',
-      'masculine-mysterious': 'en-US-Neural2-D'
+  /**
+   * @param providers - Adapters to speak with; the first one serving a model handles it
+   *   (default: OpenAI TTS and Google Cloud Text-to-Speech)
+   */
+  constructor(providers: TTSProvider[] = createDefaultTTSProviders()) {
+    super();
+    this.providers = new Map();
+    for (const provider of providers) {
+      for (const model of provider.models) {
+        if (!this.providers.has(model)) {
+          this.providers.set(model, provider);
+        }
+      }
     }
-  };
+  }
 
   /**
    * Generate audio narration from text input
@@ -67,13 +60,19 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
       return cached;
     }
 
-    // Apply rate limiting
-    await this.applyRateLimit('tts_generation', context);
+    // A missing key would fail every attempt the same way, so check it before retrying
+    this.validateApiKeys([this.getProvider(action).apiKeyName], context.apiKeys);
 
-    // Generate audio with retry logic
+    // Generate audio with retry logic, each attempt within the rate limit
     const result = await this.executeWithRetry(
       () => this.generateAudio(action, context),
-      { action, operation: 'TTS generation' }
+      {
+        action,
+        operation: 'TTS generation',
+        signal: context.signal,
+        onRetry: context.onRetry,
+        rateLimit: { resource: 'tts_generation', limiter: context.rateLimiter }
+      }
     );
 
     // Store in cache
@@ -140,11 +139,10 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
     }
 
     // Validate model
-    const validModels = ['openai-tts', 'google-tts'];
-    if (!validModels.includes(action.model)) {
+    if (!this.providers.has(action.model)) {
       errors.push({
         field: 'model',
-        message: `Model must be one of: ${validModels.join(', ')}`,
+        message: `Model must be one of: ${Array.from(this.providers.keys()).join(', ')}`,
         code: 'INVALID_VALUE'
       });
     }
@@ -176,22 +174,13 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
    * Estimate cost for TTS generation
    */
   estimateCost(action: AssetSubtitleAction): CostEstimate {
-    const charCount = action.text.length;
-
-    // Cost per million characters by model
-    const modelCosts = {
-      'openai-tts': 15, // $15 per million characters
-      'google-tts': 4   // $4 per million characters (standard voices)
-    };
-
-    const costPerChar = (modelCosts[action.model] || 15) / 1_000_000;
-    const estimatedCost = charCount * costPerChar;
-
-    return {
-      min: estimatedCost,
-      max: estimatedCost,
-      currency: 'USD'
-    };
+    const provider = this.providers.get(action.model);
+    if (!provider) {
+      // Priced like OpenAI TTS, $15 per million characters
+      const estimatedCost = action.text.length * (15 / 1_000_000);
+      return { min: estimatedCost, max: estimatedCost, currency: 'USD' };
+    }
+    return provider.estimate(this.createRequest(action, this.buildVoiceConfig(action)));
   }
 
   /**
@@ -201,19 +190,18 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
     // Build voice configuration
     const voiceConfig = this.buildVoiceConfig(action);
 
-    // Call appropriate TTS API based on model
-    const apiResponse = action.model === 'openai-tts'
-      ? await this.callOpenAITTS(action.text, voiceConfig, context)
-      : await this.callGoogleTTS(action.text, voiceConfig, context);
+    // Call the provider serving the action's model
+    const audio = await this.callProvider(action, this.createRequest(action, voiceConfig), context);
 
-    // Analyze audio for duration
-    const duration = await this.getAudioDuration(apiResponse.audioData);
+    // Read the duration from the audio itself
+    const info = probeAudio(audio.data);
+    const duration = info?.duration ?? this.estimateDuration(action);
 
     // Store the generated audio
-    const storedAsset = await context.storage.store(apiResponse.audioData, {
+    const storedAsset = await context.storage.store(audio.data, {
       id: action.id,
       type: 'audio',
-      format: 'mp3',
+      format: audio.format,
       duration
     });
 
@@ -227,18 +215,18 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
       url: storedAsset.url,
       duration,
       metadata: {
-        format: 'mp3' as const,
+        format: audio.format,
         model: action.model,
         voice: voiceConfig.voice,
         text: action.text,
-        sampleRate: 22050, // Standard sample rate
+        sampleRate: info?.sampleRate ?? 22050,
         voiceGender: action.voice_gender,
         voiceTone: action.voice_tone,
         voicePace: action.voice_pace,
         characterCount: charCount,
         ...this.createBaseMetadata(action)
       },
-      cost: apiResponse.cost
+      cost: audio.cost
     };
 
     return result;
@@ -248,9 +236,8 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
    * Build voice configuration from action parameters
    */
   private buildVoiceConfig(action: AssetSubtitleAction): VoiceConfig {
-    const voiceKey = `${action.voice_gender}-${action.voice_tone}`;
-    const voiceMap = SubtitleAssetExecutor.VOICE_MAP[action.model];
-    const voice = voiceMap[voiceKey as keyof typeof voiceMap] || voiceMap['neutral-calm'];
+    const voices = this.providers.get(action.model)?.voices ?? {};
+    const voice = voices[`${action.voice_gender}-${action.voice_tone}`] || voices['neutral-calm'] || 'default';
 
     return {
       voice,
@@ -286,94 +273,57 @@ export class SubtitleAssetExecutor extends BaseExecutor<AssetSubtitleAction, Aud
     return pitchMap[tone as keyof typeof pitchMap] || 0.0;
   }
 
+  private createRequest(action: AssetSubtitleAction, voiceConfig: VoiceConfig): TTSRequest {
+    return { text: action.text, ...voiceConfig, model: action.model };
+  }
+
   /**
-   * Call OpenAI TTS API
+   * The provider serving the action's model
    */
-  private async callOpenAITTS(text: string, voiceConfig: VoiceConfig, context: ExecutionContext): Promise<OpenAITTSResponse> {
-    this.validateApiKeys(['openaiApiKey'], context.apiKeys);
-
-    try {
-      // Mock API call for now - would be replaced with actual OpenAI API
-      console.log(`[MOCK] Calling OpenAI TTS: ${text.substring(0, 50)}... (${voiceConfig.voice})`);
-      
-      // Simulate API delay
-      await this.sleep(1500);
-
-      // Create mock audio data (in production, this would be actual audio)
-      const audioData = Buffer.from(`Mock OpenAI TTS audio data for: ${text}`);
-
-      // Calculate cost ($15 per million characters)
-      const cost = (text.length / 1_000_000) * 15;
-
-      return {
-        audioData,
-        cost
-      };
-
-    } catch (error) {
-      const errorObj = toError(error, 'OpenAI TTS API call failed');
-      throw this.createError(
-        `OpenAI TTS API call failed: ${errorObj.message}`,
-        { type: 'asset_subtitle', id: 'temp', text, voice_gender: 'neutral', voice_tone: 'calm', voice_pace: 'normal', model: 'openai-tts' } as AssetSubtitleAction,
-        true, // Retryable
-        { originalError: errorObj }
-      );
+  private getProvider(action: AssetSubtitleAction): TTSProvider {
+    const provider = this.providers.get(action.model);
+    if (!provider) {
+      throw this.createError(`No TTS provider for model ${action.model}`, action, false);
     }
+    return provider;
   }
 
   /**
-   * Call Google Cloud TTS API
+   * Synthesize speech with the provider serving the action's model
    */
-  private async callGoogleTTS(text: string, voiceConfig: VoiceConfig, context: ExecutionContext): Promise<GoogleTTSResponse> {
-    this.validateApiKeys(['googleCloudApiKey'], context.apiKeys);
+  private async callProvider(
+    action: AssetSubtitleAction,
+    request: TTSRequest,
+    context: ExecutionContext
+  ): Promise<GeneratedAudio> {
+    const provider = this.getProvider(action);
 
     try {
-      // Mock API call for now - would be replaced with actual Google Cloud TTS API
-      console.log(`[MOCK] Calling Google TTS: ${text.substring(0, 50)}... (${voiceConfig.voice})`);
-      
-      // Simulate API delay
-      await this.sleep(2000);
-
-      // Create mock audio data
-      const audioData = Buffer.from(`Mock Google TTS audio data for: ${text}`);
-
-      // Calculate cost ($4 per million characters for standard voices)
-      const cost = (text.length / 1_000_000) * 4;
-
-      return {
-        audioData,
-        cost
-      };
-
+      return await provider.generate(request, {
+        apiKey: context.apiKeys[provider.apiKeyName]!,
+        signal: context.signal
+      });
     } catch (error) {
-      const errorObj = toError(error, 'Google TTS API call failed');
+      // Cancellation and provider rate limits are handled by executeWithRetry
+      if (isAbortError(error) || error instanceof RateLimitError) {
+        throw error;
+      }
+      const errorObj = toError(error, `${provider.name} call failed`);
       throw this.createError(
-        `Google TTS API call failed: ${errorObj.message}`,
-        { type: 'asset_subtitle', id: 'temp', text, voice_gender: 'neutral', voice_tone: 'calm', voice_pace: 'normal', model: 'google-tts' } as AssetSubtitleAction,
-        true, // Retryable
-        { originalError: errorObj }
+        `${provider.name} call failed: ${errorObj.message}`,
+        action,
+        error instanceof ProviderError ? error.retryable : true,
+        { originalError: errorObj, status: error instanceof ProviderError ? error.status : undefined }
       );
     }
   }
 
   /**
-   * Get audio duration from audio data
-   * In production, this would analyze the actual audio file
+   * Duration for audio the probe can't read, from the text at the action's pace
    */
-  private async getAudioDuration(audioData: Buffer): Promise<number> {
-    // Mock duration calculation based on mock text length
-    // In production, would use audio analysis library like 'node-ffmpeg' or 'music-metadata'
-    const mockText = audioData.toString();
-    const textMatch = mockText.match(/Mock .* TTS audio data for: (.+)/);
-    const text = textMatch ? textMatch[1] : mockText;
-    
-    const estimatedWordsPerMinute = 150;
-    const words = text.trim().split(/\s+/).length;
-    
-    // Calculate duration in seconds: words / (words per minute) * 60
-    const durationSeconds = Math.max(1, Math.round((words / estimatedWordsPerMinute) * 60));
-    
-    return durationSeconds;
+  private estimateDuration(action: AssetSubtitleAction): number {
+    console.warn(`[SubtitleAssetExecutor] Could not read the duration of ${action.id}; estimating from its text`);
+    return SubtitleAssetExecutor.estimateSpeechDuration(action.text, action.voice_pace);
   }
 
   /**
@@ -0,0 +1,55 @@
+/**
+ * Cancellation helpers shared by executors and the action pipeline
+ *
+ * Cancellation uses the platform AbortSignal, so the same signal can also be
+ * handed to fetch() once executors call real APIs. An aborted operation
+ * rejects with the signal's reason, which is a DOMException named
+ * 'AbortError' unless the caller passed its own reason to abort().
+ */
+
+import { AbortError } from './types';
+
+/**
+ * True for errors raised because an operation was cancelled
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Error describing why a signal was aborted
+ */
+export function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new AbortError('The operation was cancelled');
+}
+
+/**
+ * Throw if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw abortReason(signal);
+  }
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
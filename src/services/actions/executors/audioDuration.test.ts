@@ -0,0 +1,105 @@
+/**
+ * Tests for audio duration probing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { probeAudio } from './audioDuration';
+import { createSilentMP3, createSilentWAV } from './mocks';
+
+/** MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames of 1152 samples */
+function createMPEG1Frames(count: number, firstFrameTag?: { tag: string; frames: number }): Uint8Array {
+  const frameLength = 417;
+  const data = new Uint8Array(count * frameLength);
+  for (let i = 0; i < count; i++) {
+    data.set([0xff, 0xfb, 0x90, 0x00], i * frameLength);
+  }
+  if (firstFrameTag) {
+    // Stereo MPEG-1 side information is 32 bytes
+    const offset = 4 + 32;
+    data.set(Array.from(firstFrameTag.tag, c => c.charCodeAt(0)), offset);
+    new DataView(data.buffer).setUint32(offset + 4, 0x01); // frame count present
+    new DataView(data.buffer).setUint32(offset + 8, firstFrameTag.frames);
+  }
+  return data;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+describe('probeAudio', () => {
+  describe('MP3', () => {
+    it('should sum the samples of every frame', () => {
+      const info = probeAudio(createMPEG1Frames(100));
+
+      expect(info).toEqual({ format: 'mp3', duration: 2.612, sampleRate: 44100, channels: 2 });
+    });
+
+    it('should read MPEG-2 frames', () => {
+      const info = probeAudio(createSilentMP3(3));
+
+      expect(info).toMatchObject({ sampleRate: 22050, channels: 1 });
+      expect(info!.duration).toBeCloseTo(3, 1);
+    });
+
+    it('should use the frame count of a Xing or Info header', () => {
+      expect(probeAudio(createMPEG1Frames(3, { tag: 'Xing', frames: 1000 }))!.duration).toBe(26.122);
+      expect(probeAudio(createMPEG1Frames(3, { tag: 'Info', frames: 500 }))!.duration).toBe(13.061);
+    });
+
+    it('should skip a leading ID3v2 tag', () => {
+      // 20-byte tag body; the size is syncsafe
+      const tag = new Uint8Array(30);
+      tag.set([0x49, 0x44, 0x33, 0x04, 0x00, 0x00, 0x00, 0x00, 0x00, 20]);
+      // A sync-like pattern inside the tag must not be read as a frame
+      tag.set([0xff, 0xfb, 0x10, 0x00], 12);
+
+      expect(probeAudio(concat(tag, createMPEG1Frames(100)))!.duration).toBe(2.612);
+    });
+
+    it('should stop at a trailing ID3v1 tag', () => {
+      const tag = new Uint8Array(128);
+      tag.set([0x54, 0x41, 0x47]); // "TAG"
+      tag.set([0xff, 0xfb, 0x90, 0x00], 10);
+
+      expect(probeAudio(concat(createMPEG1Frames(100), tag))!.duration).toBe(2.612);
+    });
+  });
+
+  describe('WAV', () => {
+    it('should divide the data size by the byte rate', () => {
+      expect(probeAudio(createSilentWAV(1.5, 16000))).toEqual({
+        format: 'wav',
+        duration: 1.5,
+        sampleRate: 16000,
+        channels: 1
+      });
+    });
+
+    it('should use the received data when the size was left unset', () => {
+      const wav = createSilentWAV(0.5);
+      new DataView(wav.buffer).setUint32(40, 0xffffffff, true);
+
+      expect(probeAudio(wav)!.duration).toBe(0.5);
+    });
+
+    it('should skip chunks before the data', () => {
+      const wav = createSilentWAV(0.25);
+      const list = new Uint8Array([0x4c, 0x49, 0x53, 0x54, 3, 0, 0, 0, 1, 2, 3, 0]); // odd-sized LIST chunk, padded
+      const data = concat(wav.subarray(0, 36), list, wav.subarray(36));
+
+      expect(probeAudio(data)!.duration).toBe(0.25);
+    });
+  });
+
+  it('should return null for anything else', () => {
+    expect(probeAudio(new TextEncoder().encode('Mock OpenAI TTS audio data for: hello'))).toBeNull();
+    expect(probeAudio(new Uint8Array())).toBeNull();
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Audio duration probing
+ *
+ * Reads the duration of generated narration from the audio itself, so
+ * subtitle results and cutscene timing match what the player hears. Only
+ * the MP3 frame and WAV chunk headers are read; nothing is decoded.
+ */
+
+export interface AudioInfo {
+  format: 'mp3' | 'wav';
+  /** Seconds, rounded to milliseconds */
+  duration: number;
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * Probe MP3 or WAV data
+ *
+ * @returns null when the data is neither, or holds no audio
+ */
+export function probeAudio(data: Uint8Array): AudioInfo | null {
+  if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WAVE') {
+    return probeWAV(data);
+  }
+  return probeMP3(data);
+}
+
+function probeWAV(data: Uint8Array): AudioInfo | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let byteRate = 0;
+  let sampleRate = 0;
+  let channels = 0;
+  let offset = 12;
+
+  while (offset + 8 <= data.length) {
+    const id = ascii(data, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ' && body + 16 <= data.length) {
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      byteRate = view.getUint32(body + 8, true);
+    } else if (id === 'data') {
+      if (!byteRate) {
+        return null;
+      }
+      // Streamed WAVs leave the size unset (0 or 0xFFFFFFFF); use what arrived
+      const available = data.length - body;
+      const dataSize = size === 0 || size > available ? available : size;
+      return { format: 'wav', duration: round(dataSize / byteRate), sampleRate, channels };
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size % 2);
+  }
+  return null;
+}
+
+// Bitrates in kbps by [MPEG-1 ? 0 : 1][layer - 1][index]
+const BITRATES = [
+  [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320]
+  ],
+  [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160]
+  ]
+];
+
+// Sample rates by version bits (0 = MPEG-2.5, 2 = MPEG-2, 3 = MPEG-1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000]
+};
+
+interface FrameHeader {
+  mpeg1: boolean;
+  layer: number;
+  sampleRate: number;
+  channels: number;
+  /** Bytes including the header */
+  length: number;
+  samples: number;
+}
+
+function probeMP3(data: Uint8Array): AudioInfo | null {
+  let offset = skipID3v2(data);
+  let first: FrameHeader | null = null;
+  let samples = 0;
+
+  while (offset + 4 <= data.length) {
+    const frame = readFrameHeader(data, offset);
+    if (!frame) {
+      // An ID3v1 tag ends the stream; anything else is junk to resync past
+      if (first && ascii(data, offset, 3) === 'TAG') {
+        break;
+      }
+      offset++;
+      continue;
+    }
+
+    if (!first) {
+      first = frame;
+      // A Xing/Info or VBRI header in the first frame states the frame count
+      const frames = readVBRFrameCount(data, offset, frame);
+      if (frames !== null) {
+        return mp3Info(frame, frames * frame.samples);
+      }
+    }
+    samples += frame.samples;
+    offset += frame.length;
+  }
+
+  return first ? mp3Info(first, samples) : null;
+}
+
+function mp3Info(frame: FrameHeader, samples: number): AudioInfo {
+  return {
+    format: 'mp3',
+    duration: round(samples / frame.sampleRate),
+    sampleRate: frame.sampleRate,
+    channels: frame.channels
+  };
+}
+
+function readFrameHeader(data: Uint8Array, offset: number): FrameHeader | null {
+  const [b0, b1, b2, b3] = data.subarray(offset, offset + 4);
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) {
+    return null;
+  }
+
+  const version = (b1 >> 3) & 0x03;
+  const layer = 4 - ((b1 >> 1) & 0x03);
+  const bitrateIndex = b2 >> 4;
+  const sampleRateIndex = (b2 >> 2) & 0x03;
+  // Reserved values, and free-format streams whose frame length can't be computed
+  if (version === 1 || layer === 4 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const mpeg1 = version === 3;
+  const bitrate = BITRATES[mpeg1 ? 0 : 1][layer - 1][bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const padding = (b2 >> 1) & 0x01;
+  const channels = (b3 >> 6) === 3 ? 1 : 2;
+
+  let length: number;
+  let samples: number;
+  if (layer === 1) {
+    length = (Math.floor((12 * bitrate) / sampleRate) + padding) * 4;
+    samples = 384;
+  } else if (layer === 3 && !mpeg1) {
+    length = Math.floor((72 * bitrate) / sampleRate) + padding;
+    samples = 576;
+  } else {
+    length = Math.floor((144 * bitrate) / sampleRate) + padding;
+    samples = 1152;
+  }
+
+  return { mpeg1, layer, sampleRate, channels, length, samples };
+}
+
+function readVBRFrameCount(data: Uint8Array, offset: number, frame: FrameHeader): number | null {
+  if (frame.layer !== 3) {
+    return null;
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // Xing/Info sits after the side information, whose size depends on version and channels
+  const sideInfo = frame.mpeg1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+  const xing = offset + 4 + sideInfo;
+  const tag = ascii(data, xing, 4);
+  if ((tag === 'Xing' || tag === 'Info') && xing + 12 <= data.length) {
+    const hasFrameCount = view.getUint32(xing + 4) & 0x01;
+    return hasFrameCount ? view.getUint32(xing + 8) : null;
+  }
+
+  const vbri = offset + 4 + 32;
+  if (ascii(data, vbri, 4) === 'VBRI' && vbri + 18 <= data.length) {
+    return view.getUint32(vbri + 14);
+  }
+  return null;
+}
+
+/** Offset of the first byte after a leading ID3v2 tag */
+function skipID3v2(data: Uint8Array): number {
+  if (ascii(data, 0, 3) !== 'ID3' || data.length < 10) {
+    return 0;
+  }
+  // Tag size is a 28-bit "syncsafe" integer: 7 bits per byte
+  const size = (data[6] << 21) | (data[7] << 14) | (data[8] << 7) | data[9];
+  const footer = data[5] & 0x10 ? 10 : 0;
+  return 10 + size + footer;
+}
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
@@ -23,6 +23,7 @@ export type {
   // Execution context
   ExecutionContext,
   APIKeys,
+  RetryInfo,
   
   // Validation
   ValidationResult,
@@ -39,6 +40,7 @@ export type {
   
   // Rate limiting
   RateLimiter,
+  RateLimitedResource,
   
   // Cost tracking
   CostTracker,
@@ -52,13 +54,7 @@ export type {
   CutsceneShot,
   
   // Voice configuration
-  VoiceConfig,
-  
-  // API responses
-  FluxAPIResponse,
-  SDXLAPIResponse,
-  OpenAITTSResponse,
-  GoogleTTSResponse
+  VoiceConfig
 } from './types';
 
 // Error classes
@@ -66,9 +62,17 @@ export {
   AssetGenerationError,
   ValidationError,
   StorageError,
-  RateLimitError
+  RateLimitError,
+  AbortError
 } from './types';
 
+// Cancellation helpers
+export { sleep, throwIfAborted, isAbortError, abortReason } from './abort';
+
+// Audio duration probing
+export { probeAudio } from './audioDuration';
+export type { AudioInfo } from './audioDuration';
+
 // Base executor
 export { BaseExecutor } from './BaseExecutor';
 
@@ -83,6 +87,12 @@ export { LocalAssetStorage } from '../storage/LocalAssetStorage';
 // Mock implementations for testing
 export {
   MockImageAssetExecutor,
+  MockImageProvider,
+  createMockImageProviders,
+  MockTTSProvider,
+  createMockTTSProviders,
+  createSilentMP3,
+  createSilentWAV,
   MockSubtitleAssetExecutor,
   MockCutsceneAssetExecutor,
   MockAssetStorage,
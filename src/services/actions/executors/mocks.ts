@@ -25,6 +25,17 @@ import {
   AssetMetadata,
   AssetResult
 } from './types';
+import { sleep } from './abort';
+import type {
+  GeneratedAudio,
+  GeneratedImage,
+  ImageProvider,
+  ImageRequest,
+  ProviderCallOptions,
+  TTSProvider,
+  TTSRequest
+} from '../providers/types';
+import { GOOGLE_TTS_VOICES, OPENAI_TTS_VOICES } from '../providers/index';
 
 /**
  * Mock Image Asset Executor
@@ -38,14 +49,13 @@ export class MockImageAssetExecutor implements AssetExecutor<AssetImageAction, I
     this.shouldFail = shouldFail;
   }
 
-  async execute(action: AssetImageAction, _context?: ExecutionContext): Promise<ImageAssetResult> {
-    void _context;
+  async execute(action: AssetImageAction, context?: ExecutionContext): Promise<ImageAssetResult> {
     if (this.shouldFail) {
       throw new Error(`Mock image generation failed for ${action.id}`);
     }
 
     // Simulate API delay
-    await this.sleep(this.delay);
+    await sleep(this.delay, context?.signal);
 
     // Parse dimensions
     const [width, height] = action.size.split('x').map(Number);
@@ -86,12 +96,148 @@ export class MockImageAssetExecutor implements AssetExecutor<AssetImageAction, I
     const cost = action.model === 'flux-schnell' ? 0.01 : 0.009;
     return { min: cost, max: cost, currency: 'USD' };
   }
+}
+
+/**
+ * Mock Image Provider
+ *
+ * Stands in for an HTTP adapter so ImageAssetExecutor runs without network access.
+ */
+export class MockImageProvider implements ImageProvider {
+  readonly name: string;
+  readonly models: readonly string[];
+  readonly apiKeyName: string;
+  readonly supportedSizes = ['1024x768', '768x1024', '1024x1024'];
+  private cost: number;
+
+  constructor(models: readonly string[] = ['flux-schnell'], cost = 0, apiKeyName = 'fluxApiKey') {
+    this.name = `Mock ${models.join('/')}`;
+    this.models = models;
+    this.cost = cost;
+    this.apiKeyName = apiKeyName;
+  }
+
+  async generate(request: ImageRequest, options: ProviderCallOptions): Promise<GeneratedImage> {
+    await sleep(10, options.signal);
+    return {
+      data: new TextEncoder().encode(`Mock image data for: ${request.prompt}`),
+      format: 'png',
+      cost: this.cost
+    };
+  }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  estimate(): CostEstimate {
+    return { min: this.cost, max: this.cost, currency: 'USD' };
   }
 }
 
+/**
+ * Mock providers for the models ImageAssetExecutor serves by default
+ */
+export function createMockImageProviders(): MockImageProvider[] {
+  return [
+    new MockImageProvider(['flux-schnell'], 0, 'fluxApiKey'),
+    new MockImageProvider(['sdxl'], 0.009, 'replicateApiKey')
+  ];
+}
+
+// MPEG-2 Layer III, 8 kbps, 22050 Hz, mono: 26-byte frames of 576 samples
+const SILENT_MP3_FRAME = [0xff, 0xf3, 0x10, 0xc0];
+const SILENT_MP3_FRAME_LENGTH = 26;
+const SILENT_MP3_FRAME_SECONDS = 576 / 22050;
+
+/**
+ * Build an MP3 of silent frames lasting about `seconds`, for code that
+ * probes real audio
+ */
+export function createSilentMP3(seconds: number): Uint8Array {
+  const frames = Math.max(1, Math.round(seconds / SILENT_MP3_FRAME_SECONDS));
+  const data = new Uint8Array(frames * SILENT_MP3_FRAME_LENGTH);
+  for (let frame = 0; frame < frames; frame++) {
+    data.set(SILENT_MP3_FRAME, frame * SILENT_MP3_FRAME_LENGTH);
+  }
+  return data;
+}
+
+/**
+ * Build a 16-bit mono PCM WAV of silence lasting `seconds`
+ */
+export function createSilentWAV(seconds: number, sampleRate = 8000): Uint8Array {
+  const dataSize = Math.round(seconds * sampleRate) * 2;
+  const data = new Uint8Array(44 + dataSize);
+  const view = new DataView(data.buffer);
+  const text = (offset: number, value: string) => data.set(Array.from(value, c => c.charCodeAt(0)), offset);
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  text(36, 'data');
+  view.setUint32(40, dataSize, true);
+  return data;
+}
+
+/**
+ * Mock TTS Provider
+ *
+ * Stands in for an HTTP adapter so SubtitleAssetExecutor runs without
+ * network access. Returns silent MP3 audio as long as the text would take
+ * to read at the requested speed, so duration probing sees real frames.
+ */
+export class MockTTSProvider implements TTSProvider {
+  readonly name: string;
+  readonly models: readonly string[];
+  readonly apiKeyName: string;
+  readonly voices: Readonly<Record<string, string>>;
+  private pricePerMillionChars: number;
+
+  constructor(
+    models: readonly string[] = ['openai-tts'],
+    pricePerMillionChars = 15,
+    apiKeyName = 'openaiApiKey',
+    voices: Readonly<Record<string, string>> = OPENAI_TTS_VOICES
+  ) {
+    this.name = `Mock ${models.join('/')}`;
+    this.models = models;
+    this.pricePerMillionChars = pricePerMillionChars;
+    this.apiKeyName = apiKeyName;
+    this.voices = voices;
+  }
+
+  async generate(request: TTSRequest, options: ProviderCallOptions): Promise<GeneratedAudio> {
+    await sleep(10, options.signal);
+    const words = request.text.trim().split(/\s+/).length;
+    const seconds = Math.max(1, (words / 150) * 60 / request.speed);
+    return {
+      data: createSilentMP3(seconds),
+      format: 'mp3',
+      cost: this.estimate(request).min
+    };
+  }
+
+  estimate(request: TTSRequest): CostEstimate {
+    const cost = request.text.length * (this.pricePerMillionChars / 1_000_000);
+    return { min: cost, max: cost, currency: 'USD' };
+  }
+}
+
+/**
+ * Mock providers for the models SubtitleAssetExecutor serves by default
+ */
+export function createMockTTSProviders(): MockTTSProvider[] {
+  return [
+    new MockTTSProvider(['openai-tts'], 15, 'openaiApiKey', OPENAI_TTS_VOICES),
+    new MockTTSProvider(['google-tts'], 4, 'googleCloudApiKey', GOOGLE_TTS_VOICES)
+  ];
+}
+
 /**
  * Mock Subtitle Asset Executor
  */
@@ -104,14 +250,13 @@ export class MockSubtitleAssetExecutor implements AssetExecutor<AssetSubtitleAct
     this.shouldFail = shouldFail;
   }
 
-  async execute(action: AssetSubtitleAction, _context?: ExecutionContext): Promise<AudioAssetResult> {
-    void _context;
+  async execute(action: AssetSubtitleAction, context?: ExecutionContext): Promise<AudioAssetResult> {
     if (this.shouldFail) {
       throw new Error(`Mock TTS generation failed for ${action.id}`);
     }
 
     // Simulate API delay
-    await this.sleep(this.delay);
+    await sleep(this.delay, context?.signal);
 
     // Estimate duration based on text length
     const estimatedDuration = Math.max(1, Math.round(action.text.length / 10));
@@ -158,10 +303,6 @@ export class MockSubtitleAssetExecutor implements AssetExecutor<AssetSubtitleAct
     const cost = action.text.length * costPerChar;
     return { min: cost, max: cost, currency: 'USD' };
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 /**
@@ -176,14 +317,13 @@ export class MockCutsceneAssetExecutor implements AssetExecutor<AssetCutsceneAct
     this.shouldFail = shouldFail;
   }
 
-  async execute(action: AssetCutsceneAction, _context?: ExecutionContext): Promise<CutsceneAssetResult> {
-    void _context;
+  async execute(action: AssetCutsceneAction, context?: ExecutionContext): Promise<CutsceneAssetResult> {
     if (this.shouldFail) {
       throw new Error(`Mock cutscene assembly failed for ${action.id}`);
     }
 
     // Simulate processing delay
-    await this.sleep(this.delay);
+    await sleep(this.delay, context?.signal);
 
     // Calculate total duration
     const totalDuration = action.shots.reduce((sum, shot) => sum + shot.duration, 0);
@@ -230,10 +370,6 @@ export class MockCutsceneAssetExecutor implements AssetExecutor<AssetCutsceneAct
   estimateCost(): CostEstimate {
     return { min: 0, max: 0, currency: 'USD' };
   }
-
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
 
 /**
@@ -326,6 +462,12 @@ export class MockAssetCache implements AssetCache {
     return entry.value as T;
   }
 
+  async has(key: string | object): Promise<boolean> {
+    const cacheKey = typeof key === 'string' ? key : JSON.stringify(key);
+    const entry = this.cache.get(cacheKey);
+    return !!entry && entry.expires >= Date.now();
+  }
+
   async set<T>(key: string | object, value: T, ttl = 3600000): Promise<void> {
     const cacheKey = typeof key === 'string' ? key : JSON.stringify(key);
     this.cache.set(cacheKey, {
@@ -342,10 +484,6 @@ export class MockAssetCache implements AssetCache {
   size(): number {
     return this.cache.size;
   }
-
-  has(key: string): boolean {
-    return this.cache.has(key);
-  }
 }
 
 /**
@@ -440,10 +578,10 @@ export class MockCostTracker implements CostTracker {
 
   getCostBreakdown(): {
     total: number;
-    byType: Record<'image' | 'tts', number>;
+    byType: Record<'image' | 'tts' | 'cutscene', number>;
     byModel: Record<string, number>;
   } {
-    const byType: Record<'image' | 'tts', number> = { image: 0, tts: 0 };
+    const byType: Record<'image' | 'tts' | 'cutscene', number> = { image: 0, tts: 0, cutscene: 0 };
     const byModel: Record<string, number> = {};
 
     for (const record of this.costs) {
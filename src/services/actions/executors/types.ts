@@ -4,103 +4,44 @@
  * These interfaces define the contracts between executors, storage, and external services.
  */
 
-// Core Action types (from DSL parser specification)
-export type Action = 
-  | ReasonAction
-  | AssetImageAction
-  | AssetSubtitleAction
-  | AssetCutsceneAction
-  | WhenThenAction
-  | PlayCutsceneAction
-  | ShowModalAction
-  | AddFeatureAction
-  | RemoveFeatureAction
-  | AddPlayerChoiceAction;
-
-// Asset-specific actions
-export interface AssetImageAction {
-  type: 'asset_image';
-  id: string;
-  prompt: string;
-  size: '1024x768' | '768x1024' | '1024x1024';
-  model: 'flux-schnell' | 'sdxl';
-}
-
-export interface AssetSubtitleAction {
-  type: 'asset_subtitle';
-  id: string;
-  text: string;
-  voice_gender: 'neutral' | 'feminine' | 'masculine';
-  voice_tone: 'epic' | 'calm' | 'mysterious' | 'urgent' | 'triumphant';
-  voice_pace: 'slow' | 'normal' | 'fast';
-  model: 'openai-tts' | 'google-tts';
-}
-
-export interface AssetCutsceneAction {
-  type: 'asset_cutscene';
-  id: string;
-  shots: CutsceneShot[];
-}
-
-export interface CutsceneShot {
-  image_id: string;
-  subtitle_id: string;
-  duration: number;
-  animation: 'none' | 'slow_zoom' | 'pan_left' | 'pan_right' | 'fade';
-}
-
-// Other action types (for completeness)
-export interface ReasonAction {
-  type: 'reason';
-  id?: string;
-  ephemeral_reasoning: string;
-}
-
-export interface WhenThenAction {
-  type: 'when_then';
-  id?: string;
-  condition: string;
-  action: Action;
-}
-
-export interface PlayCutsceneAction {
-  type: 'play_cutscene';
-  cutscene_id: string;
-}
-
-export interface ShowModalAction {
-  type: 'show_modal';
-  title: string;
-  content: string;
-  actions: string[];
-}
-
-export interface AddFeatureAction {
-  type: 'add_feature';
-  feature_type: string;
-  feature_data: Record<string, unknown>;
-  target: string;
-}
-
-export interface RemoveFeatureAction {
-  type: 'remove_feature';  
-  feature_type: string;
-  target: string;
-}
-
-export interface AddPlayerChoiceAction {
-  type: 'add_player_choice';
-  choice_id: string;
-  title: string;
-  description: string;
-  actions: Action[];
-}
+import type {
+  Action,
+  ReasonAction,
+  AssetImageAction,
+  AssetSubtitleAction,
+  AssetCutsceneAction,
+  CutsceneShot,
+  WhenThenAction,
+  PlayCutsceneAction,
+  ShowModalAction,
+  AddFeatureAction,
+  RemoveFeatureAction,
+  AddPlayerChoiceAction
+} from '../parser/types';
+
+// Action types come from the parser, which infers them from its zod schemas
+export type {
+  Action,
+  ReasonAction,
+  AssetImageAction,
+  AssetSubtitleAction,
+  AssetCutsceneAction,
+  CutsceneShot,
+  WhenThenAction,
+  PlayCutsceneAction,
+  ShowModalAction,
+  AddFeatureAction,
+  RemoveFeatureAction,
+  AddPlayerChoiceAction
+};
 
 // Core executor interfaces
 export interface AssetExecutor<T extends Action, R extends AssetResult> {
   execute(action: T, context: ExecutionContext): Promise<R>;
   validate(action: T): ValidationResult;
   estimateCost(action: T): CostEstimate;
+  /** Whether execute() would serve this action from the cache (used for dry runs) */
+  isCached?(action: T, cache: AssetCache): Promise<boolean>;
 }
 
 export interface ExecutionContext {
@@ -109,6 +50,18 @@ export interface ExecutionContext {
   cache: AssetCache;
   rateLimiter: RateLimiter;
   costTracker: CostTracker;
+  /** Aborted when the run is cancelled; executors stop waiting and reject with an AbortError */
+  signal?: AbortSignal;
+  /** Called before an executor retries a failed attempt */
+  onRetry?: (retry: RetryInfo) => void;
+}
+
+export interface RetryInfo {
+  /** The attempt that failed (1-based) */
+  attempt: number;
+  error: Error;
+  /** Backoff before the next attempt, in milliseconds */
+  delay: number;
 }
 
 export interface AssetResult {
@@ -190,13 +143,20 @@ export interface StoredAsset {
 // Caching interface
 export interface AssetCache {
   get<T>(key: string | Action): Promise<T | null>;
+  /** Whether an unexpired entry exists; unlike get, counts no hit or miss and leaves recency alone */
+  has(key: string | Action): Promise<boolean>;
   set<T>(key: string | Action, value: T, ttl?: number): Promise<void>;
   clear(): Promise<void>;
 }
 
 // Rate limiting interface
+export type RateLimitedResource = 'image_generation' | 'tts_generation';
+
 export interface RateLimiter {
-  acquire(resource: 'image_generation' | 'tts_generation'): Promise<void>;
+  /** Wait until a request to the resource may start; rejects when the signal is aborted */
+  acquire(resource: RateLimitedResource, signal?: AbortSignal): Promise<void>;
+  /** Hand back the concurrency slot taken by acquire() once the request has finished */
+  release?(resource: RateLimitedResource): void;
   reset(resource?: string): void;
 }
 
@@ -207,14 +167,24 @@ export interface CostTracker {
   getCostBreakdown(): CostBreakdown;
 }
 
-export type AssetType = 'image' | 'tts';
+export type AssetType = 'image' | 'tts' | 'cutscene';
 
+/** One asset's entry in the CostLedger */
 export interface CostRecord {
   timestamp: number;
+  /** The processor run that used the asset */
+  runId: string;
+  /** Planet the run was generating for (ProcessOptions.planetId) */
+  planetId?: string;
+  actionId: string;
   type: AssetType;
   model: string;
+  /** Billable units: images for image models, characters for TTS, shots for cutscenes */
   units: number;
+  /** USD; 0 for cache hits */
   cost: number;
+  /** Served from the cache (or generated ahead of time) instead of paid for again */
+  cacheHit: boolean;
 }
 
 export interface CostBreakdown {
@@ -262,27 +232,6 @@ export interface VoiceConfig {
   pitch: number;
 }
 
-// API response interfaces
-export interface FluxAPIResponse {
-  imageData: Buffer;
-  cost: number;
-}
-
-export interface SDXLAPIResponse {
-  imageData: Buffer;
-  cost: number;
-}
-
-export interface OpenAITTSResponse {
-  audioData: Buffer;
-  cost: number;
-}
-
-export interface GoogleTTSResponse {
-  audioData: Buffer;
-  cost: number;
-}
-
 // Error classes
 export class AssetGenerationError extends Error {
   constructor(
@@ -326,4 +275,11 @@ export class RateLimitError extends Error {
     super(message);
     this.name = 'RateLimitError';
   }
+}
+
+export class AbortError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AbortError';
+  }
 }
\ No newline at end of file
@@ -3,7 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
 import { DSLParser, parseActionDSL, parseActionObject } from './DSLParser';
+import { FeatureSchemaRegistry } from './featureSchemas';
+import { defineGameStateModel, entity, collection, field } from './gameStateModel';
 
 describe('DSLParser', () => {
   let parser: DSLParser;
@@ -423,6 +426,195 @@ describe('DSLParser', () => {
     });
   });
 
+  describe('Feature Data Validation', () => {
+    it('should accept payloads matching the registered schema', () => {
+      const result = parser.parseObject({
+        actions: [
+          {
+            type: 'add_feature',
+            feature_type: 'trait',
+            feature_data: { name: 'Bioluminescence', level: 2 },
+            target: 'species.primary'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should report the path into an invalid payload', () => {
+      const result = parser.parseObject({
+        actions: [
+          {
+            type: 'add_feature',
+            feature_type: 'technology',
+            feature_data: { name: 'Fire', prerequisites: ['tools', 3] },
+            target: 'species.primary'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0].type).toBe('invalid_feature_data');
+      expect(result.errors![0].path).toBe('feature_data.prerequisites.1');
+      expect(result.errors![0].actionIndex).toBe(0);
+    });
+
+    it('should reject misspelled payload keys', () => {
+      const result = parser.parseObject({
+        actions: [
+          {
+            type: 'when_then',
+            id: 'grow',
+            condition: 'game.harvest',
+            action: {
+              type: 'add_feature',
+              feature_type: 'population_modifier',
+              feature_data: { multiplyer: 1.5 },
+              target: 'species.primary'
+            }
+          }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors!.every(e => e.type === 'invalid_feature_data')).toBe(true);
+      expect(result.errors!.map(e => e.actionId)).toContain('grow');
+      expect(result.errors!.some(e => e.message.includes('multiplyer'))).toBe(true);
+    });
+
+    it('should use a custom feature schema registry', () => {
+      const featureSchemas = new FeatureSchemaRegistry()
+        .register('tool_use', z.strictObject({ level: z.number().int().min(1) }));
+      const customParser = new DSLParser({ featureSchemas });
+
+      const result = customParser.parseObject({
+        actions: [
+          {
+            type: 'add_feature',
+            feature_type: 'tool_use',
+            feature_data: { level: 0 },
+            target: 'species.primary'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0].path).toBe('feature_data.level');
+    });
+  });
+
+  describe('Game State Model Validation', () => {
+    const stateModel = defineGameStateModel({
+      game: entity({ planet_just_created: field('boolean'), turn: field('number') }),
+      planet: entity({
+        ice_age: field('boolean'),
+        region: collection(entity({ temperature: field('number') }), ['north', 'south'])
+      }),
+      species: collection(
+        entity({ population: field('number'), traits: field('list'), features: field('any') }),
+        ['primary', 'secondary']
+      )
+    });
+    let modelParser: DSLParser;
+
+    beforeEach(() => {
+      modelParser = new DSLParser({ stateModel });
+    });
+
+    it('should accept targets and conditions that resolve in the model', () => {
+      const result = modelParser.parseObject({
+        actions: [
+          {
+            type: 'add_feature',
+            feature_type: 'tool_use',
+            feature_data: { level: 1 },
+            target: 'planet.region.north'
+          },
+          {
+            type: 'when_then',
+            condition: 'species.primary.population > 1000 && species.primary.features.tool_use.level >= 2 && species.primary.traits.length > 0',
+            action: { type: 'remove_feature', feature_type: 'tool_use', target: 'species.secondary' }
+          }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should suggest corrections for misspelled targets', () => {
+      const result = modelParser.parseObject({
+        actions: [
+          {
+            type: 'add_feature',
+            feature_type: 'tool_use',
+            feature_data: { level: 1 },
+            target: 'species.primray'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0].type).toBe('invalid_target');
+      expect(result.errors![0].message).toContain("Did you mean 'primary'?");
+    });
+
+    it('should reject targets that are not entities', () => {
+      const result = modelParser.parseObject({
+        actions: [
+          {
+            type: 'remove_feature',
+            feature_type: 'tool_use',
+            target: 'game.turn'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors![0].type).toBe('invalid_target');
+    });
+
+    it('should report unknown condition paths with their column', () => {
+      const result = modelParser.parseObject({
+        actions: [
+          {
+            type: 'when_then',
+            id: 'thaw',
+            condition: 'game.turn > 3 && !planet.ice_aeg',
+            action: {
+              type: 'show_modal',
+              title: 'Thaw',
+              content: 'The ice retreats',
+              image_id: null,
+              subtitle_id: null
+            }
+          }
+        ]
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors![0]).toMatchObject({ type: 'invalid_condition', actionId: 'thaw' });
+      expect(result.errors![0].message).toContain("Unknown field 'ice_aeg' on 'planet' at column 26");
+      expect(result.errors![0].message).toContain("Did you mean 'ice_age'?");
+    });
+
+    it('should skip model validation when no model is given', () => {
+      const result = parser.parseObject({
+        actions: [
+          {
+            type: 'add_feature',
+            feature_type: 'tool_use',
+            feature_data: { level: 1 },
+            target: 'species.primray'
+          }
+        ]
+      });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
   describe('Nested Actions', () => {
     it('should handle deeply nested player choices', () => {
       const nestedChoiceDSL = {
@@ -466,7 +658,43 @@ describe('DSLParser', () => {
       const result = parser.parseObject(nestedChoiceDSL);
       expect(result.success).toBe(true);
       expect(result.graph!.gameActions).toContain('main_choice');
-      expect(result.graph!.gameActions).toContain('explore_choice');
+      // Reactions run as their own graph once the option is picked
+      expect(result.graph!.gameActions).not.toContain('explore_choice');
+      expect(Array.from(result.graph!.nodes.keys())).toEqual(['main_choice']);
+    });
+
+    it('should let reactions declare assets used by their own option', () => {
+      const reactionImage = { type: 'asset_image', id: 'cave_art', prompt: 'Cave paintings', size: '1024x768', model: 'flux-schnell' };
+      const caveModal = { type: 'show_modal', title: 'Cave', content: 'Paintings!', image_id: 'cave_art', subtitle_id: null };
+      const choice = (reactions: object[][]) => ({
+        type: 'add_player_choice',
+        id: 'explore',
+        prompt: 'Where to?',
+        options: reactions.map((optionReactions, index) => ({ label: `Option ${index}`, description: '', reactions: optionReactions }))
+      });
+
+      const result = parser.parseObject({ actions: [choice([[reactionImage, caveModal]])] });
+      expect(result.success).toBe(true);
+      expect(Array.from(result.graph!.nodes.keys())).toEqual(['explore']);
+      expect(result.graph!.nodes.get('explore')!.dependencies.size).toBe(0);
+
+      const otherOption = parser.parseObject({ actions: [choice([[reactionImage], [caveModal]])] });
+      expect(otherOption.errors).toEqual([expect.objectContaining({ type: 'unknown_reference', actionId: 'explore' })]);
+
+      const outside = parser.parseObject({ actions: [choice([[reactionImage]]), caveModal] });
+      expect(outside.errors).toEqual([expect.objectContaining({ type: 'unknown_reference', actionIndex: 1 })]);
+    });
+
+    it('should accept references to known IDs from outside the document', () => {
+      const reactions = {
+        actions: [{ type: 'play_cutscene', cutscene_id: 'intro' }]
+      };
+
+      expect(parser.parseObject(reactions).success).toBe(false);
+
+      const result = new DSLParser({ knownIds: ['intro'] }).parseObject(reactions);
+      expect(result.success).toBe(true);
+      expect(result.graph!.nodes.get('play_cutscene_0')!.dependencies.size).toBe(0);
     });
 
     it('should handle when_then with nested actions', () => {
@@ -617,6 +845,12 @@ describe('DSLParser', () => {
       // Assets can be created in parallel, so image and subtitle can be in any order
       expect(imageIndex).toBeLessThan(cutsceneIndex);
       expect(subtitleIndex).toBeLessThan(cutsceneIndex);
+
+      // Actions without IDs still depend on the assets they reference
+      const play = result.graph!.nodes.get('play_cutscene_3')!;
+      expect(play.dependencies).toEqual(new Set(['cutscene_1']));
+      expect(play.status).toBe('pending');
+      expect(result.graph!.nodes.get('cutscene_1')!.dependents).toEqual(new Set(['play_cutscene_3']));
     });
   });
 
@@ -3,8 +3,8 @@
  * Validates Action DSL JSON and creates execution-ready graphs
  */
 
-import type { Action, ActionGraph, ActionNode, ParserResult, ValidationError } from './types';
-import { ActionInputSchema, extractActionIds } from './schemas';
+import type { Action, ActionGraph, ActionNode, DocumentEntry, ParserResult, ValidationError } from './types';
+import { ActionInputSchema, ActionSchema, extractGraphIds, extractReferencedIds } from './schemas';
 
 /**
  * Type casting helper for Zod schema compatibility
@@ -22,19 +22,70 @@ import {
   validateDependencies,
   validateConditions,
   validateTargets,
+  validateFeatureData,
+  validateStatePaths,
   categorizeActions
 } from './validators';
 import { errorToValidationError, SchemaValidationError } from './errors';
+import { createDefaultFeatureSchemas, FeatureSchemaRegistry } from './featureSchemas';
+import type { GameStateModel } from './gameStateModel';
+import { DEFAULT_MIGRATIONS, migrateDocument } from './migrations';
+import type { DSLMigration } from './migrations';
+import { repairDocument, repairJSONText } from './repair';
+import type { RepairFix } from './repair';
+import { DEFAULT_LINT_RULES, lintActions } from './lint';
+import type { LintRule } from './lint';
+import { JSONSourceMap, locateErrors, locateSyntaxError } from './sourceMap';
+import { expandTemplates } from './templates';
+
+export interface DSLParserOptions {
+  /** Schemas for add_feature payloads (defaults to the built-in feature types) */
+  featureSchemas?: FeatureSchemaRegistry;
+  /** When given, targets and condition paths must resolve to locations in this model */
+  stateModel?: GameStateModel;
+  /** Steps used to upgrade older dsl_version documents (defaults to the built-in migrations) */
+  migrations?: DSLMigration[];
+  /**
+   * Repair common, unambiguous LLM mistakes when a document fails to parse
+   * (code fences, trailing commas, near-miss enums and references, missing nulls)
+   */
+  autoRepair?: boolean;
+  /** Rules run after a successful parse; findings become warnings (pass [] to disable) */
+  lintRules?: LintRule[];
+  /**
+   * IDs defined outside the document that it may reference, such as the
+   * assets of the document a choice's reactions came from. They are treated
+   * as already available and do not become graph nodes.
+   */
+  knownIds?: Iterable<string>;
+}
 
 /**
  * DSL Parser class for validating and parsing Action DSL JSON
  */
 export class DSLParser {
+  private featureSchemas: FeatureSchemaRegistry;
+  private stateModel: GameStateModel | null;
+  private migrations: DSLMigration[];
+  private autoRepair: boolean;
+  private lintRules: LintRule[];
+  private knownIds: string[];
+
+  constructor(options: DSLParserOptions = {}) {
+    this.featureSchemas = options.featureSchemas || createDefaultFeatureSchemas();
+    this.stateModel = options.stateModel || null;
+    this.migrations = options.migrations || DEFAULT_MIGRATIONS;
+    this.autoRepair = options.autoRepair ?? false;
+    this.lintRules = options.lintRules || DEFAULT_LINT_RULES;
+    this.knownIds = Array.from(options.knownIds || []);
+  }
+
   /**
    * Parse JSON string into validated action graph
    * 
    * @param json - JSON string containing action DSL to parse
-   * @returns ParserResult with either success graph or validation errors
+   * @returns ParserResult with either success graph or validation errors;
+   * errors and warnings carry a `location` (line, column, excerpt) in `json`
    * 
    * @example
    * ```typescript
@@ -50,15 +101,26 @@ export class DSLParser {
    * ```
    */
   parse(json: string): ParserResult {
+    let result: ParserResult;
     try {
-      const parsed = JSON.parse(json);
-      return this.parseObject(parsed);
+      if (this.autoRepair) {
+        result = this.parseWithTextRepair(json);
+      } else {
+        const parsed = JSON.parse(json);
+        result = this.parseObject(parsed);
+      }
     } catch (error) {
+      const location = locateSyntaxError(error, json);
+      const syntaxError = errorToValidationError(error);
       return {
         success: false,
-        errors: [errorToValidationError(error)]
+        errors: [location ? { ...syntaxError, location } : syntaxError]
       };
     }
+
+    // Positions refer to the text as given, which text repairs have rewritten
+    const textRepaired = result.repairs?.some(fix => fix.kind === 'code_fence' || fix.kind === 'trailing_comma');
+    return textRepaired ? result : this.attachLocations(result, json);
   }
 
   /**
@@ -69,10 +131,12 @@ export class DSLParser {
    * 
    * @description
    * Performs comprehensive validation in these steps:
-   * 1. Schema validation using Zod schemas
-   * 2. Semantic validation (unique IDs, valid references)
+   * 0. Migration of older dsl_version documents (rewrites become warnings)
+   * 1. Schema validation using Zod schemas, then template expansion
+   * 2. Semantic validation (unique IDs, valid references, feature payloads)
    * 3. Dependency analysis and circular dependency detection
    * 4. Builds execution-ready action graph with topological ordering
+   * 5. Lint rules over the valid document (findings become warnings)
    * 
    * @example
    * ```typescript
@@ -87,6 +151,76 @@ export class DSLParser {
    * ```
    */
   parseObject(obj: object): ParserResult {
+    // Step 0: Upgrade older document versions
+    const migration = migrateDocument(obj, this.migrations);
+    let result: ParserResult = migration.error
+      ? { success: false, errors: [migration.error] }
+      : this.validateDocument(migration.document);
+
+    // Optional repair pass, only for documents that failed validation
+    if (!result.success && !migration.error && this.autoRepair) {
+      const repair = repairDocument(migration.document, this.knownIds);
+      if (repair.fixes.length > 0) {
+        result = {
+          ...this.validateDocument(repair.document),
+          repairs: repair.fixes,
+          repairedDocument: repair.document
+        };
+      }
+    }
+
+    const warnings = [...migration.warnings, ...(result.warnings || [])];
+    return warnings.length > 0 ? { ...result, warnings } : result;
+  }
+
+  /**
+   * Parse JSON text, repairing code fences and trailing commas if it is not valid JSON
+   */
+  private parseWithTextRepair(json: string): ParserResult {
+    let parsed: object;
+    let textFixes: RepairFix[] = [];
+    try {
+      parsed = JSON.parse(json);
+    } catch (error) {
+      const repaired = repairJSONText(json);
+      if (repaired.fixes.length === 0) {
+        throw error;
+      }
+      parsed = JSON.parse(repaired.text);
+      textFixes = repaired.fixes;
+    }
+
+    const result = this.parseObject(parsed);
+    if (textFixes.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      repairs: [...textFixes, ...(result.repairs || [])],
+      repairedDocument: result.repairedDocument ?? parsed
+    };
+  }
+
+  /**
+   * Add line/column positions in `json` to errors and warnings
+   */
+  private attachLocations(result: ParserResult, json: string): ParserResult {
+    if (!result.errors?.length && !result.warnings?.length) {
+      return result;
+    }
+
+    const sourceMap = new JSONSourceMap(json);
+    return {
+      ...result,
+      ...(result.errors && { errors: locateErrors(result.errors, sourceMap) }),
+      ...(result.warnings && { warnings: locateErrors(result.warnings, sourceMap) })
+    };
+  }
+
+  /**
+   * Validate a (migrated) document and build its action graph
+   */
+  private validateDocument(obj: unknown): ParserResult {
     const errors: ValidationError[] = [];
 
     // Step 1: Schema validation
@@ -94,9 +228,9 @@ export class DSLParser {
     if (!schemaResult.success) {
       const zodErrors = schemaResult.error.issues || [];
       const schemaErrors = zodErrors.map((err, index) => {
-        const path = (err.path && err.path.length > 0) ? err.path.join('.') : 'root';
-        const message = `Schema validation failed at ${path}: ${err.message}`;
-        return new SchemaValidationError(message, index).toValidationError();
+        const documentPath = err.path ? err.path.join('.') : '';
+        const message = `Schema validation failed at ${documentPath || 'root'}: ${err.message}`;
+        return new SchemaValidationError(message, index, documentPath || undefined).toValidationError();
       });
       
       // Fallback if no specific errors
@@ -110,19 +244,31 @@ export class DSLParser {
       };
     }
 
-    const { actions } = schemaResult.data as { actions: Action[] };
+    // Step 1b: Expand templates into plain actions
+    const expansion = this.expandEntries(schemaResult.data.actions);
+    if (!expansion.success) {
+      return {
+        success: false,
+        errors: expansion.errors
+      };
+    }
+    const { actions, sourceIndices } = expansion;
 
     // Step 2: Semantic validation
     errors.push(...validateUniqueIds(actions));
-    errors.push(...validateReferences(actions));
+    errors.push(...validateReferences(actions, this.knownIds));
     errors.push(...validateConditions(actions));
     errors.push(...validateTargets(actions));
+    errors.push(...validateFeatureData(actions, this.featureSchemas));
+    if (this.stateModel) {
+      errors.push(...validateStatePaths(actions, this.stateModel));
+    }
 
     // If there are validation errors, return early
     if (errors.length > 0) {
       return {
         success: false,
-        errors
+        errors: this.toEntryIndices(errors, sourceIndices)
       };
     }
 
@@ -138,17 +284,68 @@ export class DSLParser {
     if (errors.length > 0) {
       return {
         success: false,
-        errors
+        errors: this.toEntryIndices(errors, sourceIndices)
       };
     }
 
     // Step 4: Build action graph
     const graph = this.buildActionGraph(actions, dependencies, executionOrder);
 
-    return {
-      success: true,
-      graph
-    };
+    // Step 5: Advisory lint rules
+    const warnings = this.toEntryIndices(lintActions(actions, this.lintRules), sourceIndices);
+
+    return warnings.length > 0
+      ? { success: true, graph, warnings }
+      : { success: true, graph };
+  }
+
+  /**
+   * Expand define_template/use_template entries and schema-check what they produce
+   *
+   * `sourceIndices` maps each resulting action to its root entry, or is null
+   * when the document uses no templates.
+   */
+  private expandEntries(entries: DocumentEntry[]):
+    | { success: true; actions: Action[]; sourceIndices: number[] | null }
+    | { success: false; errors: ValidationError[] } {
+    const plainActions = entries.filter(
+      (entry): entry is Action => entry.type !== 'define_template' && entry.type !== 'use_template'
+    );
+    if (plainActions.length === entries.length) {
+      return { success: true, actions: plainActions, sourceIndices: null };
+    }
+
+    const expansion = expandTemplates(entries);
+    if (expansion.errors.length > 0) {
+      return { success: false, errors: expansion.errors };
+    }
+
+    const result = ActionSchema.array().safeParse(expansion.actions);
+    if (!result.success) {
+      const errors = result.error.issues.map((issue, index) => {
+        const [position, ...rest] = issue.path as [number, ...PropertyKey[]];
+        const entryIndex = expansion.sourceIndices[position];
+        const entry = entries[entryIndex] as { template: string };
+        const produced = [position - expansion.sourceIndices.indexOf(entryIndex), ...rest].join('.');
+        const message = `Schema validation failed at actions.${entryIndex} (template '${entry.template}', action ${produced}): ${issue.message}`;
+        return new SchemaValidationError(message, index, `actions.${entryIndex}`).toValidationError();
+      });
+      return { success: false, errors };
+    }
+
+    return { success: true, actions: result.data, sourceIndices: expansion.sourceIndices };
+  }
+
+  /**
+   * Point errors about expanded actions at the root entry that produced them
+   */
+  private toEntryIndices(errors: ValidationError[], sourceIndices: number[] | null): ValidationError[] {
+    if (!sourceIndices) {
+      return errors;
+    }
+    return errors.map(error =>
+      error.actionIndex === undefined ? error : { ...error, actionIndex: sourceIndices[error.actionIndex] }
+    );
   }
 
   /**
@@ -163,7 +360,7 @@ export class DSLParser {
     
     // Build dependency graph - actions with IDs become trackable nodes
     actions.forEach((action, index) => {
-      const ids = extractActionIds(toRecord(action));
+      const ids = extractGraphIds(toRecord(action));
       
       if (ids.length > 0) {
         ids.forEach(id => {
@@ -178,17 +375,26 @@ export class DSLParser {
           });
         });
       } else {
-        // Actions without IDs still need execution tracking
+        // Actions without IDs still need execution tracking, and still wait
+        // for the assets they reference (a play_cutscene for its cutscene)
         const syntheticId = `${action.type}_${index}`;
+        const deps = new Set(extractReferencedIds(toRecord(action)).filter(id => dependencies.has(id)));
         nodes.set(syntheticId, {
           action,
-          dependencies: new Set(),
+          dependencies: deps,
           dependents: new Set(),
-          status: 'ready'
+          status: deps.size === 0 ? 'ready' : 'pending'
         });
       }
     });
 
+    // Referenced nodes may come later in the list, so link synthetic dependents afterwards
+    for (const [id, node] of nodes) {
+      if (!dependencies.has(id)) {
+        node.dependencies.forEach(dep => nodes.get(dep)?.dependents.add(id));
+      }
+    }
+
     // Categorize actions  
     const { assetActions, gameActions } = categorizeActions(actions);
 
@@ -262,6 +468,7 @@ export class DSLParser {
       if (!orderSet.has(nodeId)) {
         errors.push({
           type: 'circular_dependency',
+          severity: 'error',
           message: `Action ${nodeId} is not in execution order`,
           actionId: nodeId
         });
@@ -279,6 +486,7 @@ export class DSLParser {
       } else if (assetSet.has(actionId) && foundGameAction) {
         errors.push({
           type: 'circular_dependency',
+          severity: 'error',
           message: `Asset action ${actionId} comes after game actions in execution order`,
           actionId
         });
@@ -307,15 +515,15 @@ export class DSLParser {
 /**
  * Convenience function for one-off parsing
  */
-export function parseActionDSL(json: string): ParserResult {
-  const parser = new DSLParser();
+export function parseActionDSL(json: string, options: DSLParserOptions = {}): ParserResult {
+  const parser = new DSLParser(options);
   return parser.parse(json);
 }
 
 /**
  * Convenience function for parsing objects
  */
-export function parseActionObject(obj: object): ParserResult {
-  const parser = new DSLParser();
+export function parseActionObject(obj: object, options: DSLParserOptions = {}): ParserResult {
+  const parser = new DSLParser(options);
   return parser.parseObject(obj);
 }
\ No newline at end of file
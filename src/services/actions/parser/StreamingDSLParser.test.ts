@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the streaming DSL parser
+ */
+
+import { describe, it, expect } from 'vitest';
+import { StreamingDSLParser } from './StreamingDSLParser';
+import type { StreamedAction } from './StreamingDSLParser';
+import type { ValidationError } from './types';
+
+const document = JSON.stringify({
+  actions: [
+    { type: 'reason', ephemeral_reasoning: 'Braces { and ] inside "strings" are ignored' },
+    { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' },
+    {
+      type: 'asset_subtitle',
+      id: 'narration',
+      text: 'A world is born',
+      voice_tone: 'epic',
+      voice_gender: 'neutral',
+      voice_pace: 'normal',
+      model: 'openai-tts'
+    },
+    {
+      type: 'asset_cutscene',
+      id: 'scene',
+      shots: [{ image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+    },
+    { type: 'play_cutscene', cutscene_id: 'scene' }
+  ]
+}, null, 2);
+
+// Split text into fixed-size chunks to simulate token-by-token output
+function chunk(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) {
+    chunks.push(text.slice(i, i + size));
+  }
+  return chunks;
+}
+
+describe('StreamingDSLParser', () => {
+  it('emits each action as soon as its object closes', () => {
+    const parser = new StreamingDSLParser();
+    const imageEnd = document.indexOf('"flux-schnell"') + '"flux-schnell"'.length;
+
+    expect(parser.write(document.slice(0, imageEnd))).toHaveLength(1);
+
+    const completed = parser.write(document.slice(imageEnd, imageEnd + 10));
+    expect(completed.map(s => s.action.type)).toEqual(['asset_image']);
+    expect(completed[0].index).toBe(1);
+  });
+
+  it('produces the same actions regardless of chunk size', () => {
+    for (const size of [1, 3, 17, document.length]) {
+      const emitted: StreamedAction[] = [];
+      const parser = new StreamingDSLParser({ onAction: streamed => emitted.push(streamed) });
+      chunk(document, size).forEach(part => parser.write(part));
+
+      expect(emitted.map(s => s.action.type)).toEqual(['reason', 'asset_image', 'asset_subtitle', 'asset_cutscene', 'play_cutscene']);
+      expect(parser.end().success).toBe(true);
+    }
+  });
+
+  it('ignores text around the JSON document such as code fences', () => {
+    const parser = new StreamingDSLParser();
+    parser.write('Here you go:\n```json\n');
+    parser.write(document);
+    parser.write('\n```');
+
+    const result = parser.end();
+    expect(result.success).toBe(true);
+    expect(result.graph!.executionOrder).toContain('scene');
+    expect(parser.getActions()).toHaveLength(5);
+  });
+
+  it('reports schema errors per action without stopping the stream', () => {
+    const errors: ValidationError[] = [];
+    const parser = new StreamingDSLParser({ onError: error => errors.push(error) });
+
+    parser.write('{"actions": [{"type": "asset_image", "id": "bad", "prompt": "x", "size": "1x1", "model": "flux-schnell"},');
+    parser.write('{"type": "reason", "ephemeral_reasoning": "still parsed"}]}');
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ type: 'schema', actionIndex: 0 });
+    expect(parser.getActions().map(s => s.index)).toEqual([1]);
+  });
+
+  it('rejects duplicate ids as they arrive', () => {
+    const parser = new StreamingDSLParser();
+    const image = '{"type": "asset_image", "id": "dup", "prompt": "x", "size": "1024x768", "model": "sdxl"}';
+    parser.write(`{"actions": [${image}, ${image}`);
+
+    expect(parser.getActions()).toHaveLength(1);
+    expect(parser.getErrors()[0]).toMatchObject({ type: 'duplicate_id', actionId: 'dup' });
+  });
+
+  it('defers reference checks to end()', () => {
+    const parser = new StreamingDSLParser();
+    parser.write('{"actions": [{"type": "play_cutscene", "cutscene_id": "missing"}]}');
+
+    expect(parser.getErrors()).toHaveLength(0);
+    const result = parser.end();
+    expect(result.success).toBe(false);
+    expect(result.errors![0].type).toBe('unknown_reference');
+  });
+
+  it('fails end() when the document is incomplete', () => {
+    const parser = new StreamingDSLParser();
+    parser.write('{"actions": [{"type": "reason", "ephemeral_reasoning": "cut off"}');
+
+    expect(parser.getActions()).toHaveLength(1);
+    const result = parser.end();
+    expect(result.success).toBe(false);
+    expect(result.errors![0].message).toMatch(/Stream ended/);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Streaming DSL Parser
+ * Parses Action DSL JSON chunk by chunk as it arrives from an LLM
+ *
+ * Each element of the top-level `actions` array is emitted as soon as its
+ * closing brace arrives, after being validated against the action schema.
+ * Checks that need the whole document (references, dependency cycles) run
+ * in end(), which returns the same ParserResult as DSLParser.parse.
+ * Template entries are validated but not emitted; the actions they produce
+ * only exist once end() expands them.
+ */
+
+import type { Action, ParserResult, ValidationError } from './types';
+import { DocumentEntrySchema, extractActionIds } from './schemas';
+import { DSLParser } from './DSLParser';
+import type { DSLParserOptions } from './DSLParser';
+import { DuplicateIdError, SchemaValidationError } from './errors';
+
+function toRecord(action: Action): Record<string, unknown> {
+  return action as unknown as Record<string, unknown>;
+}
+
+export interface StreamedAction {
+  action: Action;
+  index: number;
+}
+
+export interface StreamingDSLParserOptions extends DSLParserOptions {
+  /** Called for each action that closed and passed schema validation */
+  onAction?: (streamed: StreamedAction) => void;
+  /** Called for each action that closed but failed validation */
+  onError?: (error: ValidationError) => void;
+}
+
+export class StreamingDSLParser {
+  private buffer = '';
+  private scanPos = 0;
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastRootString: string | null = null;
+  private rootStart = -1;
+  private rootEnd = -1;
+  private actionsDepth = -1;
+  private actionStart = -1;
+  private actionIndex = 0;
+  private seenIds = new Set<string>();
+  private actions: StreamedAction[] = [];
+  private errors: ValidationError[] = [];
+  private options: StreamingDSLParserOptions;
+
+  constructor(options: StreamingDSLParserOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Feed the next chunk of text
+   *
+   * @returns Actions that were completed by this chunk
+   */
+  write(chunk: string): StreamedAction[] {
+    this.buffer += chunk;
+    const completed: StreamedAction[] = [];
+
+    for (; this.scanPos < this.buffer.length; this.scanPos++) {
+      const char = this.buffer[this.scanPos];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          if (this.stack.length === 1) {
+            this.lastRootString = this.buffer.slice(this.stringStart + 1, this.scanPos);
+          }
+        }
+        continue;
+      }
+
+      // Ignore anything before the root object (e.g. a ```json fence)
+      if (this.rootStart === -1 && char !== '{') {
+        continue;
+      }
+      // Ignore anything after the root object closed
+      if (this.rootEnd !== -1) {
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.scanPos;
+          break;
+
+        case '{':
+        case '[':
+          if (this.rootStart === -1) {
+            this.rootStart = this.scanPos;
+          }
+          this.stack.push(char);
+          if (char === '[' && this.stack.length === 2 && this.lastRootString === 'actions') {
+            this.actionsDepth = this.stack.length;
+          } else if (char === '{' && this.actionsDepth !== -1 && this.stack.length === this.actionsDepth + 1) {
+            this.actionStart = this.scanPos;
+          }
+          break;
+
+        case '}':
+        case ']':
+          if (char === '}' && this.actionStart !== -1 && this.stack.length === this.actionsDepth + 1) {
+            const streamed = this.completeAction(this.buffer.slice(this.actionStart, this.scanPos + 1));
+            if (streamed) {
+              completed.push(streamed);
+            }
+            this.actionStart = -1;
+          }
+          if (char === ']' && this.stack.length === this.actionsDepth) {
+            this.actionsDepth = -1;
+          }
+          this.stack.pop();
+          if (this.stack.length === 0) {
+            this.rootEnd = this.scanPos + 1;
+          }
+          break;
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Finish the stream and run whole-document validation
+   */
+  end(): ParserResult {
+    if (this.rootStart === -1 || this.rootEnd === -1) {
+      return {
+        success: false,
+        errors: [
+          ...this.errors,
+          new SchemaValidationError('Stream ended before the action document was complete').toValidationError()
+        ]
+      };
+    }
+
+    // Blank out leading prose but keep its line breaks, so error locations match the stream
+    const preamble = this.buffer.slice(0, this.rootStart).replace(/[^\n]/g, ' ');
+    const parser = new DSLParser(this.options);
+    return parser.parse(preamble + this.buffer.slice(this.rootStart, this.rootEnd));
+  }
+
+  /**
+   * Actions emitted so far, in document order
+   */
+  getActions(): StreamedAction[] {
+    return [...this.actions];
+  }
+
+  /**
+   * Errors found while streaming (whole-document errors come from end())
+   */
+  getErrors(): ValidationError[] {
+    return [...this.errors];
+  }
+
+  private completeAction(text: string): StreamedAction | null {
+    const index = this.actionIndex++;
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid JSON';
+      this.reportError(new SchemaValidationError(`Invalid JSON in action ${index}: ${message}`, index).toValidationError());
+      return null;
+    }
+
+    const result = DocumentEntrySchema.safeParse(raw);
+    if (!result.success) {
+      result.error.issues.forEach(issue => {
+        const path = ['actions', index, ...issue.path].join('.');
+        this.reportError(
+          new SchemaValidationError(`Schema validation failed at ${path}: ${issue.message}`, index, path).toValidationError()
+        );
+      });
+      return null;
+    }
+
+    const action = result.data;
+    if (action.type === 'define_template' || action.type === 'use_template') {
+      return null;
+    }
+    const ids = extractActionIds(toRecord(action));
+    const duplicates = ids.filter(id => this.seenIds.has(id));
+    if (duplicates.length > 0) {
+      duplicates.forEach(id => this.reportError(new DuplicateIdError(id, index).toValidationError()));
+      return null;
+    }
+    ids.forEach(id => this.seenIds.add(id));
+
+    const streamed: StreamedAction = { action, index };
+    this.actions.push(streamed);
+    this.options.onAction?.(streamed);
+    return streamed;
+  }
+
+  private reportError(error: ValidationError): void {
+    this.errors.push(error);
+    this.options.onError?.(error);
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for the condition expression language
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCondition, evaluateCondition, resolveStatePath } from './conditions';
+import { ConditionSyntaxError } from './errors';
+import { DSLParser } from './DSLParser';
+
+describe('Condition expressions', () => {
+  const state = {
+    game: { planet_just_created: true, turn: 12 },
+    planet: { ice_age: false, biome: 'tundra' },
+    species: {
+      primary: {
+        population: 2500,
+        name: 'Glimmerfolk',
+        traits: ['bioluminescence', 'burrowing'],
+        features: { tool_use: { level: 2 } }
+      }
+    }
+  };
+
+  describe('parseCondition', () => {
+    it('should parse a bare path', () => {
+      const ast = parseCondition('game.planet_just_created');
+      expect(ast).toMatchObject({ kind: 'path', path: 'game.planet_just_created', segments: ['game', 'planet_just_created'] });
+    });
+
+    it('should respect operator precedence', () => {
+      const ast = parseCondition('a || b && !c');
+      expect(ast).toMatchObject({
+        kind: 'logical',
+        operator: '||',
+        left: { kind: 'path', path: 'a' },
+        right: {
+          kind: 'logical',
+          operator: '&&',
+          right: { kind: 'not', operand: { kind: 'path', path: 'c' } }
+        }
+      });
+    });
+
+    it('should parse comparisons, literals and exists()', () => {
+      expect(parseCondition('species.primary.population >= -10.5')).toMatchObject({
+        kind: 'comparison',
+        operator: '>=',
+        right: { kind: 'literal', value: -10.5 }
+      });
+      expect(parseCondition("planet.biome in ['tundra', \"desert\"]")).toMatchObject({
+        kind: 'comparison',
+        operator: 'in',
+        right: { kind: 'list', items: [{ value: 'tundra' }, { value: 'desert' }] }
+      });
+      expect(parseCondition('exists(species.secondary)')).toMatchObject({
+        kind: 'exists',
+        argument: { path: 'species.secondary' }
+      });
+    });
+
+    it('should record source offsets on nodes', () => {
+      const ast = parseCondition('x == 1 && y');
+      expect(ast.start).toBe(0);
+      expect(ast.end).toBe(11);
+      if (ast.kind !== 'logical') throw new Error('expected logical node');
+      expect(ast.right).toMatchObject({ kind: 'path', start: 10, end: 11 });
+    });
+
+    it.each([
+      ['', 'Condition is empty', 0],
+      ['.invalid.path.', "Unexpected character '.'", 0],
+      ['species..primary', "Expected identifier after '.'", 8],
+      ['population > ', 'Unexpected end of condition', 13],
+      ['(a && b', "Expected ')' but found end of condition", 7],
+      ["name == 'open", 'Unterminated string literal', 8],
+      ['a b', "Unexpected 'b'", 2],
+      ['a = 1', "Unexpected character '='", 2]
+    ])('should reject %j with position', (source, reason, position) => {
+      try {
+        parseCondition(source);
+        expect.fail('expected a ConditionSyntaxError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConditionSyntaxError);
+        expect((error as ConditionSyntaxError).reason).toBe(reason);
+        expect((error as ConditionSyntaxError).position).toBe(position);
+      }
+    });
+  });
+
+  describe('evaluateCondition', () => {
+    it('should evaluate bare paths by truthiness', () => {
+      expect(evaluateCondition('game.planet_just_created', state)).toBe(true);
+      expect(evaluateCondition('planet.ice_age', state)).toBe(false);
+      expect(evaluateCondition('game.missing.deeply', state)).toBe(false);
+    });
+
+    it('should evaluate the motivating example', () => {
+      expect(evaluateCondition('species.primary.population > 1000 && !planet.ice_age', state)).toBe(true);
+      expect(evaluateCondition('species.primary.population > 5000 || planet.ice_age', state)).toBe(false);
+    });
+
+    it('should compare numbers and strings without coercion', () => {
+      expect(evaluateCondition('game.turn == 12', state)).toBe(true);
+      expect(evaluateCondition("game.turn == '12'", state)).toBe(false);
+      expect(evaluateCondition("species.primary.name < 'Z'", state)).toBe(true);
+      expect(evaluateCondition("game.turn < 'Z'", state)).toBe(false);
+    });
+
+    it('should support in for lists, strings and object keys', () => {
+      expect(evaluateCondition("'burrowing' in species.primary.traits", state)).toBe(true);
+      expect(evaluateCondition("planet.biome in ['desert', 'ocean']", state)).toBe(false);
+      expect(evaluateCondition("'mmer' in species.primary.name", state)).toBe(true);
+      expect(evaluateCondition("'tool_use' in species.primary.features", state)).toBe(true);
+    });
+
+    it('should support exists()', () => {
+      expect(evaluateCondition('exists(planet.ice_age)', state)).toBe(true);
+      expect(evaluateCondition('exists(species.secondary)', state)).toBe(false);
+    });
+
+    it('should not mutate the state', () => {
+      const snapshot = JSON.stringify(state);
+      evaluateCondition('species.primary.features.tool_use.level >= 2 && exists(game.turn)', state);
+      expect(JSON.stringify(state)).toBe(snapshot);
+    });
+  });
+
+  describe('resolveStatePath', () => {
+    it('should not follow prototype properties', () => {
+      expect(resolveStatePath(state, ['game', 'constructor'])).toBeUndefined();
+      expect(resolveStatePath(state, ['species', 'primary', 'traits', 'length'])).toBe(2);
+    });
+  });
+
+  describe('DSLParser integration', () => {
+    it('should accept expression conditions and report syntax errors', () => {
+      const parser = new DSLParser();
+      const modal = { type: 'show_modal', title: 'T', content: 'C', image_id: null, subtitle_id: null };
+
+      const valid = parser.parseObject({
+        actions: [{ type: 'when_then', condition: 'species.primary.population > 1000 && !planet.ice_age', action: modal }]
+      });
+      expect(valid.success).toBe(true);
+
+      const invalid = parser.parseObject({
+        actions: [{ type: 'when_then', id: 'check', condition: 'population >> 3', action: modal }]
+      });
+      expect(invalid.success).toBe(false);
+      expect(invalid.errors![0]).toMatchObject({
+        type: 'invalid_condition',
+        actionId: 'check',
+        path: 'population >> 3'
+      });
+      expect(invalid.errors![0].message).toContain('column 13');
+    });
+  });
+});
@@ -0,0 +1,508 @@
+/**
+ * Condition expression language for when_then actions
+ *
+ * Grammar (lowest to highest precedence):
+ *   expression := or
+ *   or         := and ( '||' and )*
+ *   and        := unary ( '&&' unary )*
+ *   unary      := '!' unary | comparison
+ *   comparison := primary ( ( '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' ) primary )?
+ *   primary    := number | string | 'true' | 'false' | 'null'
+ *               | 'exists' '(' path ')' | path | list | '(' expression ')'
+ *   list       := '[' ( expression ( ',' expression )* )? ']'
+ *   path       := identifier ( '.' identifier )*
+ *
+ * A bare path (e.g. "game.planet_just_created") is still a valid condition
+ * and evaluates to the truthiness of the value it points at.
+ */
+
+import type {
+  ComparisonOperator,
+  ConditionExpression,
+  ConditionLiteralValue,
+  PathConditionNode
+} from './types';
+import { ConditionSyntaxError } from './errors';
+
+type TokenType = 'number' | 'string' | 'identifier' | 'path' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!'];
+const PUNCTUATION = ['(', ')', '[', ']', ','];
+const KEYWORDS = new Set(['true', 'false', 'null', 'in']);
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_PART = /[A-Za-z0-9_]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * Whether the next token may be a value (used to tell "-5" from subtraction)
+ */
+function canStartValue(tokens: Token[]): boolean {
+  const previous = tokens[tokens.length - 1];
+  if (!previous) return true;
+  if (previous.type === 'operator') return true;
+  if (previous.type === 'punctuation') return previous.value !== ')' && previous.value !== ']';
+  return previous.type === 'identifier' && previous.value === 'in';
+}
+
+/**
+ * Split a condition expression into tokens
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Numbers: 42, 3.14, -5 (a leading minus only where a value may start)
+    if (DIGIT.test(char) || (char === '-' && DIGIT.test(source[pos + 1] ?? '') && canStartValue(tokens))) {
+      const start = pos;
+      if (char === '-') pos++;
+      while (pos < source.length && DIGIT.test(source[pos])) pos++;
+      if (source[pos] === '.') {
+        pos++;
+        if (!DIGIT.test(source[pos] ?? '')) {
+          throw new ConditionSyntaxError('Expected digit after decimal point', pos);
+        }
+        while (pos < source.length && DIGIT.test(source[pos])) pos++;
+      }
+      tokens.push({ type: 'number', value: source.slice(start, pos), start, end: pos });
+      continue;
+    }
+
+    // Strings: 'text' or "text" with backslash escapes
+    if (char === '"' || char === "'") {
+      const start = pos;
+      const quote = char;
+      let value = '';
+      pos++;
+      while (pos < source.length && source[pos] !== quote) {
+        if (source[pos] === '\\' && pos + 1 < source.length) {
+          pos++;
+        }
+        value += source[pos];
+        pos++;
+      }
+      if (pos >= source.length) {
+        throw new ConditionSyntaxError('Unterminated string literal', start);
+      }
+      pos++; // closing quote
+      tokens.push({ type: 'string', value, start, end: pos });
+      continue;
+    }
+
+    // Identifiers and dotted paths: species.primary.population
+    if (IDENTIFIER_START.test(char)) {
+      const start = pos;
+      while (pos < source.length && IDENTIFIER_PART.test(source[pos])) pos++;
+      let isPath = false;
+      while (source[pos] === '.') {
+        pos++;
+        if (!IDENTIFIER_START.test(source[pos] ?? '')) {
+          throw new ConditionSyntaxError("Expected identifier after '.'", pos);
+        }
+        while (pos < source.length && IDENTIFIER_PART.test(source[pos])) pos++;
+        isPath = true;
+      }
+      const value = source.slice(start, pos);
+      tokens.push({ type: isPath ? 'path' : 'identifier', value, start, end: pos });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator, start: pos, end: pos + operator.length });
+      pos += operator.length;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      tokens.push({ type: 'punctuation', value: char, start: pos, end: pos + 1 });
+      pos++;
+      continue;
+    }
+
+    throw new ConditionSyntaxError(`Unexpected character '${char}'`, pos);
+  }
+
+  tokens.push({ type: 'eof', value: '', start: source.length, end: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token stream
+ */
+class ConditionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): ConditionExpression {
+    if (this.peek().type === 'eof') {
+      throw new ConditionSyntaxError('Condition is empty', 0);
+    }
+
+    const expression = this.parseOr();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new ConditionSyntaxError(`Unexpected ${describeToken(next)}`, next.start);
+    }
+    return expression;
+  }
+
+  private parseOr(): ConditionExpression {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      const right = this.parseAnd();
+      left = { kind: 'logical', operator: '||', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionExpression {
+    let left = this.parseUnary();
+    while (this.matchOperator('&&')) {
+      const right = this.parseUnary();
+      left = { kind: 'logical', operator: '&&', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): ConditionExpression {
+    const token = this.peek();
+    if (this.matchOperator('!')) {
+      const operand = this.parseUnary();
+      return { kind: 'not', operand, start: token.start, end: operand.end };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionExpression {
+    const left = this.parsePrimary();
+    const token = this.peek();
+
+    let operator: ComparisonOperator | null = null;
+    if (token.type === 'operator' && ['==', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      operator = token.value as ComparisonOperator;
+    } else if (token.type === 'identifier' && token.value === 'in') {
+      operator = 'in';
+    }
+
+    if (!operator) {
+      return left;
+    }
+
+    this.index++;
+    const right = this.parsePrimary();
+    return { kind: 'comparison', operator, left, right, start: left.start, end: right.end };
+  }
+
+  private parsePrimary(): ConditionExpression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.index++;
+        return { kind: 'literal', value: Number(token.value), start: token.start, end: token.end };
+
+      case 'string':
+        this.index++;
+        return { kind: 'literal', value: token.value, start: token.start, end: token.end };
+
+      case 'path':
+        this.index++;
+        return createPathNode(token);
+
+      case 'identifier':
+        return this.parseIdentifier(token);
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.index++;
+          const inner = this.parseOr();
+          const closing = this.expectPunctuation(')');
+          return { ...inner, start: token.start, end: closing.end };
+        }
+        if (token.value === '[') {
+          return this.parseList();
+        }
+        break;
+
+      case 'eof':
+        throw new ConditionSyntaxError('Unexpected end of condition', token.start);
+    }
+
+    throw new ConditionSyntaxError(`Unexpected ${describeToken(token)}`, token.start);
+  }
+
+  private parseIdentifier(token: Token): ConditionExpression {
+    this.index++;
+
+    const literals: Record<string, ConditionLiteralValue> = { true: true, false: false, null: null };
+    if (token.value in literals) {
+      return { kind: 'literal', value: literals[token.value], start: token.start, end: token.end };
+    }
+
+    if (token.value === 'in') {
+      throw new ConditionSyntaxError("Unexpected keyword 'in'", token.start);
+    }
+
+    if (token.value === 'exists' && this.peekPunctuation('(')) {
+      this.index++;
+      const argument = this.peek();
+      if (argument.type !== 'path' && !(argument.type === 'identifier' && !KEYWORDS.has(argument.value))) {
+        throw new ConditionSyntaxError('exists() expects a game state path', argument.start);
+      }
+      this.index++;
+      const closing = this.expectPunctuation(')');
+      return { kind: 'exists', argument: createPathNode(argument), start: token.start, end: closing.end };
+    }
+
+    return createPathNode(token);
+  }
+
+  private parseList(): ConditionExpression {
+    const opening = this.expectPunctuation('[');
+    const items: ConditionExpression[] = [];
+
+    if (!this.peekPunctuation(']')) {
+      do {
+        items.push(this.parseOr());
+      } while (this.matchPunctuation(','));
+    }
+
+    const closing = this.expectPunctuation(']');
+    return { kind: 'list', items, start: opening.start, end: closing.end };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peekPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punctuation' && token.value === value;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    if (this.peekPunctuation(value)) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): Token {
+    const token = this.peek();
+    if (!this.matchPunctuation(value)) {
+      const found = token.type === 'eof' ? 'end of condition' : describeToken(token);
+      throw new ConditionSyntaxError(`Expected '${value}' but found ${found}`, token.start);
+    }
+    return token;
+  }
+}
+
+function createPathNode(token: Token): PathConditionNode {
+  return {
+    kind: 'path',
+    path: token.value,
+    segments: token.value.split('.'),
+    start: token.start,
+    end: token.end
+  };
+}
+
+function describeToken(token: Token): string {
+  switch (token.type) {
+    case 'eof':
+      return 'end of condition';
+    case 'string':
+      return `string ${JSON.stringify(token.value)}`;
+    default:
+      return `'${token.value}'`;
+  }
+}
+
+/**
+ * Parse a condition expression into an AST
+ *
+ * @throws ConditionSyntaxError with the offset of the offending character
+ *
+ * @example
+ * ```typescript
+ * const ast = parseCondition('species.primary.population > 1000 && !planet.ice_age');
+ * ```
+ */
+export function parseCondition(source: string): ConditionExpression {
+  if (typeof source !== 'string') {
+    throw new ConditionSyntaxError('Condition must be a string', 0);
+  }
+  return new ConditionParser(tokenize(source)).parse();
+}
+
+/**
+ * Resolve a dotted path against a game-state object
+ *
+ * Only own properties are followed so paths like "game.constructor" never
+ * reach into object prototypes.
+ */
+export function resolveStatePath(state: unknown, segments: string[]): unknown {
+  let current: unknown = state;
+
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate an expression node to its raw value
+ */
+function evaluateNode(node: ConditionExpression, state: unknown): unknown {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+
+    case 'path':
+      return resolveStatePath(state, node.segments);
+
+    case 'list':
+      return node.items.map(item => evaluateNode(item, state));
+
+    case 'not':
+      return !evaluateNode(node.operand, state);
+
+    case 'logical': {
+      const left = Boolean(evaluateNode(node.left, state));
+      if (node.operator === '&&') {
+        return left && Boolean(evaluateNode(node.right, state));
+      }
+      return left || Boolean(evaluateNode(node.right, state));
+    }
+
+    case 'exists': {
+      const value = resolveStatePath(state, node.argument.segments);
+      return value !== undefined && value !== null;
+    }
+
+    case 'comparison':
+      return compareValues(
+        node.operator,
+        evaluateNode(node.left, state),
+        evaluateNode(node.right, state)
+      );
+  }
+}
+
+/**
+ * Apply a comparison operator
+ *
+ * Ordering operators only compare numbers with numbers and strings with
+ * strings; mixed types compare as false rather than relying on coercion.
+ */
+function compareValues(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case '==':
+      return left === right;
+    case '!=':
+      return left !== right;
+    case 'in':
+      if (Array.isArray(right)) {
+        return right.includes(left);
+      }
+      if (typeof right === 'string' && typeof left === 'string') {
+        return right.includes(left);
+      }
+      if (right !== null && typeof right === 'object' && typeof left === 'string') {
+        return Object.prototype.hasOwnProperty.call(right, left);
+      }
+      return false;
+  }
+
+  const comparable =
+    (typeof left === 'number' && typeof right === 'number') ||
+    (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) {
+    return false;
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+  }
+}
+
+/**
+ * Evaluate a condition against a game-state snapshot
+ *
+ * Pure function: never mutates the state and has no side effects.
+ *
+ * @param condition - Condition source or a pre-parsed AST
+ * @param state - Game state object the condition paths are resolved against
+ * @returns Whether the condition currently holds
+ */
+export function evaluateCondition(condition: string | ConditionExpression, state: unknown): boolean {
+  const expression = typeof condition === 'string' ? parseCondition(condition) : condition;
+  return Boolean(evaluateNode(expression, state));
+}
+
+/**
+ * Collect every game-state path referenced by a condition, in source order
+ */
+export function collectConditionPaths(expression: ConditionExpression): PathConditionNode[] {
+  switch (expression.kind) {
+    case 'literal':
+      return [];
+    case 'path':
+      return [expression];
+    case 'exists':
+      return [expression.argument];
+    case 'list':
+      return expression.items.flatMap(collectConditionPaths);
+    case 'not':
+      return collectConditionPaths(expression.operand);
+    case 'logical':
+    case 'comparison':
+      return [...collectConditionPaths(expression.left), ...collectConditionPaths(expression.right)];
+  }
+}
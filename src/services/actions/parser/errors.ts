@@ -2,13 +2,14 @@
  * Custom error classes for the DSL Parser
  */
 
-import type { ValidationError } from './types';
+import type { ValidationError, ValidationSeverity } from './types';
 
 /**
  * Base class for all DSL parsing errors
  */
 export class DSLParserError extends Error {
   public readonly type: ValidationError['type'];
+  public readonly severity: ValidationSeverity;
   public readonly actionIndex?: number;
   public readonly actionId?: string;
   public readonly path?: string;
@@ -20,11 +21,13 @@ export class DSLParserError extends Error {
       actionIndex?: number;
       actionId?: string;
       path?: string;
+      severity?: ValidationSeverity;
     }
   ) {
     super(message);
     this.name = 'DSLParserError';
     this.type = type;
+    this.severity = options?.severity ?? 'error';
     this.actionIndex = options?.actionIndex;
     this.actionId = options?.actionId;
     this.path = options?.path;
@@ -33,6 +36,7 @@ export class DSLParserError extends Error {
   toValidationError(): ValidationError {
     return {
       type: this.type,
+      severity: this.severity,
       message: this.message,
       actionIndex: this.actionIndex,
       actionId: this.actionId,
@@ -45,8 +49,8 @@ export class DSLParserError extends Error {
  * Error thrown when JSON schema validation fails
  */
 export class SchemaValidationError extends DSLParserError {
-  constructor(message: string, actionIndex?: number) {
-    super('schema', message, { actionIndex });
+  constructor(message: string, actionIndex?: number, path?: string) {
+    super('schema', message, { actionIndex, path });
     this.name = 'SchemaValidationError';
   }
 }
@@ -65,20 +69,15 @@ export class DuplicateIdError extends DSLParserError {
  * Error thrown when a referenced ID cannot be found
  */
 export class UnknownReferenceError extends DSLParserError {
-  constructor(id: string, actionIndex?: number, actionId?: string, suggestions?: string[]) {
+  constructor(id: string, actionIndex?: number, actionId?: string, suggestions?: string[], path?: string) {
     let message = `Unknown reference: ${id}`;
     
     if (suggestions && suggestions.length > 0) {
       const actionContext = actionId ? ` in action '${actionId}'` : '';
-      if (suggestions.length === 1) {
-        message = `Unknown reference '${id}'${actionContext}. Did you mean '${suggestions[0]}'?`;
-      } else {
-        const suggestionList = suggestions.slice(0, 3).map(s => `'${s}'`).join(', ');
-        message = `Unknown reference '${id}'${actionContext}. Did you mean one of: ${suggestionList}?`;
-      }
+      message = `Unknown reference '${id}'${actionContext}${formatSuggestions(suggestions)}`;
     }
     
-    super('unknown_reference', message, { actionIndex, actionId });
+    super('unknown_reference', message, { actionIndex, actionId, path });
     this.name = 'UnknownReferenceError';
   }
 }
@@ -87,24 +86,59 @@ export class UnknownReferenceError extends DSLParserError {
  * Error thrown when circular dependencies are detected
  */
 export class CircularDependencyError extends DSLParserError {
-  constructor(cycle: string[]) {
+  constructor(cycle: string[], actionIndex?: number) {
     const cycleStr = cycle.join(' → ') + ' → ' + cycle[0];
-    super('circular_dependency', `Circular dependency detected: ${cycleStr}`);
+    super('circular_dependency', `Circular dependency detected: ${cycleStr}`, { actionIndex, actionId: cycle[0] });
     this.name = 'CircularDependencyError';
   }
 }
 
 /**
- * Error thrown when a condition path is invalid
+ * Error thrown by the condition expression parser
+ *
+ * Carries the offset into the expression so callers can point at the
+ * offending character instead of rejecting the whole condition.
+ */
+export class ConditionSyntaxError extends Error {
+  public readonly position: number;
+  public readonly reason: string;
+
+  constructor(reason: string, position: number) {
+    super(`${reason} at column ${position + 1}`);
+    this.name = 'ConditionSyntaxError';
+    this.reason = reason;
+    this.position = position;
+  }
+}
+
+/**
+ * Details about why a condition or target was rejected
+ * (a ConditionSyntaxError satisfies this shape)
+ */
+export interface PathErrorDetail {
+  message: string;
+  position?: number;
+  suggestions?: string[];
+}
+
+/**
+ * Error thrown when a condition expression is invalid
  */
 export class InvalidConditionError extends DSLParserError {
-  constructor(condition: string, actionIndex?: number, actionId?: string) {
-    super('invalid_condition', `Invalid condition path: ${condition}`, {
+  public readonly position?: number;
+
+  constructor(condition: string, actionIndex?: number, actionId?: string, detail?: PathErrorDetail) {
+    const message = detail
+      ? `Invalid condition '${condition}': ${detail.message}${formatSuggestions(detail.suggestions)}`
+      : `Invalid condition path: ${condition}`;
+
+    super('invalid_condition', message, {
       actionIndex,
       actionId,
       path: condition,
     });
     this.name = 'InvalidConditionError';
+    this.position = detail?.position;
   }
 }
 
@@ -112,8 +146,12 @@ export class InvalidConditionError extends DSLParserError {
  * Error thrown when a target path is invalid
  */
 export class InvalidTargetError extends DSLParserError {
-  constructor(target: string, actionIndex?: number, actionId?: string) {
-    super('invalid_target', `Invalid target path: ${target}`, {
+  constructor(target: string, actionIndex?: number, actionId?: string, detail?: PathErrorDetail) {
+    const message = detail
+      ? `Invalid target '${target}': ${detail.message}${formatSuggestions(detail.suggestions)}`
+      : `Invalid target path: ${target}`;
+
+    super('invalid_target', message, {
       actionIndex,
       actionId,
       path: target,
@@ -122,6 +160,117 @@ export class InvalidTargetError extends DSLParserError {
   }
 }
 
+/**
+ * Error thrown when feature_data does not match its feature type's schema
+ */
+export class InvalidFeatureDataError extends DSLParserError {
+  constructor(
+    featureType: string,
+    issuePath: string,
+    issueMessage: string,
+    actionIndex?: number,
+    actionId?: string
+  ) {
+    const path = issuePath ? `feature_data.${issuePath}` : 'feature_data';
+    super('invalid_feature_data', `Invalid feature_data for '${featureType}' at ${path}: ${issueMessage}`, {
+      actionIndex,
+      actionId,
+      path,
+    });
+    this.name = 'InvalidFeatureDataError';
+  }
+}
+
+/**
+ * Error thrown when a document's dsl_version cannot be upgraded
+ */
+export class UnsupportedVersionError extends DSLParserError {
+  constructor(version: number, reason: string) {
+    super('unsupported_version', `Unsupported dsl_version ${version}: ${reason}`, { path: 'dsl_version' });
+    this.name = 'UnsupportedVersionError';
+  }
+}
+
+/**
+ * Warning describing a rewrite made while migrating a document
+ */
+export class MigrationWarning extends DSLParserError {
+  public readonly fromVersion: number;
+  public readonly toVersion: number;
+
+  constructor(fromVersion: number, toVersion: number, change: string) {
+    super('migration', `Migrated dsl_version ${fromVersion} → ${toVersion}: ${change}`, { severity: 'warning' });
+    this.name = 'MigrationWarning';
+    this.fromVersion = fromVersion;
+    this.toVersion = toVersion;
+  }
+}
+
+/**
+ * Error thrown when a define_template action is malformed
+ */
+export class InvalidTemplateError extends DSLParserError {
+  constructor(name: string, reason: string, actionIndex?: number, path?: string) {
+    super('invalid_template', `Invalid template '${name}': ${reason}`, { actionIndex, path });
+    this.name = 'InvalidTemplateError';
+  }
+}
+
+/**
+ * Error thrown when a use_template action cannot be expanded
+ */
+export class InvalidTemplateUseError extends DSLParserError {
+  constructor(name: string, reason: string, actionIndex?: number, path?: string, suggestions?: string[]) {
+    super('invalid_template_use', `Cannot use template '${name}': ${reason}${formatSuggestions(suggestions)}`, {
+      actionIndex,
+      path
+    });
+    this.name = 'InvalidTemplateUseError';
+  }
+}
+
+/**
+ * Warning for an asset that nothing in the document uses
+ */
+export class UnusedAssetWarning extends DSLParserError {
+  constructor(id: string, assetType: string, actionIndex?: number) {
+    const message = assetType === 'asset_cutscene'
+      ? `Cutscene '${id}' is never played`
+      : `Asset '${id}' is never referenced by a cutscene or modal`;
+    super('unused_asset', message, { actionIndex, actionId: id, severity: 'warning' });
+    this.name = 'UnusedAssetWarning';
+  }
+}
+
+/**
+ * Warning for a reason action without any reasoning text
+ */
+export class EmptyReasonWarning extends DSLParserError {
+  constructor(actionIndex?: number) {
+    super('empty_reason', 'Reason action has no reasoning text', {
+      actionIndex,
+      path: 'ephemeral_reasoning',
+      severity: 'warning'
+    });
+    this.name = 'EmptyReasonWarning';
+  }
+}
+
+/**
+ * Warning for a multi-shot cutscene that shows the same image in every shot
+ */
+export class RepetitiveCutsceneWarning extends DSLParserError {
+  constructor(cutsceneId: string, imageId: string, shotCount: number, actionIndex?: number) {
+    super('repetitive_cutscene', `Cutscene '${cutsceneId}' uses image '${imageId}' in all ${shotCount} shots`, {
+      actionIndex,
+      actionId: cutsceneId,
+      path: 'shots',
+      severity: 'warning'
+    });
+    this.name = 'RepetitiveCutsceneWarning';
+  }
+}
+
 /**
  * Utility function to create validation errors from thrown errors
  */
@@ -133,6 +282,7 @@ export function errorToValidationError(error: unknown, actionIndex?: number): Va
   if (error instanceof Error) {
     return {
       type: 'schema',
+      severity: 'error',
       message: error.message,
       actionIndex,
     };
@@ -140,11 +290,26 @@ export function errorToValidationError(error: unknown, actionIndex?: number): Va
 
   return {
     type: 'schema',
+    severity: 'error',
     message: 'Unknown parsing error',
     actionIndex,
   };
 }
 
+/**
+ * Format a "Did you mean" hint for a list of suggestions (empty when none)
+ */
+function formatSuggestions(suggestions?: string[]): string {
+  if (!suggestions || suggestions.length === 0) {
+    return '';
+  }
+  if (suggestions.length === 1) {
+    return `. Did you mean '${suggestions[0]}'?`;
+  }
+  const suggestionList = suggestions.slice(0, 3).map(s => `'${s}'`).join(', ');
+  return `. Did you mean one of: ${suggestionList}?`;
+}
+
 /**
  * Simple string similarity function for suggesting corrections
  * 
@@ -186,7 +351,7 @@ export function findSimilarString(target: string, candidates: string[]): string
 /**
  * Calculate Levenshtein distance between two strings
  */
-function levenshteinDistance(a: string, b: string): number {
+export function levenshteinDistance(a: string, b: string): number {
   const matrix = Array(a.length + 1).fill(null).map(() => Array(b.length + 1).fill(null));
 
   for (let i = 0; i <= a.length; i++) {
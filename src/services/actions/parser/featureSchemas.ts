@@ -0,0 +1,91 @@
+/**
+ * Schema registry for add_feature payloads
+ *
+ * Each feature_type registers the zod schema its feature_data must satisfy.
+ * Feature types without a registered schema are accepted as-is so new
+ * features can be prototyped before their payload shape is pinned down.
+ */
+
+import { z } from 'zod';
+
+export const TraitFeatureSchema = z.strictObject({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  level: z.number().int().positive().optional(),
+});
+
+export const BiomeFeatureSchema = z.strictObject({
+  name: z.string().min(1),
+  climate: z.enum(['frozen', 'temperate', 'tropical', 'arid', 'toxic']).optional(),
+  coverage: z.number().min(0).max(1).optional(),
+});
+
+export const TechnologyFeatureSchema = z.strictObject({
+  name: z.string().min(1),
+  tier: z.number().int().nonnegative().optional(),
+  prerequisites: z.array(z.string()).optional(),
+});
+
+export const PopulationModifierFeatureSchema = z
+  .strictObject({
+    multiplier: z.number().positive().optional(),
+    delta: z.number().optional(),
+    duration_turns: z.number().int().positive().optional(),
+    reason: z.string().optional(),
+  })
+  .refine(data => data.multiplier !== undefined || data.delta !== undefined, {
+    message: 'Either multiplier or delta is required',
+  });
+
+/**
+ * Registry mapping feature_type to the schema for its feature_data
+ */
+export class FeatureSchemaRegistry {
+  private schemas = new Map<string, z.ZodType>();
+
+  /**
+   * Register (or replace) the schema for a feature type
+   */
+  register(featureType: string, schema: z.ZodType): this {
+    this.schemas.set(featureType, schema);
+    return this;
+  }
+
+  unregister(featureType: string): boolean {
+    return this.schemas.delete(featureType);
+  }
+
+  get(featureType: string): z.ZodType | undefined {
+    return this.schemas.get(featureType);
+  }
+
+  has(featureType: string): boolean {
+    return this.schemas.has(featureType);
+  }
+
+  getFeatureTypes(): string[] {
+    return Array.from(this.schemas.keys());
+  }
+
+  /**
+   * Create an independent copy, e.g. to extend the defaults per game mode
+   */
+  clone(): FeatureSchemaRegistry {
+    const copy = new FeatureSchemaRegistry();
+    for (const [featureType, schema] of this.schemas) {
+      copy.register(featureType, schema);
+    }
+    return copy;
+  }
+}
+
+/**
+ * Create a registry pre-populated with the built-in feature types
+ */
+export function createDefaultFeatureSchemas(): FeatureSchemaRegistry {
+  return new FeatureSchemaRegistry()
+    .register('trait', TraitFeatureSchema)
+    .register('biome', BiomeFeatureSchema)
+    .register('technology', TechnologyFeatureSchema)
+    .register('population_modifier', PopulationModifierFeatureSchema);
+}
@@ -0,0 +1,124 @@
+/**
+ * Game-state model descriptor for path validation
+ *
+ * Describes which locations exist in game state so the parser can reject
+ * targets and condition paths like "species.primray" before execution.
+ *
+ * @example
+ * ```typescript
+ * const model = defineGameStateModel({
+ *   game: entity({ planet_just_created: field('boolean') }),
+ *   species: collection(entity({ population: field('number') }), ['primary']),
+ * });
+ * ```
+ */
+
+import { findSimilarStrings } from './errors';
+
+export type GameStateFieldType = 'number' | 'string' | 'boolean' | 'list' | 'any';
+
+export interface GameStateFieldNode {
+  kind: 'field';
+  type: GameStateFieldType;
+}
+
+export interface GameStateEntityNode {
+  kind: 'entity';
+  fields: Record<string, GameStateModelNode>;
+}
+
+export interface GameStateCollectionNode {
+  kind: 'collection';
+  of: GameStateModelNode;
+  /** Known member keys; when omitted any identifier is a valid key */
+  keys?: string[];
+}
+
+export type GameStateModelNode = GameStateFieldNode | GameStateEntityNode | GameStateCollectionNode;
+
+/** Root of the model: top-level names such as `game`, `planet`, `species` */
+export type GameStateModel = Record<string, GameStateModelNode>;
+
+export type ModelPathResolution =
+  | { valid: true; node: GameStateModelNode }
+  | { valid: false; reason: string; segmentIndex: number; suggestions: string[] };
+
+export function field(type: GameStateFieldType = 'any'): GameStateFieldNode {
+  return { kind: 'field', type };
+}
+
+export function entity(fields: Record<string, GameStateModelNode>): GameStateEntityNode {
+  return { kind: 'entity', fields };
+}
+
+export function collection(of: GameStateModelNode, keys?: string[]): GameStateCollectionNode {
+  return { kind: 'collection', of, keys };
+}
+
+/**
+ * Identity helper that gives model literals their type
+ */
+export function defineGameStateModel(model: GameStateModel): GameStateModel {
+  return model;
+}
+
+/**
+ * Walk a dotted path through the model
+ *
+ * Fields typed 'any' accept arbitrary deeper segments (free-form payloads
+ * such as feature data); list fields only expose `length`.
+ */
+export function resolveModelPath(model: GameStateModel, segments: string[]): ModelPathResolution {
+  let children: Record<string, GameStateModelNode> = model;
+  let current: GameStateModelNode | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    const parentPath = segments.slice(0, i).join('.');
+
+    if (current === null || current.kind === 'entity') {
+      const next: GameStateModelNode | undefined = Object.prototype.hasOwnProperty.call(children, segment)
+        ? children[segment]
+        : undefined;
+      if (!next) {
+        const candidates = Object.keys(children);
+        return {
+          valid: false,
+          reason: parentPath ? `Unknown field '${segment}' on '${parentPath}'` : `Unknown root '${segment}'`,
+          segmentIndex: i,
+          suggestions: findSimilarStrings(segment, candidates)
+        };
+      }
+      current = next;
+    } else if (current.kind === 'collection') {
+      if (current.keys && !current.keys.includes(segment)) {
+        return {
+          valid: false,
+          reason: `Unknown key '${segment}' in collection '${parentPath}'`,
+          segmentIndex: i,
+          suggestions: findSimilarStrings(segment, current.keys)
+        };
+      }
+      current = current.of;
+    } else {
+      if (current.type === 'any') {
+        return { valid: true, node: current };
+      }
+      if (current.type === 'list' && segment === 'length' && i === segments.length - 1) {
+        return { valid: true, node: field('number') };
+      }
+      return {
+        valid: false,
+        reason: `'${parentPath}' is a ${current.type} field and has no member '${segment}'`,
+        segmentIndex: i,
+        suggestions: []
+      };
+    }
+
+    if (current.kind === 'entity') {
+      children = current.fields;
+    }
+  }
+
+  return current ? { valid: true, node: current } : { valid: false, reason: 'Empty path', segmentIndex: 0, suggestions: [] };
+}
@@ -4,6 +4,9 @@
 
 // Main parser classes and functions
 export { DSLParser, parseActionDSL, parseActionObject } from './DSLParser';
+export type { DSLParserOptions } from './DSLParser';
+export { StreamingDSLParser } from './StreamingDSLParser';
+export type { StreamedAction, StreamingDSLParserOptions } from './StreamingDSLParser';
 
 // Type definitions
 export type {
@@ -12,6 +15,8 @@ export type {
   ActionGraph,
   ParserResult,
   ValidationError,
+  ValidationSeverity,
+  SourceLocation,
   ActionInput,
   ReasonAction,
   AssetImageAction,
@@ -23,10 +28,26 @@ export type {
   RemoveFeatureAction,
   WhenThenAction,
   AddPlayerChoiceAction,
+  DefineTemplateAction,
+  UseTemplateAction,
+  DocumentEntry,
+  TemplateParam,
+  TemplateValue,
   CutsceneShot,
   PlayerChoiceOption,
   AssetAction,
-  GameAction
+  GameAction,
+  ConditionExpression,
+  ComparisonOperator,
+  LogicalOperator,
+  ConditionLiteralValue,
+  LiteralConditionNode,
+  PathConditionNode,
+  ListConditionNode,
+  NotConditionNode,
+  LogicalConditionNode,
+  ComparisonConditionNode,
+  ExistsConditionNode
 } from './types';
 
 // Error classes
@@ -38,10 +59,41 @@ export {
   CircularDependencyError,
   InvalidConditionError,
   InvalidTargetError,
+  ConditionSyntaxError,
+  InvalidFeatureDataError,
+  UnsupportedVersionError,
+  MigrationWarning,
+  UnusedAssetWarning,
+  EmptyReasonWarning,
+  RepetitiveCutsceneWarning,
+  InvalidTemplateError,
+  InvalidTemplateUseError,
   errorToValidationError,
   findSimilarString,
   findSimilarStrings
 } from './errors';
+export type { PathErrorDetail } from './errors';
+
+// Condition expression language
+export { parseCondition, evaluateCondition, resolveStatePath, collectConditionPaths } from './conditions';
+
+// Game-state model for path validation
+export {
+  defineGameStateModel,
+  entity,
+  collection,
+  field,
+  resolveModelPath
+} from './gameStateModel';
+export type {
+  GameStateModel,
+  GameStateModelNode,
+  GameStateEntityNode,
+  GameStateCollectionNode,
+  GameStateFieldNode,
+  GameStateFieldType,
+  ModelPathResolution
+} from './gameStateModel';
 
 // Validation functions (useful for external validation)
 export {
@@ -50,9 +102,58 @@ export {
   validateDependencies,
   validateConditions,
   validateTargets,
+  validateFeatureData,
+  validateStatePaths,
   categorizeActions
 } from './validators';
 
+// Versioned document migrations
+export {
+  migrateDocument,
+  DEFAULT_MIGRATIONS,
+  CURRENT_DSL_VERSION,
+  UNVERSIONED_DSL_VERSION
+} from './migrations';
+export type { DSLMigration, DSLMigrationResult, DSLMigrationStepResult } from './migrations';
+export { migrateLegacyActions } from './legacyMigration';
+export type { LegacyMigrationResult } from './legacyMigration';
+
+// Source positions for errors in raw JSON text
+export { JSONSourceMap, locateErrors, locateSyntaxError } from './sourceMap';
+export type { SourceSpan } from './sourceMap';
+
+// define_template / use_template expansion
+export { expandTemplates } from './templates';
+export type { TemplateExpansionResult } from './templates';
+
+// Lint rules (advisory warnings for valid documents)
+export {
+  lintActions,
+  DEFAULT_LINT_RULES,
+  unusedAssetRule,
+  emptyReasonRule,
+  repetitiveCutsceneRule
+} from './lint';
+export type { LintRule } from './lint';
+
+// Auto-repair for malformed LLM output
+export { repairJSONText, repairDocument } from './repair';
+export type { RepairFix, RepairKind, TextRepairResult, DocumentRepairResult } from './repair';
+
+// JSON Schema / function-calling export
+export { toActionJSONSchema, toOpenAITool } from './jsonSchema';
+export type { ActionJSONSchema, OpenAIToolDefinition, ActionToolOptions } from './jsonSchema';
+
+// Feature payload schemas
+export {
+  FeatureSchemaRegistry,
+  createDefaultFeatureSchemas,
+  TraitFeatureSchema,
+  BiomeFeatureSchema,
+  TechnologyFeatureSchema,
+  PopulationModifierFeatureSchema
+} from './featureSchemas';
+
 // Schemas and utilities (useful for external schema validation)
 export {
   ActionInputSchema,
@@ -67,11 +168,18 @@ export {
   RemoveFeatureActionSchema,
   WhenThenActionSchema,
   AddPlayerChoiceActionSchema,
+  DefineTemplateActionSchema,
+  UseTemplateActionSchema,
+  DocumentEntrySchema,
+  TemplateParamSchema,
+  TemplateValueSchema,
   CutsceneShotSchema,
   PlayerChoiceOptionSchema,
   isAssetAction,
   isGameAction,
   hasId,
   extractActionIds,
+  extractDeferredIds,
+  extractGraphIds,
   extractReferencedIds
 } from './schemas';
\ No newline at end of file
@@ -0,0 +1,92 @@
+/**
+ * Unit tests for the JSON Schema / function-calling export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { toActionJSONSchema, toOpenAITool } from './jsonSchema';
+import type { ActionJSONSchema } from './jsonSchema';
+import { AnimationSchema, VoiceToneSchema, ImageSizeSchema } from './schemas';
+
+// Collect every subschema that has an enum, keyed by property name
+function findEnumProperties(schema: unknown, found: Map<string, ActionJSONSchema> = new Map()): Map<string, ActionJSONSchema> {
+  if (Array.isArray(schema)) {
+    schema.forEach(item => findEnumProperties(item, found));
+  } else if (schema && typeof schema === 'object') {
+    const properties = (schema as ActionJSONSchema).properties;
+    if (properties) {
+      for (const [name, property] of Object.entries(properties)) {
+        if (typeof property === 'object' && property.enum) {
+          found.set(name, property);
+        }
+      }
+    }
+    Object.values(schema).forEach(value => findEnumProperties(value, found));
+  }
+  return found;
+}
+
+describe('toActionJSONSchema', () => {
+  const schema = toActionJSONSchema();
+
+  it('describes the document root with a shared recursive Action definition', () => {
+    expect(schema.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(schema.required).toEqual(['actions']);
+    const entries = (schema.properties!.actions as ActionJSONSchema).items as ActionJSONSchema;
+    expect(entries.anyOf![0]).toEqual({ $ref: '#/$defs/Action' });
+    expect(entries.anyOf!.slice(1).map(variant => ((variant as ActionJSONSchema).properties!.type as ActionJSONSchema).const))
+      .toEqual(['define_template', 'use_template']);
+
+    const action = schema.$defs!.Action;
+    const types = action.anyOf!.map(variant => ((variant as ActionJSONSchema).properties!.type as ActionJSONSchema).const);
+    expect(types).toEqual([
+      'reason', 'asset_image', 'asset_subtitle', 'asset_cutscene', 'play_cutscene',
+      'show_modal', 'add_feature', 'remove_feature', 'when_then', 'add_player_choice'
+    ]);
+
+    const whenThen = action.anyOf![8] as ActionJSONSchema;
+    expect(whenThen.properties!.action).toEqual({ $ref: '#/$defs/Action' });
+    expect(whenThen.description).toMatch(/condition/);
+  });
+
+  it('keeps enum values in sync with the parser schemas', () => {
+    const enums = findEnumProperties(schema);
+
+    expect(enums.get('animation')!.enum).toEqual(AnimationSchema.options);
+    expect(enums.get('voice_tone')!.enum).toEqual(VoiceToneSchema.options);
+    expect(enums.get('size')!.enum).toEqual(ImageSizeSchema.options);
+  });
+
+  it('describes every enum value', () => {
+    const enums = findEnumProperties(schema);
+
+    for (const name of ['size', 'voice_tone', 'voice_gender', 'voice_pace', 'animation']) {
+      const property = enums.get(name)!;
+      for (const value of property.enum!) {
+        expect(property.description, `${name}.${String(value)}`).toContain(`${String(value)}: `);
+      }
+    }
+  });
+
+  it('generates a fresh document on every call', () => {
+    const first = toActionJSONSchema();
+    delete first.$defs;
+    expect(toActionJSONSchema().$defs).toBeDefined();
+  });
+});
+
+describe('toOpenAITool', () => {
+  it('wraps the document schema as function parameters', () => {
+    const tool = toOpenAITool();
+
+    expect(tool.type).toBe('function');
+    expect(tool.function.name).toBe('submit_actions');
+    expect(tool.function.parameters.type).toBe('object');
+    expect(tool.function.parameters.$schema).toBeUndefined();
+    expect(tool.function.parameters.$defs!.Action).toBeDefined();
+  });
+
+  it('accepts a custom name and description', () => {
+    const tool = toOpenAITool({ name: 'plan_turn', description: 'Plan the next turn' });
+    expect(tool.function).toMatchObject({ name: 'plan_turn', description: 'Plan the next turn' });
+  });
+});
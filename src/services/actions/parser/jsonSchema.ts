@@ -0,0 +1,170 @@
+/**
+ * JSON Schema and function-calling export of the Action DSL
+ *
+ * Generates the contract handed to the LLM game master directly from the zod
+ * schemas in schemas.ts, so prompts and tool definitions cannot drift from
+ * what the parser accepts. Descriptions are typed per enum value, so an
+ * undescribed action type or enum value fails to compile.
+ */
+
+import { z } from 'zod';
+import type { Action } from './types';
+import {
+  ActionInputSchema,
+  ActionSchema,
+  ActionSchemasByType,
+  CutsceneShotSchema,
+  PlayerChoiceOptionSchema,
+  DefineTemplateActionSchema,
+  UseTemplateActionSchema,
+  ImageSizeSchema,
+  ImageModelSchema,
+  VoiceToneSchema,
+  VoiceGenderSchema,
+  VoicePaceSchema,
+  TTSModelSchema,
+  AnimationSchema
+} from './schemas';
+import { CURRENT_DSL_VERSION } from './migrations';
+
+export type ActionJSONSchema = z.core.JSONSchema.BaseSchema;
+
+export interface OpenAIToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: ActionJSONSchema;
+  };
+}
+
+export interface ActionToolOptions {
+  /** Function name the model calls (default: 'submit_actions') */
+  name?: string;
+  /** Function description shown to the model */
+  description?: string;
+}
+
+const IMAGE_SIZE_DESCRIPTIONS: Record<z.infer<typeof ImageSizeSchema>, string> = {
+  '1024x768': 'landscape, for scenes and cutscene shots',
+  '768x1024': 'portrait, for creatures and characters',
+  '1024x1024': 'square, for modal illustrations'
+};
+
+const IMAGE_MODEL_DESCRIPTIONS: Record<z.infer<typeof ImageModelSchema>, string> = {
+  'flux-schnell': 'fast and inexpensive; the default choice',
+  'sdxl': 'slower, for detailed painterly images'
+};
+
+const VOICE_TONE_DESCRIPTIONS: Record<z.infer<typeof VoiceToneSchema>, string> = {
+  epic: 'grand and sweeping, for major milestones',
+  mysterious: 'hushed and curious, for discoveries and unknowns',
+  calm: 'gentle and steady, for quiet moments',
+  urgent: 'tense and fast, for threats and catastrophes',
+  triumphant: 'celebratory, for achievements'
+};
+
+const VOICE_GENDER_DESCRIPTIONS: Record<z.infer<typeof VoiceGenderSchema>, string> = {
+  neutral: 'no strong gender presentation',
+  feminine: 'feminine voice',
+  masculine: 'masculine voice'
+};
+
+const VOICE_PACE_DESCRIPTIONS: Record<z.infer<typeof VoicePaceSchema>, string> = {
+  slow: 'deliberate delivery',
+  normal: 'conversational delivery',
+  fast: 'brisk delivery'
+};
+
+const TTS_MODEL_DESCRIPTIONS: Record<z.infer<typeof TTSModelSchema>, string> = {
+  'openai-tts': 'default narration voices',
+  'google-tts': 'alternative voices'
+};
+
+const ANIMATION_DESCRIPTIONS: Record<z.infer<typeof AnimationSchema>, string> = {
+  none: 'static image',
+  slow_zoom: 'slow push in on the image',
+  pan_left: 'camera pans to the left',
+  pan_right: 'camera pans to the right',
+  fade: 'fades in from black'
+};
+
+const ACTION_DESCRIPTIONS: Record<Action['type'], string> = {
+  reason: 'Document your reasoning. Not executed.',
+  asset_image: 'Generate an image asset. The id must be unique within the document.',
+  asset_subtitle: 'Generate narrated audio for a line of text.',
+  asset_cutscene: 'Assemble image and subtitle assets into a cutscene. Shot ids must reference existing assets.',
+  play_cutscene: 'Play a cutscene created by asset_cutscene.',
+  show_modal: 'Show an informational modal, optionally with an image and narration (null when absent).',
+  add_feature: 'Add a feature to a game entity. target uses dot notation, e.g. "species.primary".',
+  remove_feature: 'Remove a feature from a game entity.',
+  when_then: 'Run the nested action when the condition over game state becomes true, e.g. "species.primary.population > 1000".',
+  add_player_choice: 'Present a choice to the player; each option lists the actions run when it is picked.'
+};
+
+function describeEnum(summary: string, values: Record<string, string>): string {
+  const lines = Object.entries(values).map(([value, description]) => `${value}: ${description}`);
+  return `${summary}. Values - ${lines.join('; ')}.`;
+}
+
+function createDescriptionRegistry() {
+  const registry = z.registry<{ id?: string; description?: string }>();
+
+  registry.add(ActionSchema, { id: 'Action' });
+  registry.add(CutsceneShotSchema, { id: 'CutsceneShot', description: 'One shot of a cutscene.' });
+  registry.add(PlayerChoiceOptionSchema, { id: 'PlayerChoiceOption', description: 'One option of a player choice.' });
+
+  for (const [type, schema] of Object.entries(ActionSchemasByType)) {
+    registry.add(schema, { description: ACTION_DESCRIPTIONS[type as Action['type']] });
+  }
+
+  registry.add(DefineTemplateActionSchema, {
+    description: 'Declare a reusable list of actions. Strings in the actions may contain {{param}} placeholders; ' +
+      'a string that is exactly "{{param}}" takes the argument\'s type. Only allowed in the root actions array.'
+  });
+  registry.add(UseTemplateActionSchema, {
+    description: 'Insert the actions of a define_template, filling its parameters from args. Only allowed in the root actions array.'
+  });
+
+  registry.add(ImageSizeSchema, { description: describeEnum('Image size', IMAGE_SIZE_DESCRIPTIONS) });
+  registry.add(ImageModelSchema, { description: describeEnum('Image model', IMAGE_MODEL_DESCRIPTIONS) });
+  registry.add(VoiceToneSchema, { description: describeEnum('Narration tone', VOICE_TONE_DESCRIPTIONS) });
+  registry.add(VoiceGenderSchema, { description: describeEnum('Narration voice', VOICE_GENDER_DESCRIPTIONS) });
+  registry.add(VoicePaceSchema, { description: describeEnum('Narration pace', VOICE_PACE_DESCRIPTIONS) });
+  registry.add(TTSModelSchema, { description: describeEnum('Text-to-speech model', TTS_MODEL_DESCRIPTIONS) });
+  registry.add(AnimationSchema, { description: describeEnum('Image animation during the shot', ANIMATION_DESCRIPTIONS) });
+
+  registry.add(ActionInputSchema.shape.dsl_version, {
+    description: `Version of the action format. Use ${CURRENT_DSL_VERSION}.`
+  });
+
+  return registry;
+}
+
+/**
+ * Generate a JSON Schema (draft 2020-12) document for a whole action document
+ *
+ * Recursive actions (when_then, add_player_choice) refer back to `#/$defs/Action`.
+ */
+export function toActionJSONSchema(): ActionJSONSchema {
+  return z.toJSONSchema(ActionInputSchema, { metadata: createDescriptionRegistry() });
+}
+
+/**
+ * Generate an OpenAI-style tool definition whose arguments are an action document
+ */
+export function toOpenAITool(options: ActionToolOptions = {}): OpenAIToolDefinition {
+  // Tool parameters are embedded in a request, not a standalone schema document
+  const parameters = toActionJSONSchema();
+  delete parameters.$schema;
+
+  return {
+    type: 'function',
+    function: {
+      name: options.name || 'submit_actions',
+      description: options.description ||
+        'Submit the actions for this turn: assets to generate first, then the game actions that use them.',
+      parameters
+    }
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for the legacy action shape migration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { migrateLegacyActions } from './legacyMigration';
+import { parseActionObject } from './DSLParser';
+import planetCreationExample from '../examples/planet-creation.json';
+import evolutionChoiceExample from '../examples/evolution-choice.json';
+import catastropheExample from '../examples/catastrophe.json';
+
+describe('migrateLegacyActions', () => {
+  it('converts legacy executor shapes into parseable actions', () => {
+    const legacy = {
+      actions: [
+        { type: 'asset_image', id: 'img', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' },
+        {
+          type: 'asset_subtitle',
+          id: 'narration',
+          text: 'Hello',
+          voice_tone: 'calm',
+          voice_gender: 'neutral',
+          voice_pace: 'normal',
+          model: 'openai-tts'
+        },
+        {
+          type: 'asset_cutscene',
+          id: 'scene',
+          shots: [{ image_id: 'img', subtitle_id: 'narration', duration: 3, animation: 'zoom_in' }]
+        },
+        {
+          type: 'add_player_choice',
+          choice_id: 'evolve',
+          title: 'Evolve?',
+          description: 'Grow wings',
+          actions: [{ type: 'show_modal', title: 'Wings', content: 'You fly', actions: ['ok'] }]
+        }
+      ]
+    };
+
+    const { document, changes } = migrateLegacyActions(legacy);
+
+    expect(changes).toHaveLength(3);
+    expect(changes[0]).toMatch(/actions\.2\.shots\.0: renamed animation 'zoom_in' to 'slow_zoom'/);
+    expect(document).toMatchObject({
+      actions: [
+        {},
+        {},
+        { shots: [{ animation: 'slow_zoom' }] },
+        {
+          id: 'evolve',
+          prompt: 'Evolve?',
+          options: [{
+            label: 'Evolve?',
+            description: 'Grow wings',
+            reactions: [{ type: 'show_modal', image_id: null, subtitle_id: null }]
+          }]
+        }
+      ]
+    });
+    expect(parseActionObject(document as object).success).toBe(true);
+    // The input is left untouched
+    expect(legacy.actions[2]).toMatchObject({ shots: [{ animation: 'zoom_in' }] });
+  });
+
+  it('migrates legacy actions nested in when_then and choice reactions', () => {
+    const { changes } = migrateLegacyActions({
+      actions: [
+        {
+          type: 'when_then',
+          condition: 'game.turn > 1',
+          action: { type: 'show_modal', title: 't', content: 'c', actions: [] }
+        },
+        {
+          type: 'add_player_choice',
+          id: 'choice',
+          prompt: 'p',
+          options: [{ label: 'l', description: 'd', reactions: [{ type: 'show_modal', title: 't', content: 'c', actions: [] }] }]
+        }
+      ]
+    });
+
+    expect(changes).toEqual([
+      "actions.0.action: replaced show_modal 'actions' with image_id/subtitle_id",
+      "actions.1.options.0.reactions.0: replaced show_modal 'actions' with image_id/subtitle_id"
+    ]);
+  });
+
+  it('leaves the bundled examples unchanged', () => {
+    for (const example of [planetCreationExample, evolutionChoiceExample, catastropheExample]) {
+      const { document, changes } = migrateLegacyActions(example);
+      expect(changes).toEqual([]);
+      expect(document).toEqual(example);
+      expect(parseActionObject(example).success).toBe(true);
+    }
+  });
+});
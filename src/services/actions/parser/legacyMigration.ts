@@ -0,0 +1,127 @@
+/**
+ * Migration for action documents written against the old executor types
+ *
+ * Before the action types were unified, executors/types.ts declared its own
+ * shapes for a few actions. JSON authored against those shapes is rewritten
+ * here into the schema shapes so it can be parsed:
+ * - show_modal `actions: string[]` → `image_id` / `subtitle_id` (null)
+ * - add_player_choice `choice_id` / `title` / `description` / `actions`
+ *   → `id` / `prompt` / a single option whose reactions are `actions`
+ * - shot animations `fade_in` / `zoom_in` / `static` → `fade` / `slow_zoom` / `none`
+ *
+ * The migration only touches recognised legacy fields; anything else is left
+ * for the parser to validate.
+ */
+
+export interface LegacyMigrationResult {
+  /** Migrated copy of the input (the input itself is not modified) */
+  document: unknown;
+  /** Human-readable description of each rewrite, e.g. for a migration log */
+  changes: string[];
+}
+
+const LEGACY_ANIMATIONS: Record<string, string> = {
+  fade_in: 'fade',
+  zoom_in: 'slow_zoom',
+  static: 'none'
+};
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Rewrite legacy action shapes in a document (`{ actions: [...] }`)
+ */
+export function migrateLegacyActions(input: unknown): LegacyMigrationResult {
+  const changes: string[] = [];
+
+  if (!isObject(input) || !Array.isArray(input.actions)) {
+    return { document: input, changes };
+  }
+
+  const actions = input.actions.map((action, index) => migrateAction(action, `actions.${index}`, changes));
+  return { document: { ...input, actions }, changes };
+}
+
+function migrateAction(action: unknown, path: string, changes: string[]): unknown {
+  if (!isObject(action)) {
+    return action;
+  }
+
+  switch (action.type) {
+    case 'show_modal': {
+      if (!('actions' in action)) {
+        return action;
+      }
+      const rest = { ...action };
+      delete rest.actions;
+      changes.push(`${path}: replaced show_modal 'actions' with image_id/subtitle_id`);
+      return {
+        ...rest,
+        image_id: rest.image_id ?? null,
+        subtitle_id: rest.subtitle_id ?? null
+      };
+    }
+
+    case 'add_player_choice': {
+      if (!('choice_id' in action)) {
+        return migrateChoiceOptions(action, path, changes);
+      }
+      const { choice_id, title, description, actions, ...rest } = action;
+      changes.push(`${path}: converted legacy add_player_choice '${String(choice_id)}' to options`);
+      const reactions = Array.isArray(actions) ? actions : [];
+      return {
+        ...rest,
+        id: choice_id,
+        prompt: title,
+        options: [{
+          label: title,
+          description: description ?? '',
+          reactions: reactions.map((reaction, index) =>
+            migrateAction(reaction, `${path}.options.0.reactions.${index}`, changes))
+        }]
+      };
+    }
+
+    case 'when_then':
+      return { ...action, action: migrateAction(action.action, `${path}.action`, changes) };
+
+    case 'asset_cutscene': {
+      if (!Array.isArray(action.shots)) {
+        return action;
+      }
+      const shots = action.shots.map((shot, index) => {
+        if (!isObject(shot) || typeof shot.animation !== 'string' || !Object.prototype.hasOwnProperty.call(LEGACY_ANIMATIONS, shot.animation)) {
+          return shot;
+        }
+        const animation = LEGACY_ANIMATIONS[shot.animation];
+        changes.push(`${path}.shots.${index}: renamed animation '${shot.animation}' to '${animation}'`);
+        return { ...shot, animation };
+      });
+      return { ...action, shots };
+    }
+
+    default:
+      return action;
+  }
+}
+
+function migrateChoiceOptions(action: JsonObject, path: string, changes: string[]): JsonObject {
+  if (!Array.isArray(action.options)) {
+    return action;
+  }
+  const options = action.options.map((option, optionIndex) => {
+    if (!isObject(option) || !Array.isArray(option.reactions)) {
+      return option;
+    }
+    return {
+      ...option,
+      reactions: option.reactions.map((reaction, index) =>
+        migrateAction(reaction, `${path}.options.${optionIndex}.reactions.${index}`, changes))
+    };
+  });
+  return { ...action, options };
+}
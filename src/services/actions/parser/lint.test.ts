@@ -0,0 +1,108 @@
+/**
+ * Unit tests for advisory lint rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintActions, unusedAssetRule, emptyReasonRule, repetitiveCutsceneRule } from './lint';
+import type { LintRule } from './lint';
+import { DSLParser } from './DSLParser';
+import type { Action } from './types';
+
+const image = (id: string): Action => ({ type: 'asset_image', id, prompt: 'A planet', size: '1024x768', model: 'flux-schnell' });
+const subtitle: Action = {
+  type: 'asset_subtitle',
+  id: 'narration',
+  text: 'A world is born',
+  voice_tone: 'epic',
+  voice_gender: 'neutral',
+  voice_pace: 'normal',
+  model: 'openai-tts'
+};
+const cutscene = (imageIds: string[]): Action => ({
+  type: 'asset_cutscene',
+  id: 'intro',
+  shots: imageIds.map(image_id => ({ image_id, subtitle_id: 'narration', duration: 3, animation: 'fade' }))
+});
+const play: Action = { type: 'play_cutscene', cutscene_id: 'intro' };
+
+describe('unusedAssetRule', () => {
+  it('reports assets nothing refers to', () => {
+    const warnings = unusedAssetRule.check([image('a'), image('b'), subtitle, cutscene(['a'])]);
+
+    expect(warnings.map(warning => warning.message)).toEqual([
+      "Asset 'b' is never referenced by a cutscene or modal",
+      "Cutscene 'intro' is never played"
+    ]);
+    expect(warnings[0]).toMatchObject({ type: 'unused_asset', severity: 'warning', actionId: 'b', actionIndex: 1 });
+  });
+
+  it('counts references from nested reactions', () => {
+    const choice: Action = {
+      type: 'add_player_choice',
+      id: 'choice',
+      prompt: 'What now?',
+      options: [{ label: 'Look', description: 'Look around', reactions: [{ type: 'show_modal', title: 'x', content: 'y', image_id: 'a', subtitle_id: null }] }]
+    };
+    expect(unusedAssetRule.check([image('a'), choice])).toEqual([]);
+  });
+});
+
+describe('emptyReasonRule', () => {
+  it('reports reason actions with blank text', () => {
+    const warnings = emptyReasonRule.check([
+      { type: 'reason', ephemeral_reasoning: '  ' },
+      { type: 'reason', ephemeral_reasoning: 'Set the scene' }
+    ]);
+    expect(warnings).toEqual([expect.objectContaining({ type: 'empty_reason', actionIndex: 0, path: 'ephemeral_reasoning' })]);
+  });
+});
+
+describe('repetitiveCutsceneRule', () => {
+  it('reports multi-shot cutscenes that reuse one image', () => {
+    expect(repetitiveCutsceneRule.check([cutscene(['a', 'a', 'a'])])[0].message)
+      .toBe("Cutscene 'intro' uses image 'a' in all 3 shots");
+    expect(repetitiveCutsceneRule.check([cutscene(['a', 'b'])])).toEqual([]);
+    expect(repetitiveCutsceneRule.check([cutscene(['a'])])).toEqual([]);
+  });
+});
+
+describe('lintActions', () => {
+  it('runs only the given rules', () => {
+    const actions = [image('a'), { type: 'reason', ephemeral_reasoning: '' } as Action];
+    expect(lintActions(actions).map(warning => warning.type)).toEqual(['unused_asset', 'empty_reason']);
+    expect(lintActions(actions, [emptyReasonRule]).map(warning => warning.type)).toEqual(['empty_reason']);
+  });
+});
+
+describe('DSLParser lint warnings', () => {
+  it('attaches warnings without rejecting the document', () => {
+    const result = new DSLParser().parseObject({ actions: [image('a'), image('b'), subtitle, cutscene(['a', 'a']), play] });
+
+    expect(result.success).toBe(true);
+    expect(result.graph).toBeDefined();
+    expect(result.warnings!.map(warning => warning.type)).toEqual(['unused_asset', 'repetitive_cutscene']);
+    expect(result.warnings!.every(warning => warning.severity === 'warning')).toBe(true);
+  });
+
+  it('does not lint documents that fail validation', () => {
+    const result = new DSLParser().parseObject({ actions: [image('a'), { type: 'play_cutscene', cutscene_id: 'missing' }] });
+
+    expect(result.success).toBe(false);
+    expect(result.errors![0].severity).toBe('error');
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('accepts custom rules and an empty list to disable linting', () => {
+    const noModals: LintRule = {
+      name: 'no-modals',
+      check: actions => actions.some(action => action.type === 'show_modal')
+        ? [{ type: 'empty_reason', severity: 'warning', message: 'Modals are discouraged' }]
+        : []
+    };
+    const document = { actions: [image('a'), { type: 'show_modal', title: 'x', content: 'y', image_id: null, subtitle_id: null }] };
+
+    expect(new DSLParser({ lintRules: [noModals] }).parseObject(document).warnings!.map(w => w.message))
+      .toEqual(['Modals are discouraged']);
+    expect(new DSLParser({ lintRules: [] }).parseObject(document).warnings).toBeUndefined();
+  });
+});
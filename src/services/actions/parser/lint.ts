@@ -0,0 +1,85 @@
+/**
+ * Lint rules for Action DSL documents
+ *
+ * Lint rules look for quality problems in documents that are otherwise valid:
+ * wasted asset generation, empty reasoning, monotonous cutscenes. They run
+ * only after a document parses successfully and report warnings, so a
+ * finding never rejects the document.
+ */
+
+import type { Action, ValidationError } from './types';
+import { EmptyReasonWarning, RepetitiveCutsceneWarning, UnusedAssetWarning } from './errors';
+import { extractReferencedIds } from './schemas';
+
+export interface LintRule {
+  /** Stable identifier, e.g. for enabling rules selectively */
+  name: string;
+  check(actions: Action[]): ValidationError[];
+}
+
+function toRecord(action: Action): Record<string, unknown> {
+  return action as unknown as Record<string, unknown>;
+}
+
+/**
+ * Assets that no cutscene, modal or play_cutscene refers to
+ *
+ * Generated assets cost money, so an unused one is usually a forgotten
+ * reference or a typo'd ID that happened to match nothing.
+ */
+export const unusedAssetRule: LintRule = {
+  name: 'unused-asset',
+  check(actions) {
+    const referenced = new Set(actions.flatMap(action => extractReferencedIds(toRecord(action))));
+
+    return actions.flatMap((action, index) => {
+      if (action.type !== 'asset_image' && action.type !== 'asset_subtitle' && action.type !== 'asset_cutscene') {
+        return [];
+      }
+      return referenced.has(action.id)
+        ? []
+        : [new UnusedAssetWarning(action.id, action.type, index).toValidationError()];
+    });
+  }
+};
+
+/**
+ * Reason actions whose text is empty or whitespace
+ */
+export const emptyReasonRule: LintRule = {
+  name: 'empty-reason',
+  check(actions) {
+    return actions.flatMap((action, index) =>
+      action.type === 'reason' && action.ephemeral_reasoning.trim() === ''
+        ? [new EmptyReasonWarning(index).toValidationError()]
+        : []
+    );
+  }
+};
+
+/**
+ * Cutscenes with several shots that all show the same image
+ */
+export const repetitiveCutsceneRule: LintRule = {
+  name: 'repetitive-cutscene',
+  check(actions) {
+    return actions.flatMap((action, index) => {
+      if (action.type !== 'asset_cutscene' || action.shots.length < 2) {
+        return [];
+      }
+      const imageId = action.shots[0].image_id;
+      return action.shots.every(shot => shot.image_id === imageId)
+        ? [new RepetitiveCutsceneWarning(action.id, imageId, action.shots.length, index).toValidationError()]
+        : [];
+    });
+  }
+};
+
+export const DEFAULT_LINT_RULES: LintRule[] = [unusedAssetRule, emptyReasonRule, repetitiveCutsceneRule];
+
+/**
+ * Run lint rules over a validated action list
+ */
+export function lintActions(actions: Action[], rules: LintRule[] = DEFAULT_LINT_RULES): ValidationError[] {
+  return rules.flatMap(rule => rule.check(actions));
+}
@@ -0,0 +1,103 @@
+/**
+ * Unit tests for versioned DSL migrations
+ */
+
+import { describe, it, expect } from 'vitest';
+import { migrateDocument, DEFAULT_MIGRATIONS, CURRENT_DSL_VERSION } from './migrations';
+import type { DSLMigration } from './migrations';
+import { DSLParser } from './DSLParser';
+
+const modal = { type: 'show_modal', title: 'Hello', content: 'World', image_id: null, subtitle_id: null };
+const legacyModal = { type: 'show_modal', title: 'Hello', content: 'World', actions: ['dismiss'] };
+
+describe('migrateDocument', () => {
+  it('treats unversioned documents as version 1 and stamps the current version', () => {
+    const result = migrateDocument({ actions: [modal] });
+
+    expect(result.fromVersion).toBe(1);
+    expect(result.toVersion).toBe(CURRENT_DSL_VERSION);
+    expect(result.warnings).toEqual([]);
+    expect(result.document).toEqual({ dsl_version: CURRENT_DSL_VERSION, actions: [modal] });
+  });
+
+  it('reports each rewrite as a migration warning', () => {
+    const result = migrateDocument({ actions: [legacyModal] });
+
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0]).toMatchObject({ type: 'migration' });
+    expect(result.warnings[0].message).toMatch(/^Migrated dsl_version 1 → 2: actions\.0: replaced show_modal/);
+  });
+
+  it('skips migrations for documents already at the current version', () => {
+    const result = migrateDocument({ dsl_version: CURRENT_DSL_VERSION, actions: [legacyModal] });
+    expect(result.warnings).toEqual([]);
+    expect(result.document).toMatchObject({ actions: [legacyModal] });
+  });
+
+  it('applies steps in order up to the newest version', () => {
+    const renameTitle: DSLMigration = {
+      from: 2,
+      to: 3,
+      description: 'Rename show_modal title to heading',
+      migrate: (document) => {
+        const doc = document as { actions: Array<Record<string, unknown>> };
+        return {
+          document: { ...doc, actions: doc.actions.map(({ title, ...rest }) => ({ ...rest, heading: title })) },
+          changes: ['renamed title to heading']
+        };
+      }
+    };
+
+    const result = migrateDocument({ actions: [legacyModal] }, [...DEFAULT_MIGRATIONS, renameTitle]);
+
+    expect(result.toVersion).toBe(3);
+    expect(result.warnings.map(warning => warning.message)).toEqual([
+      "Migrated dsl_version 1 → 2: actions.0: replaced show_modal 'actions' with image_id/subtitle_id",
+      'Migrated dsl_version 2 → 3: renamed title to heading'
+    ]);
+    expect(result.document).toMatchObject({ dsl_version: 3, actions: [{ heading: 'Hello', image_id: null }] });
+  });
+
+  it('rejects versions newer than the parser understands', () => {
+    const result = migrateDocument({ dsl_version: CURRENT_DSL_VERSION + 1, actions: [] });
+    expect(result.error).toMatchObject({ type: 'unsupported_version', path: 'dsl_version' });
+  });
+
+  it('rejects versions with no migration path', () => {
+    const result = migrateDocument({ actions: [] }, [{ ...DEFAULT_MIGRATIONS[0], from: 0 }]);
+    expect(result.error?.message).toBe('Unsupported dsl_version 1: no migration from version 1');
+  });
+});
+
+describe('DSLParser with dsl_version', () => {
+  const parser = new DSLParser();
+
+  it('parses migrated documents and surfaces warnings', () => {
+    const result = parser.parseObject({ actions: [legacyModal] });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.graph!.nodes.get('show_modal_0')!.action).toEqual(modal);
+  });
+
+  it('omits warnings when nothing was rewritten', () => {
+    const result = parser.parse(JSON.stringify({ dsl_version: 2, actions: [modal] }));
+    expect(result.success).toBe(true);
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('keeps migration warnings when validation fails afterwards', () => {
+    const result = parser.parseObject({
+      actions: [legacyModal, { type: 'play_cutscene', cutscene_id: 'missing' }]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors![0].type).toBe('unknown_reference');
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('reports unsupported and malformed versions as errors', () => {
+    expect(parser.parseObject({ dsl_version: 99, actions: [] }).errors![0].type).toBe('unsupported_version');
+    expect(parser.parseObject({ dsl_version: '2', actions: [] }).errors![0].message).toMatch(/dsl_version/);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Versioned migrations for Action DSL documents
+ *
+ * Documents declare their format with an optional root `dsl_version`.
+ * Before schema validation the parser upgrades older documents one version
+ * at a time, and every rewrite a step makes is reported as a warning so
+ * authors (and prompt maintainers) can see what was changed. A missing
+ * version means version 1.
+ */
+
+import type { ValidationError } from './types';
+import { migrateLegacyActions } from './legacyMigration';
+import { MigrationWarning, UnsupportedVersionError } from './errors';
+
+/** Version assumed for documents without `dsl_version` */
+export const UNVERSIONED_DSL_VERSION = 1;
+
+/** Version produced by the built-in migrations and expected by the schemas */
+export const CURRENT_DSL_VERSION = 2;
+
+export interface DSLMigrationStepResult {
+  document: unknown;
+  /** Description of each rewrite; an empty list means nothing changed */
+  changes: string[];
+}
+
+export interface DSLMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate(document: unknown): DSLMigrationStepResult;
+}
+
+export interface DSLMigrationResult {
+  /** Upgraded document, stamped with the target `dsl_version` */
+  document: unknown;
+  fromVersion: number;
+  toVersion: number;
+  /** One warning per rewrite made by a migration step */
+  warnings: ValidationError[];
+  /** Set when the document cannot be upgraded */
+  error?: ValidationError;
+}
+
+export const DEFAULT_MIGRATIONS: DSLMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: 'Unified action shapes (show_modal, add_player_choice, animation names)',
+    migrate: migrateLegacyActions
+  }
+];
+
+/**
+ * Upgrade a document to the newest version the migrations can reach
+ *
+ * Inputs that are not objects, or whose `dsl_version` is not a positive
+ * integer, are returned unchanged so schema validation can report them.
+ */
+export function migrateDocument(input: unknown, migrations: DSLMigration[] = DEFAULT_MIGRATIONS): DSLMigrationResult {
+  const targetVersion = Math.max(CURRENT_DSL_VERSION, ...migrations.map(migration => migration.to));
+
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { document: input, fromVersion: targetVersion, toVersion: targetVersion, warnings: [] };
+  }
+
+  const declared = (input as Record<string, unknown>).dsl_version;
+  const fromVersion = declared === undefined ? UNVERSIONED_DSL_VERSION : declared;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 1) {
+    return { document: input, fromVersion: targetVersion, toVersion: targetVersion, warnings: [] };
+  }
+
+  if (fromVersion > targetVersion) {
+    return {
+      document: input,
+      fromVersion,
+      toVersion: fromVersion,
+      warnings: [],
+      error: new UnsupportedVersionError(fromVersion, `newest supported version is ${targetVersion}`).toValidationError()
+    };
+  }
+
+  const warnings: ValidationError[] = [];
+  let document: unknown = input;
+  let version = fromVersion;
+
+  while (version < targetVersion) {
+    const step = migrations.find(migration => migration.from === version);
+    if (!step) {
+      return {
+        document,
+        fromVersion,
+        toVersion: version,
+        warnings,
+        error: new UnsupportedVersionError(version, `no migration from version ${version}`).toValidationError()
+      };
+    }
+
+    const result = step.migrate(document);
+    result.changes.forEach(change => {
+      warnings.push(new MigrationWarning(step.from, step.to, change).toValidationError());
+    });
+    document = result.document;
+    version = step.to;
+  }
+
+  return {
+    document: { ...(document as Record<string, unknown>), dsl_version: version },
+    fromVersion,
+    toVersion: version,
+    warnings
+  };
+}
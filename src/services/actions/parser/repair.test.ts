@@ -0,0 +1,179 @@
+/**
+ * Unit tests for auto-repair of malformed action documents
+ */
+
+import { describe, it, expect } from 'vitest';
+import { repairJSONText, repairDocument } from './repair';
+import { DSLParser } from './DSLParser';
+
+const image = { type: 'asset_image', id: 'planet_surface', prompt: 'A planet', size: '1024x768', model: 'flux-schnell' };
+const subtitle = {
+  type: 'asset_subtitle',
+  id: 'narration',
+  text: 'A world is born',
+  voice_tone: 'epic',
+  voice_gender: 'neutral',
+  voice_pace: 'normal',
+  model: 'openai-tts'
+};
+const cutscene = {
+  type: 'asset_cutscene',
+  id: 'intro',
+  shots: [{ image_id: 'planet_surface', subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+};
+
+describe('repairJSONText', () => {
+  it('strips a code fence and trailing commas outside strings', () => {
+    const text = '```json\n{"actions": [{"type": "reason", "ephemeral_reasoning": "a, ]",},],}\n```';
+    const { text: repaired, fixes } = repairJSONText(text);
+
+    expect(JSON.parse(repaired)).toEqual({ actions: [{ type: 'reason', ephemeral_reasoning: 'a, ]' }] });
+    expect(fixes.map(fix => fix.kind)).toEqual(['code_fence', 'trailing_comma']);
+    expect(fixes[1].message).toBe('Removed 3 trailing commas');
+  });
+
+  it('leaves valid JSON untouched', () => {
+    const text = JSON.stringify({ actions: [image] });
+    expect(repairJSONText(text)).toEqual({ text, fixes: [] });
+  });
+});
+
+describe('repairDocument', () => {
+  it('fixes near-miss enum values and action types', () => {
+    const { document, fixes } = repairDocument({
+      actions: [
+        { ...image, size: '1024X768' },
+        { ...subtitle, type: 'asset_subtitel', voice_tone: 'Mysterious' },
+        { ...cutscene, shots: [{ ...cutscene.shots[0], animation: 'slowzoom' }] }
+      ]
+    });
+
+    expect(fixes.map(fix => fix.message)).toEqual([
+      "actions.0.size: '1024X768' → '1024x768'",
+      "actions.1.type: 'asset_subtitel' → 'asset_subtitle'",
+      "actions.1.voice_tone: 'Mysterious' → 'mysterious'",
+      "actions.2.shots.0.animation: 'slowzoom' → 'slow_zoom'"
+    ]);
+    expect(document).toMatchObject({ actions: [{ size: '1024x768' }, { type: 'asset_subtitle' }, { shots: [{ animation: 'slow_zoom' }] }] });
+  });
+
+  it('prefers a separator-insensitive match over similar values', () => {
+    const { fixes } = repairDocument({
+      actions: [{ ...cutscene, shots: [{ ...cutscene.shots[0], animation: 'pan-left' }] }]
+    });
+    expect(fixes[0].message).toBe("actions.0.shots.0.animation: 'pan-left' → 'pan_left'");
+  });
+
+  it('fixes references with exactly one similar id, including nested actions', () => {
+    const { document, fixes } = repairDocument({
+      actions: [
+        image,
+        subtitle,
+        { ...cutscene, shots: [{ ...cutscene.shots[0], image_id: 'planet_surfce' }] },
+        { type: 'when_then', condition: 'game.turn > 1', action: { type: 'play_cutscene', cutscene_id: 'intr' } }
+      ]
+    });
+
+    expect(fixes.map(fix => fix.kind)).toEqual(['reference', 'reference']);
+    expect(document).toMatchObject({
+      actions: [{}, {}, { shots: [{ image_id: 'planet_surface' }] }, { action: { cutscene_id: 'intro' } }]
+    });
+  });
+
+  it('keeps references to known ids and repairs towards them', () => {
+    const { document, fixes } = repairDocument(
+      {
+        actions: [
+          { ...image, id: 'planet_surface_2' },
+          { type: 'show_modal', title: 'Hi', content: 'There', image_id: 'planet_surface', subtitle_id: 'narratoin' }
+        ]
+      },
+      ['planet_surface', 'narration']
+    );
+
+    expect(fixes).toEqual([
+      { kind: 'reference', path: 'actions.1.subtitle_id', message: expect.stringContaining("'narratoin' → 'narration'") }
+    ]);
+    expect(document).toMatchObject({ actions: [{}, { image_id: 'planet_surface', subtitle_id: 'narration' }] });
+  });
+
+  it('adds missing nulls for nullable fields', () => {
+    const { document, fixes } = repairDocument({
+      actions: [{ type: 'show_modal', title: 'Hi', content: 'There', subtitle_id: null }]
+    });
+
+    expect(fixes).toEqual([{ kind: 'missing_null', path: 'actions.0.image_id', message: 'actions.0.image_id: added missing null' }]);
+    expect(document).toEqual({
+      actions: [{ type: 'show_modal', title: 'Hi', content: 'There', subtitle_id: null, image_id: null }]
+    });
+  });
+
+  it('leaves ambiguous problems alone', () => {
+    const input = {
+      actions: [
+        { ...image, id: 'img_a' },
+        { ...image, id: 'img_b' },
+        { type: 'show_modal', title: 'x', content: 'y', image_id: 'img_c', subtitle_id: null },
+        { ...image, id: 'img_d', model: 'dall-e' }
+      ]
+    };
+    const { document, fixes } = repairDocument(input);
+
+    expect(fixes).toEqual([]);
+    expect(document).toEqual(input);
+  });
+});
+
+describe('DSLParser with autoRepair', () => {
+  const parser = new DSLParser({ autoRepair: true });
+
+  it('repairs raw JSON and document problems in one pass', () => {
+    const raw = [
+      '```json',
+      JSON.stringify({ actions: [image, subtitle, { ...cutscene, shots: [{ ...cutscene.shots[0], animation: 'slowzoom' }] }] })
+        .replace(/}]}$/, '},]}'),
+      '```'
+    ].join('\n');
+
+    const result = parser.parse(raw);
+
+    expect(result.success).toBe(true);
+    expect(result.repairs!.map(fix => fix.kind)).toEqual(['code_fence', 'trailing_comma', 'enum_value']);
+    expect(result.repairedDocument).toMatchObject({ actions: [{}, {}, { shots: [{ animation: 'slow_zoom' }] }] });
+  });
+
+  it('does not repair documents that already parse', () => {
+    const result = parser.parseObject({ actions: [image] });
+    expect(result.success).toBe(true);
+    expect(result.repairs).toBeUndefined();
+  });
+
+  it('reports remaining errors together with the fixes that were applied', () => {
+    const result = parser.parseObject({
+      actions: [{ ...image, size: '1024x786' }, { type: 'play_cutscene', cutscene_id: 'missing' }]
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.repairs).toHaveLength(1);
+    expect(result.errors![0].type).toBe('unknown_reference');
+  });
+
+  it('treats references to known ids as valid', () => {
+    const result = new DSLParser({ autoRepair: true, knownIds: ['planet_surface'] }).parseObject({
+      actions: [
+        { ...image, id: 'planet_surface_2', size: '1024x786' },
+        { type: 'show_modal', title: 'Hi', content: 'There', image_id: 'planet_surface', subtitle_id: null }
+      ]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.repairs!.map(fix => fix.kind)).toEqual(['enum_value']);
+    expect(result.repairedDocument).toMatchObject({ actions: [{}, { image_id: 'planet_surface' }] });
+  });
+
+  it('is off by default', () => {
+    const result = new DSLParser().parse('{"actions": [],}');
+    expect(result.success).toBe(false);
+    expect(result.repairs).toBeUndefined();
+  });
+});
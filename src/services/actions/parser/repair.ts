@@ -0,0 +1,239 @@
+/**
+ * Auto-repair for malformed LLM action documents
+ *
+ * Fixes only problems with a single obvious correction, so a repaired
+ * document never means something the model did not intend:
+ * - Markdown code fences around the JSON and trailing commas
+ * - Near-miss enum values and action types (`slowzoom` → `slow_zoom`) with
+ *   one clearly closest candidate
+ * - Unknown references with exactly one similar ID
+ * - Missing nullable fields such as show_modal `image_id` (set to null)
+ *
+ * Everything else is left for validation to report.
+ */
+
+import { z } from 'zod';
+import { ActionSchemasByType, extractActionIds } from './schemas';
+import { findSimilarStrings, levenshteinDistance } from './errors';
+
+export type RepairKind = 'code_fence' | 'trailing_comma' | 'enum_value' | 'action_type' | 'reference' | 'missing_null';
+
+export interface RepairFix {
+  kind: RepairKind;
+  message: string;
+  /** Dotted path of the repaired field, e.g. "actions.2.shots.0.animation" */
+  path?: string;
+}
+
+export interface TextRepairResult {
+  text: string;
+  fixes: RepairFix[];
+}
+
+export interface DocumentRepairResult {
+  document: unknown;
+  fixes: RepairFix[];
+}
+
+const TEMPLATE_TYPES = ['define_template', 'use_template'];
+
+/** Fields whose string value refers to another action's id */
+const REFERENCE_FIELDS = new Set(['image_id', 'subtitle_id', 'cutscene_id']);
+
+const CODE_FENCE_PATTERN = /^\s*```[\w-]*[ \t]*\r?\n([\s\S]*?)\r?\n?[ \t]*```\s*$/;
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Repair raw JSON text: strip a surrounding code fence and trailing commas
+ */
+export function repairJSONText(text: string): TextRepairResult {
+  const fixes: RepairFix[] = [];
+  let repaired = text;
+
+  const fence = CODE_FENCE_PATTERN.exec(repaired);
+  if (fence) {
+    repaired = fence[1];
+    fixes.push({ kind: 'code_fence', message: 'Removed markdown code fence around the JSON' });
+  }
+
+  const { text: withoutCommas, removed } = removeTrailingCommas(repaired);
+  if (removed > 0) {
+    repaired = withoutCommas;
+    fixes.push({ kind: 'trailing_comma', message: `Removed ${removed} trailing comma${removed === 1 ? '' : 's'}` });
+  }
+
+  return { text: repaired, fixes };
+}
+
+/**
+ * Remove commas directly followed (ignoring whitespace) by `}` or `]`,
+ * skipping string contents
+ */
+function removeTrailingCommas(text: string): { text: string; removed: number } {
+  let result = '';
+  let removed = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      result += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      const next = text.slice(i + 1).match(/^\s*([}\]])/);
+      if (next) {
+        removed++;
+        continue;
+      }
+    }
+    result += char;
+  }
+
+  return { text: result, removed };
+}
+
+/**
+ * Repair a parsed action document against the action schemas
+ *
+ * @param knownIds - IDs of assets from earlier documents, which references may use
+ * @returns A repaired copy (the input is not modified) and the applied fixes
+ */
+export function repairDocument(input: unknown, knownIds: Iterable<string> = []): DocumentRepairResult {
+  const fixes: RepairFix[] = [];
+
+  if (!isObject(input) || !Array.isArray(input.actions)) {
+    return { document: input, fixes };
+  }
+
+  const ids = [
+    ...input.actions.flatMap(action => (isObject(action) ? extractActionIds(action) : [])),
+    ...knownIds
+  ];
+  const context: RepairContext = { ids, fixes };
+  const actions = input.actions.map((action, index) => repairAction(action, `actions.${index}`, context));
+
+  return { document: { ...input, actions }, fixes };
+}
+
+interface RepairContext {
+  ids: string[];
+  fixes: RepairFix[];
+}
+
+function repairAction(value: unknown, path: string, context: RepairContext): unknown {
+  // Template bodies hold placeholders and are checked after expansion instead
+  if (!isObject(value) || typeof value.type !== 'string' || TEMPLATE_TYPES.includes(value.type)) {
+    return value;
+  }
+
+  const types = Object.keys(ActionSchemasByType);
+  let type = value.type;
+  if (!types.includes(type)) {
+    const match = findUniqueMatch(type, types);
+    if (!match) {
+      return value;
+    }
+    context.fixes.push({ kind: 'action_type', path: `${path}.type`, message: `${path}.type: '${type}' → '${match}'` });
+    type = match;
+  }
+
+  const schema = ActionSchemasByType[type as keyof typeof ActionSchemasByType];
+  return repairObject({ ...value, type }, schema, path, context);
+}
+
+function repairObject(value: JsonObject, schema: z.ZodObject, path: string, context: RepairContext): JsonObject {
+  const result = { ...value };
+
+  for (const [key, field] of Object.entries(schema.shape)) {
+    const fieldPath = `${path}.${key}`;
+
+    if (!(key in result)) {
+      if (field instanceof z.ZodNullable) {
+        result[key] = null;
+        context.fixes.push({ kind: 'missing_null', path: fieldPath, message: `${fieldPath}: added missing null` });
+      }
+      continue;
+    }
+
+    let repaired = repairValue(result[key], field, fieldPath, context);
+    if (REFERENCE_FIELDS.has(key) && typeof repaired === 'string' && !context.ids.includes(repaired)) {
+      const match = findSimilarStrings(repaired, context.ids);
+      if (match.length === 1) {
+        context.fixes.push({ kind: 'reference', path: fieldPath, message: `${fieldPath}: '${repaired}' → '${match[0]}'` });
+        repaired = match[0];
+      }
+    }
+    result[key] = repaired;
+  }
+
+  return result;
+}
+
+function repairValue(value: unknown, schema: unknown, path: string, context: RepairContext): unknown {
+  // The only lazy schemas in the DSL are nested actions
+  if (schema instanceof z.ZodLazy) {
+    return repairAction(value, path, context);
+  }
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    return value === undefined || value === null ? value : repairValue(value, schema.unwrap(), path, context);
+  }
+  if (schema instanceof z.ZodEnum && typeof value === 'string') {
+    const options = schema.options.map(String);
+    if (options.includes(value)) {
+      return value;
+    }
+    const match = findUniqueMatch(value, options);
+    if (match) {
+      context.fixes.push({ kind: 'enum_value', path, message: `${path}: '${value}' → '${match}'` });
+      return match;
+    }
+    return value;
+  }
+  if (schema instanceof z.ZodArray && Array.isArray(value)) {
+    return value.map((item, index) => repairValue(item, schema.element, `${path}.${index}`, context));
+  }
+  if (schema instanceof z.ZodObject && isObject(value)) {
+    return repairObject(value, schema, path, context);
+  }
+  return value;
+}
+
+/**
+ * Find the one candidate a near-miss value clearly means
+ *
+ * Values that only differ in case or separators (`Slow-Zoom`) match first;
+ * otherwise the closest similar candidate wins if it is strictly closer than
+ * the runner-up.
+ */
+function findUniqueMatch(value: string, candidates: string[]): string | undefined {
+  const normalize = (s: string) => s.toLowerCase().replace(/[\s_-]/g, '');
+  const normalized = candidates.filter(candidate => normalize(candidate) === normalize(value));
+  if (normalized.length === 1) {
+    return normalized[0];
+  }
+
+  const similar = findSimilarStrings(value, candidates);
+  if (similar.length <= 1) {
+    return similar[0];
+  }
+  const [best, runnerUp] = similar.map(candidate => levenshteinDistance(value, candidate));
+  return best < runnerUp ? similar[0] : undefined;
+}
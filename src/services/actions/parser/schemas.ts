@@ -1,13 +1,22 @@
 /**
  * Zod schemas for Action DSL validation
+ *
+ * These schemas are the single source of truth for action shapes: the
+ * TypeScript types in types.ts are inferred from them, and the executors
+ * consume those same types.
  */
 
 import { z } from 'zod';
+import type { Action } from './types';
 
-// Base schema for actions (unused but kept for reference)
-// const BaseActionSchema = z.object({
-//   type: z.string(),
-// });
+// Helper schemas for validation
+export const ImageSizeSchema = z.enum(['1024x768', '768x1024', '1024x1024']);
+export const ImageModelSchema = z.enum(['flux-schnell', 'sdxl']);
+export const VoiceToneSchema = z.enum(['epic', 'mysterious', 'calm', 'urgent', 'triumphant']);
+export const VoiceGenderSchema = z.enum(['neutral', 'feminine', 'masculine']);
+export const VoicePaceSchema = z.enum(['slow', 'normal', 'fast']);
+export const TTSModelSchema = z.enum(['openai-tts', 'google-tts']);
+export const AnimationSchema = z.enum(['none', 'slow_zoom', 'pan_left', 'pan_right', 'fade']);
 
 export const ReasonActionSchema = z.object({
   type: z.literal('reason'),
@@ -19,25 +28,25 @@ export const AssetImageActionSchema = z.object({
   type: z.literal('asset_image'),
   id: z.string(),
   prompt: z.string(),
-  size: z.enum(['1024x768', '768x1024', '1024x1024']),
-  model: z.enum(['flux-schnell', 'sdxl']),
+  size: ImageSizeSchema,
+  model: ImageModelSchema,
 });
 
 export const AssetSubtitleActionSchema = z.object({
   type: z.literal('asset_subtitle'),
   id: z.string(),
   text: z.string(),
-  voice_tone: z.enum(['epic', 'mysterious', 'calm', 'urgent', 'triumphant']),
-  voice_gender: z.enum(['neutral', 'feminine', 'masculine']),
-  voice_pace: z.enum(['slow', 'normal', 'fast']),
-  model: z.enum(['openai-tts', 'google-tts']),
+  voice_tone: VoiceToneSchema,
+  voice_gender: VoiceGenderSchema,
+  voice_pace: VoicePaceSchema,
+  model: TTSModelSchema,
 });
 
 export const CutsceneShotSchema = z.object({
   image_id: z.string(),
   subtitle_id: z.string(),
   duration: z.number().positive(),
-  animation: z.enum(['none', 'slow_zoom', 'pan_left', 'pan_right', 'fade']),
+  animation: AnimationSchema,
 });
 
 export const AssetCutsceneActionSchema = z.object({
@@ -72,35 +81,20 @@ export const RemoveFeatureActionSchema = z.object({
   target: z.string(),
 });
 
-// Forward reference for recursive when_then actions
-export const ActionSchema: z.ZodSchema = z.lazy(() => 
-  z.discriminatedUnion('type', [
-    ReasonActionSchema,
-    AssetImageActionSchema,
-    AssetSubtitleActionSchema,
-    AssetCutsceneActionSchema,
-    PlayCutsceneActionSchema,
-    ShowModalActionSchema,
-    AddFeatureActionSchema,
-    RemoveFeatureActionSchema,
-    WhenThenActionSchema,
-    AddPlayerChoiceActionSchema,
-  ])
-);
-
-// When then action schema (needs to be defined after ActionSchema)
+// Recursive action schemas reference ActionSchema lazily; their TypeScript
+// types are declared in types.ts as interfaces so the recursion type-checks
 export const WhenThenActionSchema = z.object({
   type: z.literal('when_then'),
   id: z.string().optional(),
   condition: z.string(),
-  action: ActionSchema,
+  action: z.lazy(() => ActionSchema),
 });
 
 // Player choice option schema
 export const PlayerChoiceOptionSchema = z.object({
   label: z.string(),
   description: z.string(),
-  reactions: z.array(ActionSchema),
+  reactions: z.array(z.lazy(() => ActionSchema)),
 });
 
 // Add player choice action schema
@@ -111,20 +105,80 @@ export const AddPlayerChoiceActionSchema = z.object({
   options: z.array(PlayerChoiceOptionSchema).min(1),
 });
 
+const ActionUnionSchema = z.discriminatedUnion('type', [
+  ReasonActionSchema,
+  AssetImageActionSchema,
+  AssetSubtitleActionSchema,
+  AssetCutsceneActionSchema,
+  PlayCutsceneActionSchema,
+  ShowModalActionSchema,
+  AddFeatureActionSchema,
+  RemoveFeatureActionSchema,
+  WhenThenActionSchema,
+  AddPlayerChoiceActionSchema,
+]);
+
+/**
+ * Schema for any single action - the source of truth for the Action type
+ */
+export const ActionSchema: z.ZodType<Action> = ActionUnionSchema;
+
+/**
+ * Schema for each action type, for tools that need to look schemas up by `type`
+ */
+export const ActionSchemasByType = {
+  reason: ReasonActionSchema,
+  asset_image: AssetImageActionSchema,
+  asset_subtitle: AssetSubtitleActionSchema,
+  asset_cutscene: AssetCutsceneActionSchema,
+  play_cutscene: PlayCutsceneActionSchema,
+  show_modal: ShowModalActionSchema,
+  add_feature: AddFeatureActionSchema,
+  remove_feature: RemoveFeatureActionSchema,
+  when_then: WhenThenActionSchema,
+  add_player_choice: AddPlayerChoiceActionSchema,
+} satisfies Record<Action['type'], z.ZodObject>;
+
+// Templates are document-level macros: they may only appear in the root
+// actions array and are expanded into plain actions before validation
+// (see templates.ts), so they are not part of the Action union
+export const TemplateValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+export const TemplateParamSchema = z.object({
+  type: z.enum(['string', 'number', 'boolean']),
+  default: TemplateValueSchema.optional(),
+  description: z.string().optional(),
+});
+
+export const DefineTemplateActionSchema = z.object({
+  type: z.literal('define_template'),
+  name: z.string(),
+  params: z.record(z.string(), TemplateParamSchema),
+  // Bodies hold {{param}} placeholders, so they are only checked after expansion
+  actions: z.array(z.looseObject({ type: z.string() })).min(1),
+});
+
+export const UseTemplateActionSchema = z.object({
+  type: z.literal('use_template'),
+  template: z.string(),
+  args: z.record(z.string(), TemplateValueSchema).optional(),
+});
+
+/**
+ * Schema for an entry of the root actions array: an action or a template
+ */
+export const DocumentEntrySchema = z.discriminatedUnion('type', [
+  ActionUnionSchema,
+  DefineTemplateActionSchema,
+  UseTemplateActionSchema,
+]);
+
 // Main actions input schema
 export const ActionInputSchema = z.object({
-  actions: z.array(ActionSchema),
+  dsl_version: z.number().int().positive().optional(),
+  actions: z.array(DocumentEntrySchema),
 });
 
-// Helper schemas for validation
-export const ImageSizeSchema = z.enum(['1024x768', '768x1024', '1024x1024']);
-export const ImageModelSchema = z.enum(['flux-schnell', 'sdxl']);
-export const VoiceToneSchema = z.enum(['epic', 'mysterious', 'calm', 'urgent', 'triumphant']);
-export const VoiceGenderSchema = z.enum(['neutral', 'feminine', 'masculine']);
-export const VoicePaceSchema = z.enum(['slow', 'normal', 'fast']);
-export const TTSModelSchema = z.enum(['openai-tts', 'google-tts']);
-export const AnimationSchema = z.enum(['none', 'slow_zoom', 'pan_left', 'pan_right', 'fade']);
-
 /**
  * Type guards for action types
  */
@@ -178,6 +232,43 @@ export function extractActionIds(action: Record<string, unknown>): string[] {
   return ids;
 }
 
+/**
+ * Extract the IDs declared inside player-choice reactions
+ *
+ * Reactions only run once the player picks their option, so these IDs are
+ * not part of the document's own graph.
+ */
+export function extractDeferredIds(action: Record<string, unknown>): string[] {
+  const ids: string[] = [];
+
+  if (action.type === 'add_player_choice' && Array.isArray(action.options)) {
+    for (const option of action.options) {
+      if (option && typeof option === 'object' && Array.isArray(option.reactions)) {
+        for (const reaction of option.reactions) {
+          if (reaction && typeof reaction === 'object') {
+            ids.push(...extractActionIds(reaction as Record<string, unknown>));
+          }
+        }
+      }
+    }
+  }
+
+  if (action.type === 'when_then' && action.action && typeof action.action === 'object') {
+    ids.push(...extractDeferredIds(action.action as Record<string, unknown>));
+  }
+
+  return ids;
+}
+
+/**
+ * Extract the IDs an action contributes to its document's graph: all of its
+ * IDs except those declared inside player-choice reactions
+ */
+export function extractGraphIds(action: Record<string, unknown>): string[] {
+  const deferred = new Set(extractDeferredIds(action));
+  return extractActionIds(action).filter(id => !deferred.has(id));
+}
+
 /**
  * Extract all referenced IDs from an action
  */
@@ -0,0 +1,152 @@
+/**
+ * Unit tests for source positions on validation errors
+ */
+
+import { describe, it, expect } from 'vitest';
+import { JSONSourceMap, locateSyntaxError } from './sourceMap';
+import { DSLParser } from './DSLParser';
+import { StreamingDSLParser } from './StreamingDSLParser';
+
+const image = (id: string, size = '1024x768') => ({ type: 'asset_image', id, prompt: 'A planet', size, model: 'flux-schnell' });
+const subtitle = {
+  type: 'asset_subtitle',
+  id: 'narration',
+  text: 'A world is born',
+  voice_tone: 'epic',
+  voice_gender: 'neutral',
+  voice_pace: 'normal',
+  model: 'openai-tts'
+};
+const cutscene = (id: string, imageId: string) => ({
+  type: 'asset_cutscene',
+  id,
+  shots: [{ image_id: imageId, subtitle_id: 'narration', duration: 3, animation: 'fade' }]
+});
+const play = (cutsceneId: string) => ({ type: 'play_cutscene', cutscene_id: cutsceneId });
+
+/** Pretty-printed like LLM output, so every value sits on its own line */
+const format = (actions: unknown[]) => JSON.stringify({ actions }, null, 2);
+
+/** 1-based line of the first occurrence of `needle` */
+const lineOf = (text: string, needle: string) => text.slice(0, text.indexOf(needle)).split('\n').length;
+
+describe('JSONSourceMap', () => {
+  const text = '{\n  "a": [1, {"b": "x\\"y"}],\n  "c": true\n}';
+  const sourceMap = new JSONSourceMap(text);
+
+  it('records the span of every value by dotted path', () => {
+    const span = sourceMap.spanOf('a.1.b')!;
+    expect(text.slice(span.start, span.end)).toBe('"x\\"y"');
+    expect(text.slice(sourceMap.spanOf('a.0')!.start, sourceMap.spanOf('a.0')!.end)).toBe('1');
+    expect(sourceMap.spanOf('')).toEqual({ start: 0, end: text.length });
+    expect(sourceMap.spanOf('missing')).toBeUndefined();
+  });
+
+  it('finds string values below a prefix', () => {
+    expect(sourceMap.findString('a', 'x"y')).toBe('a.1.b');
+    expect(sourceMap.findString('c', 'x"y')).toBeUndefined();
+  });
+
+  it('converts spans to lines, columns and an underlined excerpt', () => {
+    const location = sourceMap.locate(sourceMap.spanOf('c')!);
+    expect(location).toMatchObject({ line: 3, column: 8, endLine: 3, endColumn: 12 });
+    expect(location.excerpt).toBe('3 |   "c": true\n  |        ^^^^');
+  });
+});
+
+describe('DSLParser.parse source locations', () => {
+  const parser = new DSLParser();
+
+  it('locates schema errors at the offending value', () => {
+    const json = format([image('a'), image('b', '1024x786')]);
+    const error = parser.parse(json).errors![0];
+
+    expect(error.path).toBe('actions.1.size');
+    expect(error.location).toMatchObject({ line: lineOf(json, '"1024x786"'), column: 15 });
+    expect(error.location!.excerpt).toContain('"size": "1024x786"');
+  });
+
+  it('locates missing fields at the enclosing action', () => {
+    const withoutPrompt: Record<string, unknown> = image('a');
+    delete withoutPrompt.prompt;
+    const json = format([image('b'), withoutPrompt]);
+    const error = parser.parse(json).errors![0];
+
+    expect(error.location!.line).toBe(lineOf(json, '"id": "a"') - 2);
+  });
+
+  it('locates duplicate IDs at the second declaration', () => {
+    const json = format([image('a'), image('a')]);
+    const error = parser.parse(json).errors![0];
+
+    expect(error.type).toBe('duplicate_id');
+    // Each pretty-printed image action spans 7 lines
+    expect(error.location!.line).toBe(lineOf(json, '"id": "a"') + 7);
+  });
+
+  it('locates unknown references at the referring field', () => {
+    const json = format([image('a'), subtitle, cutscene('intro', 'planet'), play('intro')]);
+    const error = parser.parse(json).errors![0];
+
+    expect(error).toMatchObject({ type: 'unknown_reference', path: 'shots.0.image_id' });
+    expect(error.location!.line).toBe(lineOf(json, '"planet"'));
+  });
+
+  it('locates circular dependencies at an action in the cycle', () => {
+    const json = format([
+      { type: 'asset_cutscene', id: 'loop_a', shots: [{ image_id: 'loop_b', subtitle_id: 'narration', duration: 3, animation: 'fade' }] },
+      { type: 'asset_cutscene', id: 'loop_b', shots: [{ image_id: 'loop_a', subtitle_id: 'narration', duration: 3, animation: 'fade' }] },
+      subtitle
+    ]);
+    const error = parser.parse(json).errors!.find(e => e.type === 'circular_dependency')!;
+
+    expect(error.actionIndex).toBeDefined();
+    expect(error.location!.line).toBe(lineOf(json, `"id": "${error.actionId}"`) - 2);
+  });
+
+  it('locates JSON syntax errors', () => {
+    const json = '{\n  "actions": [\n    {"type": "reason" "ephemeral_reasoning": "x"}\n  ]\n}';
+    const error = parser.parse(json).errors![0];
+    expect(error.location).toMatchObject({ line: 3 });
+  });
+
+  it('locates lint warnings', () => {
+    const json = format([image('unused')]);
+    const warning = parser.parse(json).warnings![0];
+    expect(warning.location!.line).toBe(lineOf(json, '{\n      "type"'));
+  });
+
+  it('leaves results without a source text unlocated', () => {
+    const result = parser.parseObject({ actions: [image('a'), image('a')] });
+    expect(result.errors![0].location).toBeUndefined();
+  });
+
+  it('skips locations when auto-repair rewrote the text', () => {
+    const json = '```json\n' + format([image('a'), play('missing')]) + '\n```';
+    const result = new DSLParser({ autoRepair: true }).parse(json);
+
+    expect(result.errors![0].type).toBe('unknown_reference');
+    expect(result.errors![0].location).toBeUndefined();
+  });
+});
+
+describe('StreamingDSLParser source locations', () => {
+  it('reports lines of the whole stream, including leading prose', () => {
+    const json = format([image('a'), play('missing')]);
+    const stream = 'Here are the actions:\n```json\n' + json + '\n```';
+    const parser = new StreamingDSLParser();
+    parser.write(stream);
+
+    const error = parser.end().errors![0];
+    expect(error.location!.line).toBe(lineOf(stream, '"missing"'));
+  });
+});
+
+describe('locateSyntaxError', () => {
+  it('understands position and line/column messages', () => {
+    const text = '{\n  "a": x\n}';
+    expect(locateSyntaxError(new SyntaxError('Unexpected token x in JSON at position 9'), text)).toMatchObject({ line: 2, column: 8 });
+    expect(locateSyntaxError(new SyntaxError('unexpected character at line 2 column 8'), text)).toMatchObject({ line: 2, column: 8 });
+    expect(locateSyntaxError(new SyntaxError('Unexpected token'), text)).toBeUndefined();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Source positions for validation errors
+ *
+ * Validators work on parsed objects and describe problems by action index and
+ * path. To point authors at the offending text of a long LLM response, the
+ * parser maps every value of the raw JSON to its character span and resolves
+ * each error to a line, column and underlined excerpt. The map is only
+ * built when there is something to locate.
+ */
+
+import type { SourceLocation, ValidationError } from './types';
+
+export interface SourceSpan {
+  /** Offset of the first character */
+  start: number;
+  /** Offset just past the last character */
+  end: number;
+}
+
+const LITERAL_END = /[\s,\]}]/;
+
+/**
+ * Character spans of every value in a JSON document, keyed by dotted path
+ * ("actions.3.shots.0.image_id"; the root value has the empty path)
+ */
+export class JSONSourceMap {
+  private readonly spans = new Map<string, SourceSpan>();
+  private readonly strings = new Map<string, string>();
+  private readonly lineStarts: number[];
+
+  /**
+   * @param text - Valid JSON text (call after JSON.parse has accepted it)
+   */
+  constructor(private readonly text: string) {
+    this.lineStarts = findLineStarts(text);
+    this.scanValue('', this.skipWhitespace(0));
+  }
+
+  /**
+   * Span of the value at a path, if the document has one
+   */
+  spanOf(path: string): SourceSpan | undefined {
+    return this.spans.get(path);
+  }
+
+  /**
+   * Path of the first string value equal to `value` at or below `prefix`
+   */
+  findString(prefix: string, value: string): string | undefined {
+    for (const [path, stringValue] of this.strings) {
+      if (stringValue === value && (path === prefix || path.startsWith(`${prefix}.`))) {
+        return path;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Line/column position and excerpt for a character span
+   */
+  locate(span: SourceSpan): SourceLocation {
+    const start = toPosition(this.lineStarts, span.start);
+    const end = toPosition(this.lineStarts, Math.max(span.start, span.end - 1));
+    return {
+      line: start.line,
+      column: start.column,
+      endLine: end.line,
+      endColumn: end.column + 1,
+      start: span.start,
+      end: span.end,
+      excerpt: formatExcerpt(this.text, this.lineStarts, start.line, start.column, span.end - span.start)
+    };
+  }
+
+  private skipWhitespace(i: number): number {
+    while (i < this.text.length && /\s/.test(this.text[i])) {
+      i++;
+    }
+    return i;
+  }
+
+  private scanString(i: number): number {
+    i++;
+    while (i < this.text.length && this.text[i] !== '"') {
+      i += this.text[i] === '\\' ? 2 : 1;
+    }
+    return i + 1;
+  }
+
+  /** Record the value starting at `start` and return the offset after it */
+  private scanValue(path: string, start: number): number {
+    const char = this.text[start];
+    let i: number;
+
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      let index = 0;
+      i = this.skipWhitespace(start + 1);
+      while (i < this.text.length && this.text[i] !== close) {
+        let key = String(index++);
+        if (char === '{') {
+          const keyEnd = this.scanString(i);
+          key = JSON.parse(this.text.slice(i, keyEnd));
+          i = this.skipWhitespace(this.skipWhitespace(keyEnd) + 1);
+        }
+        i = this.skipWhitespace(this.scanValue(path ? `${path}.${key}` : key, i));
+        if (this.text[i] === ',') {
+          i = this.skipWhitespace(i + 1);
+        }
+      }
+      i++;
+    } else if (char === '"') {
+      i = this.scanString(start);
+      this.strings.set(path, JSON.parse(this.text.slice(start, i)));
+    } else {
+      i = start;
+      while (i < this.text.length && !LITERAL_END.test(this.text[i])) {
+        i++;
+      }
+    }
+
+    this.spans.set(path, { start, end: i });
+    return i;
+  }
+}
+
+/** Offsets at which each line starts */
+function findLineStarts(text: string): number[] {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  return lineStarts;
+}
+
+/** 1-based line and column of an offset */
+function toPosition(lineStarts: number[], offset: number): { line: number; column: number } {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return { line: low + 1, column: offset - lineStarts[low] + 1 };
+}
+
+/**
+ * Render a source line with the span underlined:
+ *
+ *   12 |     "size": "1024x786",
+ *      |             ^^^^^^^^^^
+ */
+function formatExcerpt(text: string, lineStarts: number[], line: number, column: number, length: number): string {
+  const lineStart = lineStarts[line - 1];
+  const lineEnd = line < lineStarts.length ? lineStarts[line] - 1 : text.length;
+  const source = text.slice(lineStart, lineEnd).replace(/\r$/, '');
+  const width = Math.max(1, Math.min(length, source.length - column + 1));
+  const gutter = ' '.repeat(String(line).length);
+
+  return `${line} | ${source}\n${gutter} | ${' '.repeat(column - 1)}${'^'.repeat(width)}`;
+}
+
+/**
+ * Find the span a validation error refers to
+ *
+ * Schema and version errors carry a document path. Semantic errors carry an
+ * action index and, depending on the check, a path relative to the action
+ * (`shots.0.image_id`) or the offending string itself (a condition or
+ * target), which is searched for inside the action.
+ */
+function findErrorSpan(error: ValidationError, sourceMap: JSONSourceMap): SourceSpan | undefined {
+  // Schema errors use actionIndex for the issue number, so only their path counts
+  if (error.type !== 'schema' && error.actionIndex !== undefined) {
+    const base = `actions.${error.actionIndex}`;
+    if (error.path) {
+      const nested = sourceMap.spanOf(`${base}.${error.path}`);
+      const byValue = sourceMap.findString(base, error.path);
+      const span = nested || (byValue !== undefined ? sourceMap.spanOf(byValue) : undefined);
+      if (span) {
+        return span;
+      }
+    }
+    if (error.type === 'duplicate_id' && sourceMap.spanOf(`${base}.id`)) {
+      return sourceMap.spanOf(`${base}.id`);
+    }
+    return sourceMap.spanOf(base);
+  }
+
+  // Missing fields have no span of their own; fall back to the closest parent
+  const segments = error.path ? error.path.split('.') : [];
+  while (segments.length > 0) {
+    const span = sourceMap.spanOf(segments.join('.'));
+    if (span) {
+      return span;
+    }
+    segments.pop();
+  }
+  return undefined;
+}
+
+/**
+ * Add source locations to errors whose position can be determined
+ */
+export function locateErrors(errors: ValidationError[], sourceMap: JSONSourceMap): ValidationError[] {
+  return errors.map(error => {
+    const span = findErrorSpan(error, sourceMap);
+    return span ? { ...error, location: sourceMap.locate(span) } : error;
+  });
+}
+
+/**
+ * Source location of a JSON.parse syntax error
+ *
+ * Engines report positions differently ("at position 12" in V8,
+ * "at line 1 column 13" in SpiderMonkey); unknown formats give no location.
+ */
+export function locateSyntaxError(error: unknown, text: string): SourceLocation | undefined {
+  const message = error instanceof Error ? error.message : '';
+  const lineStarts = findLineStarts(text);
+
+  let offset: number | undefined;
+  const position = /position (\d+)/.exec(message);
+  const lineColumn = /line (\d+) column (\d+)/.exec(message);
+  if (position) {
+    offset = Number(position[1]);
+  } else if (lineColumn && Number(lineColumn[1]) <= lineStarts.length) {
+    offset = lineStarts[Number(lineColumn[1]) - 1] + Number(lineColumn[2]) - 1;
+  }
+  if (offset === undefined) {
+    return undefined;
+  }
+
+  offset = Math.min(offset, Math.max(0, text.length - 1));
+  const { line, column } = toPosition(lineStarts, offset);
+
+  return {
+    line,
+    column,
+    endLine: line,
+    endColumn: column + 1,
+    start: offset,
+    end: offset + 1,
+    excerpt: formatExcerpt(text, lineStarts, line, column, 1)
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for define_template / use_template expansion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { expandTemplates } from './templates';
+import { DSLParser } from './DSLParser';
+import { StreamingDSLParser } from './StreamingDSLParser';
+import type { DocumentEntry } from './types';
+import catastropheExample from '../examples/catastrophe.json';
+
+const narratedShot = {
+  type: 'define_template',
+  name: 'narrated_shot',
+  params: {
+    id: { type: 'string' },
+    prompt: { type: 'string' },
+    text: { type: 'string' },
+    duration: { type: 'number', default: 5 }
+  },
+  actions: [
+    { type: 'asset_image', id: '{{id}}_image', prompt: '{{prompt}}', size: '1024x768', model: 'flux-schnell' },
+    {
+      type: 'asset_subtitle',
+      id: '{{id}}_narration',
+      text: '{{text}}',
+      voice_tone: 'epic',
+      voice_gender: 'neutral',
+      voice_pace: 'normal',
+      model: 'openai-tts'
+    },
+    {
+      type: 'asset_cutscene',
+      id: '{{id}}',
+      shots: [{ image_id: '{{id}}_image', subtitle_id: '{{id}}_narration', duration: '{{duration}}', animation: 'fade' }]
+    }
+  ]
+};
+
+const use = (args: Record<string, unknown>, template = 'narrated_shot') => ({ type: 'use_template', template, args });
+const play = (cutsceneId: string) => ({ type: 'play_cutscene', cutscene_id: cutsceneId });
+
+describe('expandTemplates', () => {
+  it('replaces uses with the template actions and drops definitions', () => {
+    const { actions, sourceIndices, errors } = expandTemplates([
+      narratedShot,
+      use({ id: 'intro', prompt: 'A planet', text: 'Behold', duration: 7 }),
+      play('intro')
+    ] as DocumentEntry[]);
+
+    expect(errors).toEqual([]);
+    expect(actions.map(action => (action as { id?: string }).id)).toEqual(['intro_image', 'intro_narration', 'intro', undefined]);
+    expect(sourceIndices).toEqual([1, 1, 1, 2]);
+    expect(actions[2]).toMatchObject({ shots: [{ image_id: 'intro_image', duration: 7 }] });
+  });
+
+  it('applies defaults and keeps the type of whole-value placeholders', () => {
+    const { actions } = expandTemplates([narratedShot, use({ id: 'a', prompt: 'p', text: 't' })] as DocumentEntry[]);
+    expect(actions[2]).toMatchObject({ shots: [{ duration: 5 }] });
+  });
+
+  it('expands templates used inside other templates', () => {
+    const twoShots = {
+      type: 'define_template',
+      name: 'two_shots',
+      params: { name: { type: 'string' } },
+      actions: [
+        use({ id: '{{name}}_first', prompt: 'First', text: 'One' }),
+        use({ id: '{{name}}_second', prompt: 'Second', text: 'Two' })
+      ]
+    };
+    const { actions, errors } = expandTemplates([narratedShot, twoShots, use({ name: 'pair' }, 'two_shots')] as DocumentEntry[]);
+
+    expect(errors).toEqual([]);
+    expect(actions).toHaveLength(6);
+    expect(actions[5]).toMatchObject({ id: 'pair_second' });
+  });
+
+  it('reports invalid uses', () => {
+    const messages = (entries: unknown[]) =>
+      expandTemplates(entries as DocumentEntry[]).errors.map(error => error.message);
+
+    expect(messages([narratedShot, use({ id: 'a', prompt: 'p', text: 't' }, 'narated_shot')])).toEqual([
+      "Cannot use template 'narated_shot': no template with this name is defined. Did you mean 'narrated_shot'?"
+    ]);
+    expect(messages([narratedShot, use({ id: 'a', text: 't', promt: 'p' })])).toEqual([
+      "Cannot use template 'narrated_shot': unknown argument 'promt'. Did you mean 'prompt'?",
+      "Cannot use template 'narrated_shot': missing argument 'prompt'"
+    ]);
+    expect(messages([narratedShot, use({ id: 'a', prompt: 'p', text: 't', duration: '5' })])).toEqual([
+      "Cannot use template 'narrated_shot': argument 'duration' must be a number, got string"
+    ]);
+  });
+
+  it('reports invalid definitions', () => {
+    const broken = {
+      type: 'define_template',
+      name: 'broken',
+      params: { count: { type: 'number', default: 'many' } },
+      actions: [{ type: 'reason', ephemeral_reasoning: '{{count}} {{missing}}' }]
+    };
+    const { errors } = expandTemplates([broken, broken] as DocumentEntry[]);
+
+    expect(errors.map(error => error.message)).toEqual([
+      "Invalid template 'broken': default for parameter 'count' must be a number",
+      "Invalid template 'broken': it uses undeclared parameter 'missing'",
+      "Invalid template 'broken': it is defined more than once"
+    ]);
+    expect(errors[0]).toMatchObject({ type: 'invalid_template', actionIndex: 0, path: 'params.count.default' });
+  });
+
+  it('rejects templates that use themselves', () => {
+    const loop = { type: 'define_template', name: 'loop', params: {}, actions: [use({}, 'loop')] };
+    const { errors } = expandTemplates([loop, use({}, 'loop')] as DocumentEntry[]);
+
+    expect(errors[0].message).toBe("Cannot use template 'loop': it uses itself (loop → loop)");
+  });
+});
+
+describe('DSLParser with templates', () => {
+  const parser = new DSLParser();
+
+  it('builds the graph from expanded actions', () => {
+    const result = parser.parseObject({
+      actions: [narratedShot, use({ id: 'intro', prompt: 'A planet', text: 'Behold' }), play('intro')]
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.graph!.assetActions).toEqual(['intro_image', 'intro_narration', 'intro']);
+    expect(result.graph!.nodes.get('intro')!.dependencies).toEqual(new Set(['intro_image', 'intro_narration']));
+  });
+
+  it('parses the bundled catastrophe example', () => {
+    const result = parser.parseObject(catastropheExample);
+    expect(result.success).toBe(true);
+    expect(result.graph!.assetActions).toHaveLength(12);
+  });
+
+  it('reports schema errors in template output at the use', () => {
+    const result = parser.parseObject({
+      actions: [play('intro'), narratedShot, use({ id: 'intro', prompt: 'p', text: 't', duration: -1 })]
+    });
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors![0]).toMatchObject({ type: 'schema', path: 'actions.2' });
+    expect(result.errors![0].message).toMatch(/^Schema validation failed at actions\.2 \(template 'narrated_shot', action 2\.shots\.0\.duration\)/);
+  });
+
+  it('points semantic errors at the use that produced the action', () => {
+    const json = JSON.stringify({
+      actions: [
+        narratedShot,
+        use({ id: 'intro', prompt: 'p', text: 't' }),
+        use({ id: 'intro', prompt: 'q', text: 'u' }),
+        play('intro')
+      ]
+    }, null, 2);
+    const error = parser.parse(json).errors![0];
+
+    expect(error).toMatchObject({ type: 'duplicate_id', actionIndex: 2 });
+    expect(json.slice(error.location!.start, error.location!.end)).toContain('"prompt": "q"');
+  });
+});
+
+describe('StreamingDSLParser with templates', () => {
+  it('accepts template entries and expands them in end()', () => {
+    const emitted: string[] = [];
+    const parser = new StreamingDSLParser({ onAction: ({ action }) => emitted.push(action.type) });
+    parser.write(JSON.stringify({ actions: [narratedShot, use({ id: 'intro', prompt: 'p', text: 't' }), play('intro')] }));
+
+    expect(emitted).toEqual(['play_cutscene']);
+    expect(parser.getErrors()).toEqual([]);
+    expect(parser.end().success).toBe(true);
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Template expansion for the Action DSL
+ *
+ * `define_template` declares a named list of actions with typed parameters;
+ * `use_template` instantiates it with arguments. Both may only appear in the
+ * root actions array. The parser expands them into plain actions before
+ * reference and dependency validation, so the action graph never contains
+ * templates. A string that is exactly "{{name}}" takes the argument's own
+ * type; placeholders inside longer strings are interpolated as text.
+ */
+
+import type { DefineTemplateAction, DocumentEntry, TemplateValue, UseTemplateAction, ValidationError } from './types';
+import { UseTemplateActionSchema } from './schemas';
+import { InvalidTemplateError, InvalidTemplateUseError, findSimilarStrings } from './errors';
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([A-Za-z_]\w*)\s*\}\}$/;
+
+export interface TemplateExpansionResult {
+  /** Root entries with templates replaced by their actions (not yet schema-checked) */
+  actions: unknown[];
+  /** Index of the root entry each expanded action came from */
+  sourceIndices: number[];
+  errors: ValidationError[];
+}
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Replace define_template and use_template entries with the actions they produce
+ */
+export function expandTemplates(entries: DocumentEntry[]): TemplateExpansionResult {
+  const errors: ValidationError[] = [];
+  const templates = collectTemplates(entries, errors);
+  const actions: unknown[] = [];
+  const sourceIndices: number[] = [];
+
+  entries.forEach((entry, index) => {
+    if (entry.type === 'define_template') {
+      return;
+    }
+    const expanded = entry.type === 'use_template'
+      ? instantiate(entry, templates, index, [], errors)
+      : [entry];
+    expanded.forEach(action => {
+      actions.push(action);
+      sourceIndices.push(index);
+    });
+  });
+
+  return { actions, sourceIndices, errors };
+}
+
+/**
+ * Index templates by name, reporting duplicates and inconsistent definitions
+ */
+function collectTemplates(entries: DocumentEntry[], errors: ValidationError[]): Map<string, DefineTemplateAction> {
+  const templates = new Map<string, DefineTemplateAction>();
+
+  entries.forEach((entry, index) => {
+    if (entry.type !== 'define_template') {
+      return;
+    }
+    const fail = (reason: string, path?: string) => {
+      errors.push(new InvalidTemplateError(entry.name, reason, index, path).toValidationError());
+    };
+
+    if (templates.has(entry.name)) {
+      fail('it is defined more than once', 'name');
+      return;
+    }
+    for (const [param, definition] of Object.entries(entry.params)) {
+      if (definition.default !== undefined && typeof definition.default !== definition.type) {
+        fail(`default for parameter '${param}' must be a ${definition.type}`, `params.${param}.default`);
+      }
+    }
+    for (const placeholder of collectPlaceholders(entry.actions)) {
+      if (!hasOwn(entry.params, placeholder)) {
+        fail(`it uses undeclared parameter '${placeholder}'`, 'actions');
+      }
+    }
+    if (entry.actions.some(action => action.type === 'define_template')) {
+      fail('templates cannot be defined inside other templates', 'actions');
+    }
+
+    templates.set(entry.name, entry);
+  });
+
+  return templates;
+}
+
+function collectPlaceholders(value: unknown, found: Set<string> = new Set()): Set<string> {
+  if (typeof value === 'string') {
+    for (const match of value.matchAll(PLACEHOLDER)) {
+      found.add(match[1]);
+    }
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(child => collectPlaceholders(child, found));
+  }
+  return found;
+}
+
+/**
+ * Expand one use_template, including templates used inside the template body
+ *
+ * @param stack - Names of the templates being expanded, to detect recursion
+ */
+function instantiate(
+  use: UseTemplateAction,
+  templates: Map<string, DefineTemplateAction>,
+  index: number,
+  stack: string[],
+  errors: ValidationError[]
+): unknown[] {
+  const fail = (reason: string, path?: string, suggestions?: string[]) => {
+    errors.push(new InvalidTemplateUseError(use.template, reason, index, path, suggestions).toValidationError());
+    return [];
+  };
+
+  const template = templates.get(use.template);
+  if (!template) {
+    return fail('no template with this name is defined', 'template', findSimilarStrings(use.template, Array.from(templates.keys())));
+  }
+  if (stack.includes(use.template)) {
+    return fail(`it uses itself (${[...stack, use.template].join(' → ')})`);
+  }
+
+  const values = bindArguments(template, use.args || {}, fail);
+  if (!values) {
+    return [];
+  }
+
+  return template.actions.flatMap(body => {
+    const action = substitute(body, values);
+    if ((action as { type: string }).type !== 'use_template') {
+      return [action];
+    }
+    const nested = UseTemplateActionSchema.safeParse(action);
+    if (!nested.success) {
+      return fail(`template '${template.name}' contains a malformed use_template`);
+    }
+    return instantiate(nested.data, templates, index, [...stack, use.template], errors);
+  });
+}
+
+/**
+ * Check arguments against the template's parameters and apply defaults
+ *
+ * @returns Parameter values, or null if any argument was invalid
+ */
+function bindArguments(
+  template: DefineTemplateAction,
+  args: Record<string, TemplateValue>,
+  fail: (reason: string, path?: string, suggestions?: string[]) => unknown
+): Map<string, TemplateValue> | null {
+  const params = Object.keys(template.params);
+  const values = new Map<string, TemplateValue>();
+  let valid = true;
+
+  for (const arg of Object.keys(args)) {
+    if (!hasOwn(template.params, arg)) {
+      fail(`unknown argument '${arg}'`, `args.${arg}`, findSimilarStrings(arg, params));
+      valid = false;
+    }
+  }
+
+  for (const [param, definition] of Object.entries(template.params)) {
+    const value = hasOwn(args, param) ? args[param] : definition.default;
+    if (value === undefined) {
+      fail(`missing argument '${param}'`, 'args');
+      valid = false;
+    } else if (typeof value !== definition.type) {
+      fail(`argument '${param}' must be a ${definition.type}, got ${typeof value}`, `args.${param}`);
+      valid = false;
+    } else {
+      values.set(param, value);
+    }
+  }
+
+  return valid ? values : null;
+}
+
+function substitute(value: unknown, values: Map<string, TemplateValue>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PLACEHOLDER.exec(value);
+    if (whole && values.has(whole[1])) {
+      return values.get(whole[1]);
+    }
+    return value.replace(PLACEHOLDER, (match, name: string) => (values.has(name) ? String(values.get(name)) : match));
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, values));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, substitute(child, values)]));
+  }
+  return value;
+}
@@ -3,92 +3,58 @@
  * Based on the Action DSL Specification
  */
 
+import type { z } from 'zod';
+import type {
+  ReasonActionSchema,
+  AssetImageActionSchema,
+  AssetSubtitleActionSchema,
+  CutsceneShotSchema,
+  AssetCutsceneActionSchema,
+  PlayCutsceneActionSchema,
+  ShowModalActionSchema,
+  AddFeatureActionSchema,
+  RemoveFeatureActionSchema,
+  WhenThenActionSchema,
+  PlayerChoiceOptionSchema,
+  AddPlayerChoiceActionSchema,
+  TemplateParamSchema,
+  TemplateValueSchema,
+  DefineTemplateActionSchema,
+  UseTemplateActionSchema,
+  ActionInputSchema
+} from './schemas';
+import type { RepairFix } from './repair';
+
+/**
+ * Action types are inferred from the zod schemas in schemas.ts; recursive
+ * actions are interfaces because z.infer cannot refer to itself.
+ */
+
 // Base action interface
 export interface BaseAction {
   type: string;
 }
 
 // Individual action types
-export interface ReasonAction extends BaseAction {
-  type: 'reason';
-  id?: string;
-  ephemeral_reasoning: string;
-}
-
-export interface AssetImageAction extends BaseAction {
-  type: 'asset_image';
-  id: string;
-  prompt: string;
-  size: '1024x768' | '768x1024' | '1024x1024';
-  model: 'flux-schnell' | 'sdxl';
-}
-
-export interface AssetSubtitleAction extends BaseAction {
-  type: 'asset_subtitle';
-  id: string;
-  text: string;
-  voice_tone: 'epic' | 'mysterious' | 'calm' | 'urgent' | 'triumphant';
-  voice_gender: 'neutral' | 'feminine' | 'masculine';
-  voice_pace: 'slow' | 'normal' | 'fast';
-  model: 'openai-tts' | 'google-tts';
-}
-
-export interface CutsceneShot {
-  image_id: string;
-  subtitle_id: string;
-  duration: number;
-  animation: 'none' | 'slow_zoom' | 'pan_left' | 'pan_right' | 'fade';
-}
-
-export interface AssetCutsceneAction extends BaseAction {
-  type: 'asset_cutscene';
-  id: string;
-  shots: CutsceneShot[];
-}
-
-export interface PlayCutsceneAction extends BaseAction {
-  type: 'play_cutscene';
-  cutscene_id: string;
-}
-
-export interface ShowModalAction extends BaseAction {
-  type: 'show_modal';
-  title: string;
-  content: string;
-  image_id: string | null;
-  subtitle_id: string | null;
-}
-
-export interface AddFeatureAction extends BaseAction {
-  type: 'add_feature';
-  feature_type: string;
-  feature_data: object;
-  target: string;
-}
-
-export interface RemoveFeatureAction extends BaseAction {
-  type: 'remove_feature';
-  feature_type: string;
-  target: string;
-}
-
-export interface WhenThenAction extends BaseAction {
-  type: 'when_then';
-  id?: string;
-  condition: string;
+export type ReasonAction = z.infer<typeof ReasonActionSchema>;
+export type AssetImageAction = z.infer<typeof AssetImageActionSchema>;
+export type AssetSubtitleAction = z.infer<typeof AssetSubtitleActionSchema>;
+export type CutsceneShot = z.infer<typeof CutsceneShotSchema>;
+export type AssetCutsceneAction = z.infer<typeof AssetCutsceneActionSchema>;
+export type PlayCutsceneAction = z.infer<typeof PlayCutsceneActionSchema>;
+export type ShowModalAction = z.infer<typeof ShowModalActionSchema>;
+export type AddFeatureAction = z.infer<typeof AddFeatureActionSchema>;
+export type RemoveFeatureAction = z.infer<typeof RemoveFeatureActionSchema>;
+
+export interface WhenThenAction extends Omit<z.infer<typeof WhenThenActionSchema>, 'action'> {
   action: Action;
 }
 
-export interface PlayerChoiceOption {
-  label: string;
-  description: string;
+export interface PlayerChoiceOption extends Omit<z.infer<typeof PlayerChoiceOptionSchema>, 'reactions'> {
   reactions: Action[];
 }
 
-export interface AddPlayerChoiceAction extends BaseAction {
-  type: 'add_player_choice';
-  id: string;
-  prompt: string;
+export interface AddPlayerChoiceAction extends Omit<z.infer<typeof AddPlayerChoiceActionSchema>, 'options'> {
   options: PlayerChoiceOption[];
 }
 
@@ -105,12 +71,21 @@ export type Action =
   | WhenThenAction
   | AddPlayerChoiceAction;
 
+// Template macros (root actions array only; expanded before validation)
+export type TemplateValue = z.infer<typeof TemplateValueSchema>;
+export type TemplateParam = z.infer<typeof TemplateParamSchema>;
+export type DefineTemplateAction = z.infer<typeof DefineTemplateActionSchema>;
+export type UseTemplateAction = z.infer<typeof UseTemplateActionSchema>;
+
+/** Entry of a document's root actions array */
+export type DocumentEntry = Action | DefineTemplateAction | UseTemplateAction;
+
 // Parser-specific interfaces
 export interface ActionNode {
   action: Action;
   dependencies: Set<string>;
   dependents: Set<string>;
-  status: 'pending' | 'ready' | 'executing' | 'completed' | 'failed';
+  status: 'pending' | 'ready' | 'executing' | 'completed' | 'failed' | 'skipped';
 }
 
 export interface ActionGraph {
@@ -120,25 +95,122 @@ export interface ActionGraph {
   gameActions: string[];    // Actions that modify game state
 }
 
+/** Where an error points in the raw JSON text (lines and columns are 1-based) */
+export interface SourceLocation {
+  line: number;
+  column: number;
+  endLine: number;
+  /** Column just past the last character */
+  endColumn: number;
+  /** Character offsets into the text, end exclusive */
+  start: number;
+  end: number;
+  /** The source line with the span underlined */
+  excerpt: string;
+}
+
+/** Errors reject the document; warnings are advisory and never fail parsing */
+export type ValidationSeverity = 'error' | 'warning';
+
 export interface ValidationError {
-  type: 'schema' | 'duplicate_id' | 'unknown_reference' | 'circular_dependency' | 'invalid_condition' | 'invalid_target';
+  type:
+    | 'schema'
+    | 'duplicate_id'
+    | 'unknown_reference'
+    | 'circular_dependency'
+    | 'invalid_condition'
+    | 'invalid_target'
+    | 'invalid_feature_data'
+    | 'unsupported_version'
+    | 'migration'
+    | 'unused_asset'
+    | 'empty_reason'
+    | 'repetitive_cutscene'
+    | 'invalid_template'
+    | 'invalid_template_use';
+  severity: ValidationSeverity;
   message: string;
   actionIndex?: number;
   actionId?: string;
   path?: string;
+  /** Position in the source text, when parsed from a string */
+  location?: SourceLocation;
 }
 
 export interface ParserResult {
   success: boolean;
   graph?: ActionGraph;
   errors?: ValidationError[];
+  /** Non-fatal notices: migration rewrites and lint findings (only present when there are any) */
+  warnings?: ValidationError[];
+  /** Fixes applied by auto-repair (only present when something was repaired) */
+  repairs?: RepairFix[];
+  /** The document after repairs, to store or feed back to the LLM */
+  repairedDocument?: unknown;
 }
 
 // Input format for the parser
-export interface ActionInput {
-  actions: Action[];
+export type ActionInput = z.infer<typeof ActionInputSchema>;
+
+// Condition expression AST (produced by parseCondition in conditions.ts)
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in';
+export type LogicalOperator = '&&' | '||';
+export type ConditionLiteralValue = string | number | boolean | null;
+
+interface ConditionNodeBase {
+  start: number;  // Offset of the first character in the source expression
+  end: number;    // Offset one past the last character
+}
+
+export interface LiteralConditionNode extends ConditionNodeBase {
+  kind: 'literal';
+  value: ConditionLiteralValue;
+}
+
+export interface PathConditionNode extends ConditionNodeBase {
+  kind: 'path';
+  path: string;
+  segments: string[];
 }
 
+export interface ListConditionNode extends ConditionNodeBase {
+  kind: 'list';
+  items: ConditionExpression[];
+}
+
+export interface NotConditionNode extends ConditionNodeBase {
+  kind: 'not';
+  operand: ConditionExpression;
+}
+
+export interface LogicalConditionNode extends ConditionNodeBase {
+  kind: 'logical';
+  operator: LogicalOperator;
+  left: ConditionExpression;
+  right: ConditionExpression;
+}
+
+export interface ComparisonConditionNode extends ConditionNodeBase {
+  kind: 'comparison';
+  operator: ComparisonOperator;
+  left: ConditionExpression;
+  right: ConditionExpression;
+}
+
+export interface ExistsConditionNode extends ConditionNodeBase {
+  kind: 'exists';
+  argument: PathConditionNode;
+}
+
+export type ConditionExpression =
+  | LiteralConditionNode
+  | PathConditionNode
+  | ListConditionNode
+  | NotConditionNode
+  | LogicalConditionNode
+  | ComparisonConditionNode
+  | ExistsConditionNode;
+
 // Helper types for categorization
 export type AssetAction = AssetImageAction | AssetSubtitleAction | AssetCutsceneAction;
 export type GameAction = PlayCutsceneAction | ShowModalAction | AddFeatureAction | RemoveFeatureAction | WhenThenAction | AddPlayerChoiceAction;
\ No newline at end of file
@@ -16,9 +16,14 @@ import {
   CircularDependencyError,
   InvalidConditionError,
   InvalidTargetError,
+  ConditionSyntaxError,
+  InvalidFeatureDataError,
   findSimilarStrings
 } from './errors';
-import { extractActionIds, extractReferencedIds, hasId } from './schemas';
+import { extractActionIds, extractDeferredIds, extractGraphIds, extractReferencedIds, hasId } from './schemas';
+import { parseCondition, collectConditionPaths } from './conditions';
+import type { FeatureSchemaRegistry } from './featureSchemas';
+import { resolveModelPath, type GameStateModel } from './gameStateModel';
 
 /**
  * Validate that all IDs are unique across the action set
@@ -45,14 +50,19 @@ export function validateUniqueIds(actions: Action[]): ValidationError[] {
 
 /**
  * Validate that all referenced IDs exist
+ *
+ * IDs declared inside a player choice's reactions only exist once that
+ * option is picked, so only the reactions of the same option may use them.
+ *
+ * @param knownIds - IDs defined outside the document that it may reference
  */
-export function validateReferences(actions: Action[]): ValidationError[] {
+export function validateReferences(actions: Action[], knownIds: Iterable<string> = []): ValidationError[] {
   const errors: ValidationError[] = [];
   
   // Build registry of all available IDs
-  const availableIds = new Set<string>();
+  const availableIds = new Set<string>(knownIds);
   actions.forEach(action => {
-    const ids = extractActionIds(toRecord(action));
+    const ids = extractGraphIds(toRecord(action));
     ids.forEach(id => availableIds.add(id));
   });
   
@@ -61,13 +71,21 @@ export function validateReferences(actions: Action[]): ValidationError[] {
   // Check all references
   actions.forEach((action, index) => {
     const actionRecord = toRecord(action);
-    const referencedIds = extractReferencedIds(actionRecord);
     const actionId = hasId(actionRecord) ? actionRecord.id : undefined;
+    const scopes = action.type === 'add_player_choice'
+      ? action.options.map(option => ({
+          referencedIds: option.reactions.flatMap(reaction => extractReferencedIds(toRecord(reaction))),
+          localIds: new Set(option.reactions.flatMap(reaction => extractActionIds(toRecord(reaction))))
+        }))
+      : [{ referencedIds: extractReferencedIds(actionRecord), localIds: new Set(extractDeferredIds(actionRecord)) }];
     
-    for (const refId of referencedIds) {
-      if (!availableIds.has(refId)) {
-        const suggestions = findSimilarStrings(refId, availableIdsList);
-        errors.push(new UnknownReferenceError(refId, index, actionId, suggestions).toValidationError());
+    for (const { referencedIds, localIds } of scopes) {
+      for (const refId of referencedIds) {
+        if (!availableIds.has(refId) && !localIds.has(refId)) {
+          const suggestions = findSimilarStrings(refId, availableIdsList);
+          const path = findStringPath(actionRecord, refId);
+          errors.push(new UnknownReferenceError(refId, index, actionId, suggestions, path).toValidationError());
+        }
       }
     }
   });
@@ -75,6 +93,26 @@ export function validateReferences(actions: Action[]): ValidationError[] {
   return errors;
 }
 
+/**
+ * Dotted path (relative to `value`) of the first string equal to `target`,
+ * skipping `id` fields so references are not confused with declarations
+ */
+function findStringPath(value: unknown, target: string): string | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (child === target && key !== 'id') {
+      return key;
+    }
+    const nested = findStringPath(child, target);
+    if (nested !== undefined) {
+      return `${key}.${nested}`;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Build dependency graph and detect circular dependencies
  */
@@ -88,9 +126,10 @@ export function validateDependencies(actions: Action[]): {
   const actionIdToAction = new Map<string, Action>();
   
   // Build action registry and initialize dependency map
+  // (reaction IDs belong to the sub-graph that runs when their option is picked)
   actions.forEach(action => {
     const actionRecord = toRecord(action);
-    const ids = extractActionIds(actionRecord);
+    const ids = extractGraphIds(actionRecord);
     ids.forEach(id => {
       actionIdToAction.set(id, action);
       dependencies.set(id, new Set());
@@ -100,8 +139,9 @@ export function validateDependencies(actions: Action[]): {
   // Build dependency relationships
   actions.forEach(action => {
     const actionRecord = toRecord(action);
-    const actionIds = extractActionIds(actionRecord);
-    const referencedIds = extractReferencedIds(actionRecord);
+    const actionIds = extractGraphIds(actionRecord);
+    // References into reactions or to known outside IDs are not graph edges
+    const referencedIds = extractReferencedIds(actionRecord).filter(refId => dependencies.has(refId));
     
     // Each action ID depends on all its references
     actionIds.forEach(id => {
@@ -122,7 +162,9 @@ export function validateDependencies(actions: Action[]): {
       // Found cycle - extract the cycle path
       const cycleStart = path.indexOf(nodeId);
       const cycle = path.slice(cycleStart);
-      errors.push(new CircularDependencyError(cycle).toValidationError());
+      const cycleAction = actionIdToAction.get(cycle[0]);
+      const actionIndex = cycleAction ? actions.indexOf(cycleAction) : undefined;
+      errors.push(new CircularDependencyError(cycle, actionIndex).toValidationError());
       return true;
     }
     
@@ -213,15 +255,18 @@ function topologicalSort(dependencies: Map<string, Set<string>>): string[] {
 }
 
 /**
- * Validate condition paths in when_then actions
+ * Validate condition expressions in when_then actions
  */
 export function validateConditions(actions: Action[]): ValidationError[] {
   const errors: ValidationError[] = [];
   
   function validateConditionInAction(action: Action, index: number, actionId?: string) {
     if (action.type === 'when_then') {
-      if (!isValidConditionPath(action.condition)) {
-        errors.push(new InvalidConditionError(action.condition, index, actionId).toValidationError());
+      try {
+        parseCondition(action.condition);
+      } catch (error) {
+        const syntaxError = error instanceof ConditionSyntaxError ? error : undefined;
+        errors.push(new InvalidConditionError(action.condition, index, actionId, syntaxError).toValidationError());
       }
       
       // Recursively validate nested actions
@@ -265,28 +310,113 @@ export function validateTargets(actions: Action[]): ValidationError[] {
 }
 
 /**
- * Check if a condition path is valid
- * Examples: "species.primary.features.tool_use.level", "game.planet_just_created"
+ * Validate add_feature payloads against the schema registered for their feature_type
  */
-function isValidConditionPath(condition: string): boolean {
-  // Basic validation - should be dot-separated path
-  if (!condition || typeof condition !== 'string') {
-    return false;
-  }
-  
-  // Must not start or end with dot
-  if (condition.startsWith('.') || condition.endsWith('.')) {
-    return false;
+export function validateFeatureData(actions: Action[], featureSchemas: FeatureSchemaRegistry): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  function validateFeatureInAction(action: Action, index: number, actionId?: string) {
+    if (action.type === 'add_feature') {
+      const schema = featureSchemas.get(action.feature_type);
+      if (!schema) {
+        return;
+      }
+
+      const result = schema.safeParse(action.feature_data);
+      if (!result.success) {
+        result.error.issues.forEach(issue => {
+          errors.push(new InvalidFeatureDataError(
+            action.feature_type,
+            issue.path.map(String).join('.'),
+            issue.message,
+            index,
+            actionId
+          ).toValidationError());
+        });
+      }
+    } else if (action.type === 'when_then') {
+      validateFeatureInAction(action.action, index, actionId);
+    } else if (action.type === 'add_player_choice') {
+      action.options.forEach(option => {
+        option.reactions.forEach(reaction => {
+          validateFeatureInAction(reaction, index, action.id);
+        });
+      });
+    }
   }
-  
-  // Must not have consecutive dots
-  if (condition.includes('..')) {
-    return false;
+
+  actions.forEach((action, index) => {
+    const actionRecord = toRecord(action);
+    const actionId = hasId(actionRecord) ? actionRecord.id : undefined;
+    validateFeatureInAction(action, index, actionId);
+  });
+
+  return errors;
+}
+
+/**
+ * Validate feature targets and condition paths against a declared game-state model
+ *
+ * Targets must resolve to an entity; condition paths may resolve to any
+ * location. Conditions that fail to parse are left to validateConditions.
+ */
+export function validateStatePaths(actions: Action[], model: GameStateModel): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  function validatePathsInAction(action: Action, index: number, actionId?: string) {
+    if (action.type === 'add_feature' || action.type === 'remove_feature') {
+      if (!isValidTargetPath(action.target)) {
+        return; // Already reported by validateTargets
+      }
+      const resolution = resolveModelPath(model, action.target.split('.'));
+      if (!resolution.valid) {
+        errors.push(new InvalidTargetError(action.target, index, actionId, {
+          message: resolution.reason,
+          suggestions: resolution.suggestions
+        }).toValidationError());
+      } else if (resolution.node.kind !== 'entity') {
+        errors.push(new InvalidTargetError(action.target, index, actionId, {
+          message: `'${action.target}' is a ${resolution.node.kind}, features can only target entities`
+        }).toValidationError());
+      }
+    } else if (action.type === 'when_then') {
+      let paths;
+      try {
+        paths = collectConditionPaths(parseCondition(action.condition));
+      } catch {
+        paths = null; // Syntax errors are reported by validateConditions
+      }
+
+      for (const pathNode of paths || []) {
+        const resolution = resolveModelPath(model, pathNode.segments);
+        if (!resolution.valid) {
+          const precedingLength = pathNode.segments.slice(0, resolution.segmentIndex).join('.').length;
+          const position = pathNode.start + precedingLength + (resolution.segmentIndex > 0 ? 1 : 0);
+          errors.push(new InvalidConditionError(action.condition, index, actionId, {
+            message: `${resolution.reason} at column ${position + 1}`,
+            position,
+            suggestions: resolution.suggestions
+          }).toValidationError());
+        }
+      }
+
+      validatePathsInAction(action.action, index, actionId);
+    } else if (action.type === 'add_player_choice') {
+      action.options.forEach(option => {
+        option.reactions.forEach(reaction => {
+          validatePathsInAction(reaction, index, action.id);
+        });
+      });
+    }
   }
-  
-  // Must have valid identifier characters
-  const pathRegex = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*$/;
-  return pathRegex.test(condition);
+
+  actions.forEach((action, index) => {
+    const actionRecord = toRecord(action);
+    const actionId = hasId(actionRecord) ? actionRecord.id : undefined;
+    validatePathsInAction(action, index, actionId);
+  });
+
+  return errors;
 }
 
 /**
@@ -294,8 +424,13 @@ function isValidConditionPath(condition: string): boolean {
  * Examples: "species.primary", "planet.region.north"
  */
 function isValidTargetPath(target: string): boolean {
-  // Same validation rules as condition paths
-  return isValidConditionPath(target);
+  if (!target || typeof target !== 'string') {
+    return false;
+  }
+
+  // Dot-separated identifiers: no leading, trailing or consecutive dots
+  const pathRegex = /^[a-zA-Z_][a-zA-Z0-9_]*(\.[a-zA-Z_][a-zA-Z0-9_]*)*$/;
+  return pathRegex.test(target);
 }
 
 /**
@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { GoogleCloudTTSProvider } from './GoogleCloudTTSProvider.js';
+import type { GoogleCloudTTSProviderOptions } from './GoogleCloudTTSProvider.js';
+import { ProviderError } from './http.js';
+import { probeAudio } from '../executors/audioDuration.js';
+import { useReplayServer } from '../../../test-support/replayServer.js';
+
+const request = { text: 'Signal detected.', voice: 'en-US-Neural2-A', speed: 0.8, pitch: -0.1, model: 'google-tts' };
+
+describe('GoogleCloudTTSProvider', () => {
+  const replay = useReplayServer((baseUrl, options: GoogleCloudTTSProviderOptions = {}) =>
+    new GoogleCloudTTSProvider({ baseUrl: `${baseUrl}/v1`, ...options })
+  );
+
+  it('should decode MP3 audio from the response', async () => {
+    const provider = await replay.start('google-tts-mp3');
+
+    const audio = await provider.generate(request, { apiKey: 'goog-key' });
+
+    expect(audio.format).toBe('mp3');
+    expect(probeAudio(audio.data)).toMatchObject({ duration: 0.993 });
+    expect(audio.cost).toBeCloseTo(request.text.length * 4 / 1_000_000);
+  });
+
+  it('should send the voice, rate and pitch in semitones', async () => {
+    const provider = await replay.start('google-tts-mp3');
+
+    await provider.generate(request, { apiKey: 'goog-key' });
+
+    const [received] = replay.server.requests;
+    expect(received.path).toBe('/v1/text:synthesize');
+    expect(received.headers['x-goog-api-key']).toBe('goog-key');
+    expect(received.body).toEqual({
+      input: { text: 'Signal detected.' },
+      voice: { languageCode: 'en-US', name: 'en-US-Neural2-A' },
+      audioConfig: { audioEncoding: 'MP3', speakingRate: 0.8, pitch: -2 }
+    });
+  });
+
+  it('should request LINEAR16 and return WAV audio', async () => {
+    const provider = await replay.start('google-tts-linear16', { format: 'wav' });
+
+    const audio = await provider.generate(request, { apiKey: 'goog-key' });
+
+    expect(replay.server.requests[0].body).toMatchObject({ audioConfig: { audioEncoding: 'LINEAR16' } });
+    expect(audio.format).toBe('wav');
+    expect(probeAudio(audio.data)).toEqual({ format: 'wav', duration: 0.1, sampleRate: 8000, channels: 1 });
+  });
+
+  it('should report a rejected voice as non-retryable', async () => {
+    const provider = await replay.start('google-tts-invalid-voice');
+
+    const error = await provider.generate({ ...request, voice: 'en-US-Neural2-Z' }, { apiKey: 'goog-key' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(400);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain("Voice 'en-US-Neural2-Z' does not exist");
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * GoogleCloudTTSProvider - Narration through Google Cloud Text-to-Speech
+ *
+ * `POST /text:synthesize` returns the audio base64-encoded in JSON. Google
+ * takes pitch in semitones (-20 to 20), so the request's relative pitch is
+ * scaled to that range. LINEAR16 output arrives as a WAV file.
+ */
+
+import type { CostEstimate } from '../executors/types.js';
+import type { GeneratedAudio, ProviderCallOptions, TTSProvider, TTSRequest } from './types.js';
+import { ProviderError, decodeBase64, fetchJSON } from './http.js';
+
+/** Google voice for each `${voice_gender}-${voice_tone}` */
+export const GOOGLE_TTS_VOICES: Readonly<Record<string, string>> = {
+  'neutral-epic': 'en-US-Journey-F',
+  'neutral-calm': 'en-US-Neural2-C',
+  'feminine-mysterious': 'en-US-Neural2-F',
+  'feminine-calm': 'en-US-Neural2-A',
+  'feminine-epic': 'en-US-Neural2-F',
+  'feminine-urgent': 'en-US-Neural2-G',
+  'masculine-urgent': 'en-US-Neural2-D',
+  'masculine-calm': 'en-US-Neural2-J',
+  'masculine-epic': 'en-US-Neural2-I',
+  'masculine-mysterious': 'en-US-Neural2-D'
+};
+
+const MAX_PITCH_SEMITONES = 20;
+
+export interface GoogleCloudTTSProviderOptions {
+  /** Default: https://texttospeech.googleapis.com/v1 */
+  baseUrl?: string;
+  /** Default: en-US */
+  languageCode?: string;
+  /** Default: mp3 */
+  format?: 'mp3' | 'wav';
+  /** USD per million characters (default: 4) */
+  pricePerMillionChars?: number;
+}
+
+interface SynthesizeResponse {
+  audioContent?: string;
+}
+
+export class GoogleCloudTTSProvider implements TTSProvider {
+  readonly name = 'Google Cloud TTS';
+  readonly models = ['google-tts'];
+  readonly apiKeyName = 'googleCloudApiKey';
+  readonly voices = GOOGLE_TTS_VOICES;
+
+  private baseUrl: string;
+  private languageCode: string;
+  private format: 'mp3' | 'wav';
+  private pricePerMillionChars: number;
+
+  constructor(options: GoogleCloudTTSProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || 'https://texttospeech.googleapis.com/v1';
+    this.languageCode = options.languageCode || 'en-US';
+    this.format = options.format || 'mp3';
+    this.pricePerMillionChars = options.pricePerMillionChars ?? 4;
+  }
+
+  async generate(request: TTSRequest, options: ProviderCallOptions): Promise<GeneratedAudio> {
+    const response = await fetchJSON<SynthesizeResponse>(
+      `${this.baseUrl}/text:synthesize`,
+      {
+        method: 'POST',
+        headers: { 'X-Goog-Api-Key': options.apiKey },
+        body: {
+          input: { text: request.text },
+          voice: { languageCode: this.languageCode, name: request.voice },
+          audioConfig: {
+            audioEncoding: this.format === 'wav' ? 'LINEAR16' : 'MP3',
+            speakingRate: request.speed,
+            pitch: request.pitch * MAX_PITCH_SEMITONES
+          }
+        },
+        signal: options.signal
+      },
+      this.name
+    );
+
+    if (!response.audioContent) {
+      throw new ProviderError(`${this.name} returned no audio`, null, false);
+    }
+    return { data: decodeBase64(response.audioContent), format: this.format, cost: this.price(request.text) };
+  }
+
+  estimate(request: TTSRequest): CostEstimate {
+    const cost = this.price(request.text);
+    return { min: cost, max: cost, currency: 'USD' };
+  }
+
+  private price(text: string): number {
+    return text.length * (this.pricePerMillionChars / 1_000_000);
+  }
+}
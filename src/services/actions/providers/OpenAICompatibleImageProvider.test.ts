@@ -0,0 +1,63 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { OpenAICompatibleImageProvider } from './OpenAICompatibleImageProvider.js';
+import { ProviderError } from './http.js';
+import { useReplayServer } from '../../../test-support/replayServer.js';
+
+const request = { prompt: 'A gas giant with rings', width: 1024, height: 1024, model: 'flux-schnell' };
+
+describe('OpenAICompatibleImageProvider', () => {
+  const replay = useReplayServer(baseUrl => new OpenAICompatibleImageProvider({
+    models: ['flux-schnell'],
+    baseUrl: `${baseUrl}/v1`,
+    remoteModel: 'flux.1-schnell',
+    apiKeyName: 'localImagesKey',
+    pricePerImage: 0
+  }));
+
+  it('should download an image returned as a URL', async () => {
+    const provider = await replay.start('openai-compatible-url');
+
+    const image = await provider.generate(request, { apiKey: 'local-key' });
+
+    expect(image.format).toBe('png');
+    expect(image.cost).toBe(0);
+    expect(replay.server.remaining()).toBe(0);
+  });
+
+  it('should send the remote model and size in OpenAI format', async () => {
+    const provider = await replay.start('openai-compatible-url');
+
+    await provider.generate(request, { apiKey: 'local-key' });
+
+    const [received] = replay.server.requests;
+    expect(received.headers.authorization).toBe('Bearer local-key');
+    expect(received.body).toEqual({
+      model: 'flux.1-schnell',
+      prompt: 'A gas giant with rings',
+      size: '1024x1024',
+      n: 1,
+      response_format: 'b64_json'
+    });
+  });
+
+  it('should mark server errors as retryable', async () => {
+    const provider = await replay.start('openai-compatible-unavailable');
+
+    const error = await provider.generate(request, { apiKey: 'local-key' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(503);
+    expect(error.retryable).toBe(true);
+    expect(error.message).toContain('The server is overloaded');
+  });
+
+  it('should use the configured models, key and sizes', () => {
+    const provider = new OpenAICompatibleImageProvider({ models: ['sdxl'], supportedSizes: ['512x512'] });
+
+    expect(provider.models).toEqual(['sdxl']);
+    expect(provider.apiKeyName).toBe('openaiApiKey');
+    expect(provider.supportedSizes).toEqual(['512x512']);
+    expect(provider.estimate()).toEqual({ min: 0.04, max: 0.04, currency: 'USD' });
+  });
+});
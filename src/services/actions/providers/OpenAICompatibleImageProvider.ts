@@ -0,0 +1,76 @@
+/**
+ * OpenAICompatibleImageProvider - Any service that speaks the OpenAI images API
+ *
+ * OpenAI itself and many self-hosted or third-party servers accept
+ * `POST /images/generations` with `{ model, prompt, size }`. The adapter is
+ * configured with the endpoint, the remote model name and which action
+ * models it should serve, so a document's `flux-schnell` images can for
+ * example be sent to a local server instead of Together AI.
+ */
+
+import type { CostEstimate } from '../executors/types.js';
+import type { GeneratedImage, ImageProvider, ImageRequest, ProviderCallOptions } from './types.js';
+import { fetchJSON, readGeneratedImage } from './http.js';
+import type { ImageGenerationsResponse } from './http.js';
+
+export interface OpenAICompatibleImageProviderOptions {
+  /** Action models to serve with this endpoint */
+  models: readonly string[];
+  /** Default: https://api.openai.com/v1 */
+  baseUrl?: string;
+  /** Model name sent to the service (default: dall-e-3) */
+  remoteModel?: string;
+  /** Key of ExecutionContext.apiKeys to authenticate with (default: openaiApiKey) */
+  apiKeyName?: string;
+  /** Default: ['1024x1024'] */
+  supportedSizes?: readonly string[];
+  /** USD per image (default: 0.04) */
+  pricePerImage?: number;
+  /** Default: OpenAI-compatible endpoint */
+  name?: string;
+}
+
+export class OpenAICompatibleImageProvider implements ImageProvider {
+  readonly name: string;
+  readonly models: readonly string[];
+  readonly apiKeyName: string;
+  readonly supportedSizes: readonly string[];
+
+  private baseUrl: string;
+  private remoteModel: string;
+  private pricePerImage: number;
+
+  constructor(options: OpenAICompatibleImageProviderOptions) {
+    this.name = options.name || 'OpenAI-compatible endpoint';
+    this.models = options.models;
+    this.apiKeyName = options.apiKeyName || 'openaiApiKey';
+    this.supportedSizes = options.supportedSizes || ['1024x1024'];
+    this.baseUrl = options.baseUrl || 'https://api.openai.com/v1';
+    this.remoteModel = options.remoteModel || 'dall-e-3';
+    this.pricePerImage = options.pricePerImage ?? 0.04;
+  }
+
+  async generate(request: ImageRequest, options: ProviderCallOptions): Promise<GeneratedImage> {
+    const response = await fetchJSON<ImageGenerationsResponse>(
+      `${this.baseUrl}/images/generations`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${options.apiKey}` },
+        body: {
+          model: this.remoteModel,
+          prompt: request.prompt,
+          size: `${request.width}x${request.height}`,
+          n: 1,
+          response_format: 'b64_json'
+        },
+        signal: options.signal
+      },
+      this.name
+    );
+    return readGeneratedImage(response, this.pricePerImage, this.name, options.signal);
+  }
+
+  estimate(): CostEstimate {
+    return { min: this.pricePerImage, max: this.pricePerImage, currency: 'USD' };
+  }
+}
@@ -0,0 +1,53 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { OpenAITTSProvider } from './OpenAITTSProvider.js';
+import { RateLimitError } from '../executors/types.js';
+import { probeAudio } from '../executors/audioDuration.js';
+import { useReplayServer } from '../../../test-support/replayServer.js';
+
+const request = { text: 'The colony ship descends.', voice: 'onyx', speed: 1.2, pitch: 0.1, model: 'openai-tts' };
+
+describe('OpenAITTSProvider', () => {
+  const replay = useReplayServer(baseUrl => new OpenAITTSProvider({ baseUrl: `${baseUrl}/v1` }));
+
+  it('should return the audio file and its cost', async () => {
+    const provider = await replay.start('openai-tts-speech');
+
+    const audio = await provider.generate(request, { apiKey: 'sk-test' });
+
+    expect(audio.format).toBe('mp3');
+    expect(probeAudio(audio.data)).toMatchObject({ format: 'mp3', duration: 0.993, sampleRate: 22050 });
+    expect(audio.cost).toBeCloseTo(request.text.length * 15 / 1_000_000);
+  });
+
+  it('should send the text, voice and speed', async () => {
+    const provider = await replay.start('openai-tts-speech');
+
+    await provider.generate(request, { apiKey: 'sk-test' });
+
+    const [received] = replay.server.requests;
+    expect(received.headers.authorization).toBe('Bearer sk-test');
+    expect(received.body).toEqual({
+      model: 'tts-1',
+      input: 'The colony ship descends.',
+      voice: 'onyx',
+      speed: 1.2,
+      response_format: 'mp3'
+    });
+  });
+
+  it('should turn HTTP 429 into a RateLimitError with the Retry-After delay', async () => {
+    const provider = await replay.start('openai-tts-rate-limited');
+
+    const error = await provider.generate(request, { apiKey: 'sk-test' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(20000);
+  });
+
+  it('should estimate by character count', () => {
+    const provider = new OpenAITTSProvider({ pricePerMillionChars: 30 });
+
+    expect(provider.estimate({ ...request, text: 'a'.repeat(1000) }).max).toBeCloseTo(0.03);
+  });
+});
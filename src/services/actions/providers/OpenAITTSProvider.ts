@@ -0,0 +1,83 @@
+/**
+ * OpenAITTSProvider - Narration through OpenAI's speech endpoint
+ *
+ * `POST /audio/speech` returns the audio file itself rather than JSON.
+ * OpenAI voices have no pitch control, so the request's pitch is ignored.
+ */
+
+import type { CostEstimate } from '../executors/types.js';
+import type { GeneratedAudio, ProviderCallOptions, TTSProvider, TTSRequest } from './types.js';
+import { fetchBytes } from './http.js';
+
+/** OpenAI voice for each `${voice_gender}-${voice_tone}` */
+export const OPENAI_TTS_VOICES: Readonly<Record<string, string>> = {
+  'neutral-epic': 'onyx',
+  'neutral-calm': 'nova',
+  'feminine-mysterious': 'shimmer',
+  'feminine-calm': 'nova',
+  'feminine-epic': 'shimmer',
+  'feminine-urgent': 'shimmer',
+  'masculine-urgent': 'echo',
+  'masculine-calm': 'onyx',
+  'masculine-epic': 'onyx',
+  'masculine-mysterious': 'echo'
+};
+
+export interface OpenAITTSProviderOptions {
+  /** Default: https://api.openai.com/v1 */
+  baseUrl?: string;
+  /** OpenAI model name (default: tts-1) */
+  model?: string;
+  /** Default: mp3 */
+  format?: 'mp3' | 'wav';
+  /** USD per million characters (default: 15) */
+  pricePerMillionChars?: number;
+}
+
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = 'OpenAI TTS';
+  readonly models = ['openai-tts'];
+  readonly apiKeyName = 'openaiApiKey';
+  readonly voices = OPENAI_TTS_VOICES;
+
+  private baseUrl: string;
+  private model: string;
+  private format: 'mp3' | 'wav';
+  private pricePerMillionChars: number;
+
+  constructor(options: OpenAITTSProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || 'https://api.openai.com/v1';
+    this.model = options.model || 'tts-1';
+    this.format = options.format || 'mp3';
+    this.pricePerMillionChars = options.pricePerMillionChars ?? 15;
+  }
+
+  async generate(request: TTSRequest, options: ProviderCallOptions): Promise<GeneratedAudio> {
+    const data = await fetchBytes(
+      `${this.baseUrl}/audio/speech`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${options.apiKey}` },
+        body: {
+          model: this.model,
+          input: request.text,
+          voice: request.voice,
+          speed: request.speed,
+          response_format: this.format
+        },
+        signal: options.signal
+      },
+      this.name
+    );
+    return { data, format: this.format, cost: this.price(request.text) };
+  }
+
+  estimate(request: TTSRequest): CostEstimate {
+    const cost = this.price(request.text);
+    return { min: cost, max: cost, currency: 'USD' };
+  }
+
+  private price(text: string): number {
+    return text.length * (this.pricePerMillionChars / 1_000_000);
+  }
+}
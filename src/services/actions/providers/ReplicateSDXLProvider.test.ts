@@ -0,0 +1,76 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { ReplicateSDXLProvider } from './ReplicateSDXLProvider.js';
+import { ProviderError } from './http.js';
+import { useReplayServer } from '../../../test-support/replayServer.js';
+
+const request = { prompt: 'An ice moon with geysers', width: 1024, height: 1024, model: 'sdxl' };
+
+describe('ReplicateSDXLProvider', () => {
+  const replay = useReplayServer((baseUrl, timeout?: number, pollInterval?: number) =>
+    new ReplicateSDXLProvider({ baseUrl: `${baseUrl}/v1`, pollInterval: pollInterval ?? 1, timeout })
+  );
+
+  it('should poll the prediction and download its output', async () => {
+    const provider = await replay.start('replicate-sdxl-polling');
+
+    const image = await provider.generate(request, { apiKey: 'r8_key' });
+
+    expect(image.format).toBe('png');
+    expect(image.data.length).toBeGreaterThan(0);
+    expect(image.cost).toBe(0.009);
+    expect(replay.server.requests.map(r => `${r.method} ${r.path}`)).toEqual([
+      'POST /v1/predictions',
+      'GET /v1/predictions/q7x3mzd1a5rj40cjv2vbs8n4ye',
+      'GET /v1/predictions/q7x3mzd1a5rj40cjv2vbs8n4ye',
+      'GET /delivery/q7x3mzd1a5rj40cjv2vbs8n4ye/out-0.png'
+    ]);
+  });
+
+  it('should create the prediction with the pinned version and ask to wait', async () => {
+    const provider = await replay.start('replicate-sdxl-polling');
+
+    await provider.generate(request, { apiKey: 'r8_key' });
+
+    const [create, poll] = replay.server.requests;
+    expect(create.headers.authorization).toBe('Bearer r8_key');
+    expect(create.headers.prefer).toBe('wait');
+    expect(create.body).toMatchObject({
+      version: expect.any(String),
+      input: { prompt: 'An ice moon with geysers', width: 1024, height: 1024, num_outputs: 1 }
+    });
+    expect(poll.headers.authorization).toBe('Bearer r8_key');
+  });
+
+  it('should report a failed prediction as non-retryable', async () => {
+    const provider = await replay.start('replicate-sdxl-failed');
+
+    const error = await provider.generate(request, { apiKey: 'r8_key' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('NSFW content detected');
+  });
+
+  it('should give up, without a retry, on a prediction that does not finish in time', async () => {
+    const provider = await replay.start('replicate-sdxl-polling', 0);
+
+    const error = await provider.generate(request, { apiKey: 'r8_key' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('did not finish within 0ms');
+  });
+
+  it('should stop polling when aborted', async () => {
+    const provider = await replay.start('replicate-sdxl-polling', undefined, 10_000);
+    const controller = new AbortController();
+
+    const pending = provider.generate(request, { apiKey: 'r8_key', signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(replay.server.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * ReplicateSDXLProvider - Stable Diffusion XL images through Replicate
+ *
+ * Replicate runs models as predictions. The adapter creates one with
+ * `Prefer: wait`, which usually returns the finished prediction directly;
+ * otherwise it polls the prediction until it succeeds, fails or times out,
+ * then downloads the output image.
+ */
+
+import type { CostEstimate } from '../executors/types.js';
+import { sleep } from '../executors/abort.js';
+import type { GeneratedImage, ImageProvider, ImageRequest, ProviderCallOptions } from './types.js';
+import { ProviderError, fetchBytes, fetchJSON, imageFormat } from './http.js';
+
+export interface ReplicateSDXLProviderOptions {
+  /** Default: https://api.replicate.com/v1 */
+  baseUrl?: string;
+  /** Version of stability-ai/sdxl to run */
+  version?: string;
+  /** Milliseconds between status checks (default: 1000) */
+  pollInterval?: number;
+  /** Give up on a prediction after this many milliseconds (default: 60000) */
+  timeout?: number;
+  /** USD per image (default: 0.009) */
+  pricePerImage?: number;
+}
+
+interface Prediction {
+  id: string;
+  status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+  output?: string[] | string | null;
+  error?: string | null;
+  urls?: { get?: string };
+}
+
+export class ReplicateSDXLProvider implements ImageProvider {
+  readonly name = 'Replicate';
+  readonly models = ['sdxl'];
+  readonly apiKeyName = 'replicateApiKey';
+  readonly supportedSizes = ['1024x768', '768x1024', '1024x1024'];
+
+  private baseUrl: string;
+  private version: string;
+  private pollInterval: number;
+  private timeout: number;
+  private pricePerImage: number;
+
+  constructor(options: ReplicateSDXLProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || 'https://api.replicate.com/v1';
+    this.version = options.version || '39ed52f2a78e934b3ba6e2a89f5b1c712de7dfea535525255b1aa35c5565e08b';
+    this.pollInterval = options.pollInterval ?? 1000;
+    this.timeout = options.timeout ?? 60000;
+    this.pricePerImage = options.pricePerImage ?? 0.009;
+  }
+
+  async generate(request: ImageRequest, options: ProviderCallOptions): Promise<GeneratedImage> {
+    const headers = { Authorization: `Bearer ${options.apiKey}` };
+    const deadline = Date.now() + this.timeout;
+
+    let prediction = await fetchJSON<Prediction>(
+      `${this.baseUrl}/predictions`,
+      {
+        method: 'POST',
+        headers: { ...headers, Prefer: 'wait' },
+        body: {
+          version: this.version,
+          input: { prompt: request.prompt, width: request.width, height: request.height, num_outputs: 1 }
+        },
+        signal: options.signal
+      },
+      this.name
+    );
+
+    while (prediction.status === 'starting' || prediction.status === 'processing') {
+      if (Date.now() >= deadline) {
+        // Not retryable: a retry would create (and bill) a second prediction
+        throw new ProviderError(`${this.name} prediction ${prediction.id} did not finish within ${this.timeout}ms`, null, false);
+      }
+      await sleep(this.pollInterval, options.signal);
+      prediction = await fetchJSON<Prediction>(
+        prediction.urls?.get || `${this.baseUrl}/predictions/${prediction.id}`,
+        { headers, signal: options.signal },
+        this.name
+      );
+    }
+
+    if (prediction.status !== 'succeeded') {
+      const reason = prediction.error || prediction.status;
+      throw new ProviderError(`${this.name} prediction ${prediction.id} failed: ${reason}`, null, false);
+    }
+
+    const url = Array.isArray(prediction.output) ? prediction.output[0] : prediction.output;
+    if (!url) {
+      throw new ProviderError(`${this.name} prediction ${prediction.id} returned no image`, null, false);
+    }
+    const data = await fetchBytes(url, { signal: options.signal }, this.name);
+    return { data, format: imageFormat(data), cost: this.pricePerImage };
+  }
+
+  estimate(): CostEstimate {
+    return { min: this.pricePerImage, max: this.pricePerImage, currency: 'USD' };
+  }
+}
@@ -0,0 +1,67 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { TogetherFluxProvider } from './TogetherFluxProvider.js';
+import { ProviderError } from './http.js';
+import { RateLimitError } from '../executors/types.js';
+import { useReplayServer } from '../../../test-support/replayServer.js';
+
+const request = { prompt: 'A red planet at dawn', width: 1024, height: 768, model: 'flux-schnell' };
+
+describe('TogetherFluxProvider', () => {
+  const replay = useReplayServer(baseUrl => new TogetherFluxProvider({ baseUrl: `${baseUrl}/v1` }));
+
+  it('should decode the base64 image from the response', async () => {
+    const provider = await replay.start('together-flux-success');
+
+    const image = await provider.generate(request, { apiKey: 'together-key' });
+
+    expect(image.format).toBe('png');
+    expect(Array.from(image.data.slice(1, 4))).toEqual([0x50, 0x4e, 0x47]); // "PNG"
+    expect(image.cost).toBe(0);
+    expect(replay.server.remaining()).toBe(0);
+  });
+
+  it('should send the prompt, size and API key', async () => {
+    const provider = await replay.start('together-flux-success');
+
+    await provider.generate(request, { apiKey: 'together-key' });
+
+    const [received] = replay.server.requests;
+    expect(received.headers.authorization).toBe('Bearer together-key');
+    expect(received.headers['content-type']).toBe('application/json');
+    expect(received.body).toMatchObject({
+      model: 'black-forest-labs/FLUX.1-schnell-Free',
+      prompt: 'A red planet at dawn',
+      width: 1024,
+      height: 768,
+      steps: 4,
+      response_format: 'b64_json'
+    });
+  });
+
+  it('should turn HTTP 429 into a RateLimitError with the Retry-After delay', async () => {
+    const provider = await replay.start('together-flux-rate-limited');
+
+    const error = await provider.generate(request, { apiKey: 'together-key' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(7000);
+  });
+
+  it('should not mark a rejected API key as retryable', async () => {
+    const provider = await replay.start('together-flux-invalid-key');
+
+    const error = await provider.generate(request, { apiKey: 'wrong' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(401);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('Invalid API key provided.');
+  });
+
+  it('should estimate the configured price', () => {
+    const provider = new TogetherFluxProvider({ pricePerImage: 0.003 });
+
+    expect(provider.estimate()).toEqual({ min: 0.003, max: 0.003, currency: 'USD' });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * TogetherFluxProvider - Flux Schnell images through Together AI
+ *
+ * Uses Together's OpenAI-style `/images/generations` endpoint, which takes
+ * the size as separate width and height and returns the image as base64.
+ */
+
+import type { CostEstimate } from '../executors/types.js';
+import type { GeneratedImage, ImageProvider, ImageRequest, ProviderCallOptions } from './types.js';
+import { fetchJSON, readGeneratedImage } from './http.js';
+import type { ImageGenerationsResponse } from './http.js';
+
+export interface TogetherFluxProviderOptions {
+  /** Default: https://api.together.xyz/v1 */
+  baseUrl?: string;
+  /** Together model name (default: the free Flux Schnell endpoint) */
+  model?: string;
+  /** Diffusion steps; Schnell is tuned for 1-4 (default: 4) */
+  steps?: number;
+  /** USD per image (default: 0, the free endpoint) */
+  pricePerImage?: number;
+}
+
+export class TogetherFluxProvider implements ImageProvider {
+  readonly name = 'Together AI';
+  readonly models = ['flux-schnell'];
+  readonly apiKeyName = 'fluxApiKey';
+  readonly supportedSizes = ['1024x768', '768x1024', '1024x1024'];
+
+  private baseUrl: string;
+  private model: string;
+  private steps: number;
+  private pricePerImage: number;
+
+  constructor(options: TogetherFluxProviderOptions = {}) {
+    this.baseUrl = options.baseUrl || 'https://api.together.xyz/v1';
+    this.model = options.model || 'black-forest-labs/FLUX.1-schnell-Free';
+    this.steps = options.steps ?? 4;
+    this.pricePerImage = options.pricePerImage ?? 0;
+  }
+
+  async generate(request: ImageRequest, options: ProviderCallOptions): Promise<GeneratedImage> {
+    const response = await fetchJSON<ImageGenerationsResponse>(
+      `${this.baseUrl}/images/generations`,
+      {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${options.apiKey}` },
+        body: {
+          model: this.model,
+          prompt: request.prompt,
+          width: request.width,
+          height: request.height,
+          steps: this.steps,
+          n: 1,
+          response_format: 'b64_json'
+        },
+        signal: options.signal
+      },
+      this.name
+    );
+    return readGeneratedImage(response, this.pricePerImage, this.name, options.signal);
+  }
+
+  estimate(): CostEstimate {
+    return { min: this.pricePerImage, max: this.pricePerImage, currency: 'USD' };
+  }
+}
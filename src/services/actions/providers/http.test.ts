@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_AFTER, decodeBase64, imageFormat, parseRetryAfter } from './http.js';
+
+describe('parseRetryAfter', () => {
+  it('should read delays in seconds', () => {
+    expect(parseRetryAfter('7')).toBe(7000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('should read HTTP dates relative to now', () => {
+    const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should fall back to the default for missing or invalid headers', () => {
+    expect(parseRetryAfter(null)).toBe(DEFAULT_RETRY_AFTER);
+    expect(parseRetryAfter('')).toBe(DEFAULT_RETRY_AFTER);
+    expect(parseRetryAfter('soon')).toBe(DEFAULT_RETRY_AFTER);
+  });
+});
+
+describe('imageFormat', () => {
+  it('should recognise JPEG data by its signature', () => {
+    expect(imageFormat(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))).toBe('jpg');
+    expect(imageFormat(decodeBase64('iVBORw0KGgo='))).toBe('png');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * HTTP helpers shared by provider adapters
+ *
+ * Every adapter maps failures the same way: HTTP 429 becomes a
+ * RateLimitError carrying the service's Retry-After, so the executor's
+ * retry loop waits exactly as long as asked; 5xx responses, timeouts and
+ * network errors become retryable ProviderErrors; other 4xx responses
+ * (bad key, rejected prompt) are not retried.
+ */
+
+import { RateLimitError } from '../executors/types.js';
+import { isAbortError } from '../executors/abort.js';
+import { toError } from '../../../utils/errors.js';
+import type { GeneratedImage } from './types.js';
+
+/** Wait used when a 429 response has no usable Retry-After header */
+export const DEFAULT_RETRY_AFTER = 1000;
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, or null when no response was received */
+    public readonly status: number | null,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface HttpRequest {
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  /** Sent as JSON */
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+/**
+ * Send a request and parse the JSON response
+ *
+ * @param provider - Name used in error messages
+ */
+export async function fetchJSON<T>(url: string, request: HttpRequest, provider: string): Promise<T> {
+  const response = await send(url, request, provider);
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    throw new ProviderError(`${provider} returned invalid JSON: ${toError(error).message}`, response.status, true);
+  }
+}
+
+/**
+ * Download a file (such as a generated image served from a CDN)
+ */
+export async function fetchBytes(url: string, request: HttpRequest, provider: string): Promise<Uint8Array> {
+  const response = await send(url, request, provider);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Milliseconds to wait according to a Retry-After header, which holds
+ * either seconds or an HTTP date
+ */
+export function parseRetryAfter(header: string | null, now: number = Date.now()): number {
+  if (header === null || header.trim() === '') {
+    return DEFAULT_RETRY_AFTER;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.round(seconds * 1000));
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? DEFAULT_RETRY_AFTER : Math.max(0, date - now);
+}
+
+/** Response of OpenAI-style `/images/generations` endpoints */
+export interface ImageGenerationsResponse {
+  data?: Array<{ b64_json?: string; url?: string }>;
+}
+
+/**
+ * Extract the first image of an OpenAI-style generations response, which
+ * carries it either inline as base64 or as a URL to download
+ */
+export async function readGeneratedImage(
+  response: ImageGenerationsResponse,
+  cost: number,
+  provider: string,
+  signal?: AbortSignal
+): Promise<GeneratedImage> {
+  const image = response.data?.[0];
+  let data: Uint8Array;
+  if (image?.b64_json) {
+    data = decodeBase64(image.b64_json);
+  } else if (image?.url) {
+    data = await fetchBytes(image.url, { signal }, provider);
+  } else {
+    throw new ProviderError(`${provider} returned no image`, null, false);
+  }
+  return { data, format: imageFormat(data), cost };
+}
+
+/** Works in the browser and in Node, unlike Buffer */
+export function decodeBase64(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+/** Identify JPEG data by its signature; anything else is treated as PNG */
+export function imageFormat(data: Uint8Array): 'png' | 'jpg' {
+  return data[0] === 0xff && data[1] === 0xd8 ? 'jpg' : 'png';
+}
+
+async function send(url: string, request: HttpRequest, provider: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: request.method || 'GET',
+      headers: {
+        ...(request.body !== undefined && { 'Content-Type': 'application/json' }),
+        ...request.headers
+      },
+      body: request.body === undefined ? undefined : JSON.stringify(request.body),
+      signal: request.signal
+    });
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw error;
+    }
+    throw new ProviderError(`${provider} request failed: ${toError(error).message}`, null, true);
+  }
+
+  if (response.status === 429) {
+    throw new RateLimitError(`${provider} rate limit exceeded`, parseRetryAfter(response.headers.get('retry-after')));
+  }
+  if (!response.ok) {
+    const detail = await errorDetail(response);
+    const retryable = response.status >= 500 || response.status === 408;
+    throw new ProviderError(`${provider} returned HTTP ${response.status}: ${detail}`, response.status, retryable);
+  }
+  return response;
+}
+
+/** The service's own error message, if it sent one */
+async function errorDetail(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  try {
+    const body = JSON.parse(text);
+    const message = body?.error?.message ?? body?.error ?? body?.detail ?? body?.message;
+    if (typeof message === 'string') {
+      return message;
+    }
+  } catch {
+    // Not JSON; fall through to the raw text
+  }
+  return text.slice(0, 200) || response.statusText;
+}
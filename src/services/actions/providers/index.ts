@@ -0,0 +1,42 @@
+/**
+ * Asset Providers - Public API
+ *
+ * Adapters for the HTTP services executors generate images and narration with.
+ */
+
+import type { ImageProvider, TTSProvider } from './types.js';
+import { TogetherFluxProvider } from './TogetherFluxProvider.js';
+import { ReplicateSDXLProvider } from './ReplicateSDXLProvider.js';
+import { OpenAITTSProvider } from './OpenAITTSProvider.js';
+import { GoogleCloudTTSProvider } from './GoogleCloudTTSProvider.js';
+
+export type {
+  ImageProvider,
+  ImageRequest,
+  GeneratedImage,
+  TTSProvider,
+  TTSRequest,
+  GeneratedAudio,
+  ProviderCallOptions
+} from './types.js';
+export { ProviderError, parseRetryAfter, DEFAULT_RETRY_AFTER } from './http.js';
+export { TogetherFluxProvider } from './TogetherFluxProvider.js';
+export type { TogetherFluxProviderOptions } from './TogetherFluxProvider.js';
+export { ReplicateSDXLProvider } from './ReplicateSDXLProvider.js';
+export type { ReplicateSDXLProviderOptions } from './ReplicateSDXLProvider.js';
+export { OpenAICompatibleImageProvider } from './OpenAICompatibleImageProvider.js';
+export type { OpenAICompatibleImageProviderOptions } from './OpenAICompatibleImageProvider.js';
+export { OpenAITTSProvider, OPENAI_TTS_VOICES } from './OpenAITTSProvider.js';
+export type { OpenAITTSProviderOptions } from './OpenAITTSProvider.js';
+export { GoogleCloudTTSProvider, GOOGLE_TTS_VOICES } from './GoogleCloudTTSProvider.js';
+export type { GoogleCloudTTSProviderOptions } from './GoogleCloudTTSProvider.js';
+
+/** Flux Schnell through Together AI and SDXL through Replicate */
+export function createDefaultImageProviders(): ImageProvider[] {
+  return [new TogetherFluxProvider(), new ReplicateSDXLProvider()];
+}
+
+/** OpenAI TTS and Google Cloud Text-to-Speech */
+export function createDefaultTTSProviders(): TTSProvider[] {
+  return [new OpenAITTSProvider(), new GoogleCloudTTSProvider()];
+}
@@ -0,0 +1,90 @@
+/**
+ * Provider interfaces - the HTTP services executors generate assets with
+ *
+ * An executor validates, caches, rate-limits and stores; a provider only
+ * turns a request into bytes by calling one external API. Swapping a
+ * service, or pointing an adapter at a local stand-in for tests, therefore
+ * never touches executor code.
+ */
+
+import type { CostEstimate } from '../executors/types.js';
+
+export interface ImageRequest {
+  prompt: string;
+  width: number;
+  height: number;
+  /** The action's model, for providers that serve more than one */
+  model: string;
+}
+
+export interface GeneratedImage {
+  data: Uint8Array;
+  format: 'png' | 'jpg';
+  /** USD charged for the image */
+  cost: number;
+}
+
+export interface ProviderCallOptions {
+  apiKey: string;
+  /** Aborts the request (and any polling) */
+  signal?: AbortSignal;
+}
+
+export interface ImageProvider {
+  /** Shown in errors and logs */
+  readonly name: string;
+  /** Action models (AssetImageAction.model) this provider generates */
+  readonly models: readonly string[];
+  /** Key of ExecutionContext.apiKeys that holds this provider's key */
+  readonly apiKeyName: string;
+  /** Sizes as `${width}x${height}` */
+  readonly supportedSizes: readonly string[];
+
+  /**
+   * Generate one image
+   *
+   * Rejects with a RateLimitError when the service asks to slow down and
+   * with a ProviderError for any other failure.
+   */
+  generate(request: ImageRequest, options: ProviderCallOptions): Promise<GeneratedImage>;
+  estimate(request: ImageRequest): CostEstimate;
+}
+
+export interface TTSRequest {
+  text: string;
+  /** Provider voice name, from the provider's voices table */
+  voice: string;
+  /** Speaking rate, 1.0 is normal */
+  speed: number;
+  /** Relative pitch from -1 to 1, 0 is the voice's own */
+  pitch: number;
+  /** The action's model, for providers that serve more than one */
+  model: string;
+}
+
+export interface GeneratedAudio {
+  data: Uint8Array;
+  format: 'mp3' | 'wav';
+  /** USD charged for the narration */
+  cost: number;
+}
+
+export interface TTSProvider {
+  /** Shown in errors and logs */
+  readonly name: string;
+  /** Action models (AssetSubtitleAction.model) this provider speaks */
+  readonly models: readonly string[];
+  /** Key of ExecutionContext.apiKeys that holds this provider's key */
+  readonly apiKeyName: string;
+  /** Voice name for each `${voice_gender}-${voice_tone}`; 'neutral-calm' is the fallback */
+  readonly voices: Readonly<Record<string, string>>;
+
+  /**
+   * Synthesize speech
+   *
+   * Rejects with a RateLimitError when the service asks to slow down and
+   * with a ProviderError for any other failure.
+   */
+  generate(request: TTSRequest, options: ProviderCallOptions): Promise<GeneratedAudio>;
+  estimate(request: TTSRequest): CostEstimate;
+}
@@ -0,0 +1,86 @@
+/**
+ * Compile-time alignment checks for action types
+ *
+ * The assertions are checked by `tsc -b`; if a schema, an executor or the
+ * cutscene player drifts from the parser's action types the build fails.
+ */
+
+import { describe, it, expectTypeOf } from 'vitest';
+import type { z } from 'zod';
+import type {
+  ActionSchema,
+  ReasonActionSchema,
+  AssetImageActionSchema,
+  AssetSubtitleActionSchema,
+  AssetCutsceneActionSchema,
+  PlayCutsceneActionSchema,
+  ShowModalActionSchema,
+  AddFeatureActionSchema,
+  RemoveFeatureActionSchema,
+  WhenThenActionSchema,
+  AddPlayerChoiceActionSchema,
+  ActionInputSchema
+} from './parser/schemas.js';
+import type {
+  Action,
+  ActionInput,
+  ReasonAction,
+  AssetImageAction,
+  AssetSubtitleAction,
+  AssetCutsceneAction,
+  PlayCutsceneAction,
+  ShowModalAction,
+  AddFeatureAction,
+  RemoveFeatureAction,
+  WhenThenAction,
+  AddPlayerChoiceAction
+} from './parser/types.js';
+import type * as ExecutorTypes from './executors/types.js';
+import type { ImageAssetExecutor } from './executors/ImageAssetExecutor.js';
+import type { SubtitleAssetExecutor } from './executors/SubtitleAssetExecutor.js';
+import type { CutsceneAssetExecutor } from './executors/CutsceneAssetExecutor.js';
+import type { ActionProcessorConfig } from './ActionProcessor.js';
+import type { CutsceneShot as PlayerShot } from '../../components/CutscenePlayer/types.js';
+
+type ProcessorExecutors = NonNullable<ActionProcessorConfig['executors']>;
+
+describe('Action type alignment', () => {
+  it('infers every action type from its schema', () => {
+    expectTypeOf<z.infer<typeof ActionSchema>>().toEqualTypeOf<Action>();
+    expectTypeOf<z.infer<typeof ActionInputSchema>>().toEqualTypeOf<ActionInput>();
+    expectTypeOf<z.infer<typeof ReasonActionSchema>>().toEqualTypeOf<ReasonAction>();
+    expectTypeOf<z.infer<typeof AssetImageActionSchema>>().toEqualTypeOf<AssetImageAction>();
+    expectTypeOf<z.infer<typeof AssetSubtitleActionSchema>>().toEqualTypeOf<AssetSubtitleAction>();
+    expectTypeOf<z.infer<typeof AssetCutsceneActionSchema>>().toEqualTypeOf<AssetCutsceneAction>();
+    expectTypeOf<z.infer<typeof PlayCutsceneActionSchema>>().toEqualTypeOf<PlayCutsceneAction>();
+    expectTypeOf<z.infer<typeof ShowModalActionSchema>>().toEqualTypeOf<ShowModalAction>();
+    expectTypeOf<z.infer<typeof AddFeatureActionSchema>>().toEqualTypeOf<AddFeatureAction>();
+    expectTypeOf<z.infer<typeof RemoveFeatureActionSchema>>().toEqualTypeOf<RemoveFeatureAction>();
+    expectTypeOf<z.infer<typeof WhenThenActionSchema>>().toEqualTypeOf<WhenThenAction>();
+    expectTypeOf<z.infer<typeof AddPlayerChoiceActionSchema>>().toEqualTypeOf<AddPlayerChoiceAction>();
+  });
+
+  it('shares action types with the executors', () => {
+    expectTypeOf<ExecutorTypes.Action>().toEqualTypeOf<Action>();
+    expectTypeOf<ExecutorTypes.ShowModalAction>().toEqualTypeOf<ShowModalAction>();
+    expectTypeOf<ExecutorTypes.AddPlayerChoiceAction>().toEqualTypeOf<AddPlayerChoiceAction>();
+
+    expectTypeOf<Parameters<ImageAssetExecutor['execute']>[0]>().toEqualTypeOf<AssetImageAction>();
+    expectTypeOf<Parameters<SubtitleAssetExecutor['execute']>[0]>().toEqualTypeOf<AssetSubtitleAction>();
+    expectTypeOf<Parameters<CutsceneAssetExecutor['execute']>[0]>().toEqualTypeOf<AssetCutsceneAction>();
+  });
+
+  it('wires each processor executor slot to its action type', () => {
+    expectTypeOf<Parameters<NonNullable<ProcessorExecutors['asset_image']>['execute']>[0]>()
+      .toEqualTypeOf<AssetImageAction>();
+    expectTypeOf<Parameters<NonNullable<ProcessorExecutors['asset_subtitle']>['execute']>[0]>()
+      .toEqualTypeOf<AssetSubtitleAction>();
+    expectTypeOf<Parameters<NonNullable<ProcessorExecutors['asset_cutscene']>['execute']>[0]>()
+      .toEqualTypeOf<AssetCutsceneAction>();
+  });
+
+  it('matches the cutscene player shot definition', () => {
+    expectTypeOf<ExecutorTypes.CutsceneDefinitionShot>().toEqualTypeOf<PlayerShot>();
+    expectTypeOf<PlayerShot['animation']>().toEqualTypeOf<AssetCutsceneAction['shots'][number]['animation']>();
+  });
+});
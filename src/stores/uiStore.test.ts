@@ -8,6 +8,7 @@ describe('useUIStore', () => {
     useUIStore.setState({
       currentView: 'planet-selection',
       isSettingsOpen: false,
+      selectedPlanetId: null,
     });
   });
 
@@ -22,6 +23,7 @@ describe('useUIStore', () => {
       // Assert
       expect(result.current.currentView).toBe('planet-selection');
       expect(result.current.isSettingsOpen).toBe(false);
+      expect(result.current.selectedPlanetId).toBeNull();
     });
   });
 
@@ -116,6 +118,21 @@ describe('useUIStore', () => {
     });
   });
 
+  describe('setSelectedPlanetId', () => {
+    it('remembers the picked planet', () => {
+      // Arrange
+      const { result } = renderHook(() => useUIStore());
+      
+      // Act
+      act(() => {
+        result.current.setSelectedPlanetId('earth-save');
+      });
+      
+      // Assert
+      expect(result.current.selectedPlanetId).toBe('earth-save');
+    });
+  });
+
   describe('navigateToMap', () => {
     it('switches to the map view when called', () => {
       // Arrange
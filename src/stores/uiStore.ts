@@ -21,11 +21,15 @@ interface UIState {
   currentView: ViewType;
   /** Whether the settings modal is currently open */
   isSettingsOpen: boolean;
+  /** Planet picked in the planet selection view, null until one is picked */
+  selectedPlanetId: string | null;
   
   /** Navigate to a specific view */
   setCurrentView: (view: ViewType) => void;
   /** Explicitly set the settings modal open/closed state */
   setSettingsOpen: (isOpen: boolean) => void;
+  /** Remember which planet the player picked */
+  setSelectedPlanetId: (planetId: string | null) => void;
   /** Toggle the settings modal (convenience method for keyboard shortcuts) */
   toggleSettings: () => void;
   /** Navigate directly to the map view (convenience method for planet selection) */
@@ -52,11 +56,14 @@ export const useUIStore = create<UIState>()(
     (set) => ({
       currentView: 'planet-selection',
       isSettingsOpen: false,
+      selectedPlanetId: null,
       
       setCurrentView: (view) => set({ currentView: view }, false, 'setCurrentView'),
       
       setSettingsOpen: (isOpen) => set({ isSettingsOpen: isOpen }, false, 'setSettingsOpen'),
       
+      setSelectedPlanetId: (planetId) => set({ selectedPlanetId: planetId }, false, 'setSelectedPlanetId'),
+      
       toggleSettings: () => set((state) => ({ isSettingsOpen: !state.isSettingsOpen }), false, 'toggleSettings'),
       
       navigateToMap: () => set({ currentView: 'map' }, false, 'navigateToMap'),
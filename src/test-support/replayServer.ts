@@ -0,0 +1,161 @@
+/**
+ * Replay Server - Local HTTP stand-in for provider tests
+ *
+ * Serves a recorded conversation with a real service: each incoming request
+ * is answered with the next recorded response, so adapters are exercised
+ * over real HTTP (headers, status codes, binary bodies) without network
+ * access or API keys. `{{baseUrl}}` in a recorded body is replaced with the
+ * server's own address, for responses that link to follow-up URLs.
+ *
+ * Node-only test helper for the provider adapters in
+ * services/actions/providers; recordings live in ./recordings.
+ */
+
+import { afterEach } from 'vitest';
+import { createServer } from 'http';
+import type { IncomingMessage, Server } from 'http';
+import type { AddressInfo } from 'net';
+import { readFileSync } from 'fs';
+
+export interface RecordedExchange {
+  request: { method: 'GET' | 'POST'; path: string };
+  response: {
+    status: number;
+    headers?: Record<string, string>;
+    /** JSON response body */
+    body?: unknown;
+    /** Binary response body, such as a downloaded image */
+    bodyBase64?: string;
+  };
+}
+
+export interface Recording {
+  description: string;
+  exchanges: RecordedExchange[];
+}
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** Parsed JSON body, if any */
+  body?: unknown;
+}
+
+export interface ReplayServer {
+  baseUrl: string;
+  /** Requests received so far, in order */
+  requests: ReceivedRequest[];
+  /** Recorded exchanges not yet replayed */
+  remaining(): number;
+  close(): Promise<void>;
+}
+
+/** Load a recording from ./recordings */
+export function loadRecording(name: string): Recording {
+  const url = new URL(`./recordings/${name}.json`, import.meta.url);
+  return JSON.parse(readFileSync(url, 'utf8')) as Recording;
+}
+
+/**
+ * Start a server on a free local port replaying the exchanges in order
+ *
+ * A request that doesn't match the next recorded method and path is
+ * answered with HTTP 599 so the adapter under test fails loudly.
+ */
+export async function startReplayServer(recording: Recording): Promise<ReplayServer> {
+  const queue = [...recording.exchanges];
+  const requests: ReceivedRequest[] = [];
+  let baseUrl = '';
+
+  const server: Server = createServer(async (req, res) => {
+    const raw = await readBody(req);
+    const received: ReceivedRequest = {
+      method: req.method || 'GET',
+      path: req.url || '/',
+      headers: req.headers,
+      body: raw ? JSON.parse(raw) : undefined
+    };
+    requests.push(received);
+
+    const next = queue.shift();
+    if (!next || next.request.method !== received.method || next.request.path !== received.path) {
+      const expected = next ? `${next.request.method} ${next.request.path}` : 'no more requests';
+      res.writeHead(599, { 'Content-Type': 'text/plain' });
+      res.end(`Unexpected ${received.method} ${received.path}; expected ${expected}`);
+      return;
+    }
+
+    const { status, headers = {}, body, bodyBase64 } = next.response;
+    if (bodyBase64 !== undefined) {
+      res.writeHead(status, { 'Content-Type': 'application/octet-stream', ...headers });
+      res.end(Buffer.from(bodyBase64, 'base64'));
+    } else if (body !== undefined) {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body).split('{{baseUrl}}').join(baseUrl));
+    } else {
+      res.writeHead(status, headers);
+      res.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `http://127.0.0.1:${port}`;
+
+  return {
+    baseUrl,
+    requests,
+    remaining: () => queue.length,
+    close: () => new Promise<void>((resolve, reject) => {
+      server.closeAllConnections();
+      server.close(error => (error ? reject(error) : resolve()));
+    })
+  };
+}
+
+export interface ReplayFixture<P, A extends unknown[]> {
+  /** Start a server replaying recordings/<name>.json and create the client under test against it */
+  start(recording: string, ...args: A): Promise<P>;
+  /** The server started by the current test */
+  readonly server: ReplayServer;
+}
+
+/**
+ * Replay recordings for the clients created by `create`, closing each
+ * test's server after it
+ *
+ * Call it once inside a describe block.
+ */
+export function useReplayServer<P, A extends unknown[] = []>(
+  create: (baseUrl: string, ...args: A) => P
+): ReplayFixture<P, A> {
+  let current: ReplayServer | undefined;
+
+  afterEach(async () => {
+    await current?.close();
+    current = undefined;
+  });
+
+  return {
+    async start(recording, ...args) {
+      current = await startReplayServer(loadRecording(recording));
+      return create(current.baseUrl, ...args);
+    },
+    get server() {
+      if (!current) {
+        throw new Error('No replay server was started in this test');
+      }
+      return current;
+    }
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
@@ -66,7 +66,8 @@ describe('Action System Integration Tests', () => {
       
       const breakdown = processor.getCostBreakdown();
       expect(breakdown.images.count).toBe(2);
-      expect(breakdown.audio.count).toBe(3); // 2 subtitles + 1 cutscene
+      expect(breakdown.audio.count).toBe(2);
+      expect(breakdown.cutscenes.count).toBe(1);
       expect(breakdown.total).toBe(result.totalCost);
     });
 